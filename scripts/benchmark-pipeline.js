@@ -0,0 +1,83 @@
+#!/usr/bin/env node
+
+/**
+ * Benchmark for the single-parse pipeline: times htmlToMarkdownAuto against the
+ * same steps run one by one on HTML strings, and counts HTML parses per run.
+ *
+ * Usage: node scripts/benchmark-pipeline.js [iterations] [file]
+ */
+
+const fs = require('fs');
+const path = require('path');
+const {
+  domAdapter,
+  htmlToMarkdownAuto,
+  pageTypeDetector,
+  metadataExtractor,
+  HtmlFilter,
+  DefaultMarkdownGenerator
+} = require('../dist/index.js');
+
+const iterations = parseInt(process.argv[2], 10) || 20;
+const file = process.argv[3] || path.join(__dirname, '..', 'demo', 'complex_example.html');
+const url = 'https://example.com/articles/complex-example';
+const html = fs.readFileSync(file, 'utf8');
+
+// Count every parse made through the DOM adapter
+let parseCount = 0;
+const parseHTML = domAdapter.parseHTML.bind(domAdapter);
+domAdapter.parseHTML = async (input) => {
+  parseCount++;
+  return parseHTML(input);
+};
+
+/**
+ * Detection, metadata, filtering and conversion each starting from a string,
+ * as the processor did before it shared one DOM
+ */
+async function stringPipeline() {
+  const detection = await pageTypeDetector.detectPageType(html, url);
+  await metadataExtractor.extract(html, url);
+  const filter = new HtmlFilter(2, 'dynamic', 0.48, detection.filterOptions);
+  const filtered = await filter.filterContentAsString(html);
+  const generator = new DefaultMarkdownGenerator(new HtmlFilter(), {});
+  const result = await generator.generateMarkdown(filtered, url);
+  return result.rawMarkdown;
+}
+
+async function sharedDomPipeline() {
+  const result = await htmlToMarkdownAuto(html, url);
+  return result.content;
+}
+
+async function measure(name, run) {
+  // Warm up jsdom and the JIT before timing
+  await run();
+  await run();
+
+  parseCount = 0;
+  const start = process.hrtime.bigint();
+  for (let i = 0; i < iterations; i++) {
+    await run();
+  }
+  const elapsed = Number(process.hrtime.bigint() - start) / 1e6;
+
+  const result = { name, msPerRun: elapsed / iterations, parsesPerRun: parseCount / iterations };
+  console.log(`   ${name.padEnd(18)} ${result.msPerRun.toFixed(2).padStart(9)} ms/run   ${result.parsesPerRun} parses/run`);
+  return result;
+}
+
+async function main() {
+  console.log(`⏱️  Pipeline benchmark: ${path.relative(process.cwd(), file)} (${html.length} chars, ${iterations} runs)\n`);
+
+  const baseline = await measure('string pipeline', stringPipeline);
+  const shared = await measure('shared DOM', sharedDomPipeline);
+
+  console.log(`\n🚀 Speedup: ${(baseline.msPerRun / shared.msPerRun).toFixed(2)}x, ` +
+    `${baseline.parsesPerRun - shared.parsesPerRun} fewer parses per run`);
+}
+
+main().catch(error => {
+  console.error('❌ Benchmark failed:', error);
+  process.exit(1);
+});
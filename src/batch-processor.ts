@@ -0,0 +1,147 @@
+/**
+ * Batch Processor - Converts many documents with bounded concurrency and
+ * per-item results, so one failing page does not abort the run
+ */
+
+import { domAdapter } from './dom-adapter';
+import { runTask, WorkerTask } from './worker-pool';
+import { PluginRegistry, resolvePluginRegistry, createsPluginRegistry } from './plugin-manager';
+import { BatchItem, BatchItemResult, BatchOptions, BatchResult, MarkdownResult, ProcessorError } from './types';
+
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Converts batch items to Markdown, yielding each result as soon as it is
+ * ready (completion order, with `index` giving the input position). Items are
+ * pulled from the source only when a slot is free, so large or lazy sources
+ * are not read ahead.
+ * @param items Items, as an array, iterable or async iterable
+ * @param options Batch options
+ * @returns Async iterator of item results
+ */
+export async function* processBatchIterator(
+  items: Iterable<BatchItem> | AsyncIterable<BatchItem>,
+  options: BatchOptions = {}
+): AsyncGenerator<BatchItemResult, void, undefined> {
+  const defaultConcurrency = options.pool ? await options.pool.getSize() : DEFAULT_CONCURRENCY;
+  const concurrency = Math.max(1, Math.floor(options.concurrency || defaultConcurrency));
+  const source = getIterator(items);
+  const running = new Map<number, Promise<BatchItemResult>>();
+  let nextIndex = 0;
+  let exhausted = false;
+  let ownedRegistry: PluginRegistry | null = null;
+
+  if (!options.pool) {
+    // Create the DOM environment once rather than racing to create it per item
+    await domAdapter.warmUp(options.domBackend);
+    if (options.plugins) {
+      // Share one plugin registry between items instead of initializing the plugins per item
+      const registry = resolvePluginRegistry(options.plugins);
+      ownedRegistry = createsPluginRegistry(options.plugins) ? registry : null;
+      options = { ...options, plugins: registry };
+    }
+  }
+
+  const startNext = async (): Promise<boolean> => {
+    if (exhausted) return false;
+    const next = await source.next();
+    if (next.done) {
+      exhausted = true;
+      return false;
+    }
+    const index = nextIndex++;
+    running.set(index, processItem(next.value, index, options));
+    return true;
+  };
+
+  try {
+    while (running.size < concurrency && await startNext()) {
+      // Fill the initial slots
+    }
+
+    while (running.size > 0) {
+      const result = await Promise.race(running.values());
+      running.delete(result.index);
+      // Refill before yielding so work continues while the consumer handles the result
+      await startNext();
+      yield result;
+    }
+  } finally {
+    // Items still running when the consumer stops early finish before their plugins are destroyed
+    await Promise.all(running.values());
+    if (ownedRegistry) {
+      ownedRegistry.destroy();
+    }
+  }
+}
+
+/**
+ * Converts batch items to Markdown with bounded concurrency
+ * @param items Items to convert
+ * @param options Batch options
+ * @returns Item results in input order, with counts and total time
+ */
+export async function processBatch(
+  items: Iterable<BatchItem> | AsyncIterable<BatchItem>,
+  options: BatchOptions = {}
+): Promise<BatchResult> {
+  const startTime = Date.now();
+  const results: BatchItemResult[] = [];
+
+  for await (const result of processBatchIterator(items, options)) {
+    results[result.index] = result;
+  }
+
+  const succeeded = results.filter(result => result.success).length;
+  return {
+    results,
+    succeeded,
+    failed: results.length - succeeded,
+    processingTime: Date.now() - startTime
+  };
+}
+
+/**
+ * Runs one item through detection (unless disabled), filtering and conversion,
+ * in the pool when one is given. Never rejects; failures are returned as results.
+ */
+async function processItem(item: BatchItem, index: number, options: BatchOptions): Promise<BatchItemResult> {
+  const startTime = Date.now();
+  const id = item && item.id !== undefined ? String(item.id) : String(index);
+  const url = item ? item.url : undefined;
+
+  try {
+    if (!item || typeof item.html !== 'string') {
+      throw new ProcessorError(`Batch item ${id} has no HTML string`, 'INVALID_BATCH_ITEM');
+    }
+
+    const { concurrency, pool, ...processorOptions } = options;
+    const task: WorkerTask = {
+      type: 'markdown',
+      html: item.html,
+      url,
+      options: { ...processorOptions, baseUrl: url || processorOptions.baseUrl }
+    };
+    const result = await (pool ? pool.run(task) : runTask(task)) as MarkdownResult;
+
+    return { id, index, url, success: true, result, processingTime: Date.now() - startTime };
+  } catch (error: unknown) {
+    return { id, index, url, success: false, error: toProcessorError(error), processingTime: Date.now() - startTime };
+  }
+}
+
+function toProcessorError(error: unknown): ProcessorError {
+  if (error instanceof ProcessorError) {
+    return error;
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  return new ProcessorError(`Batch item failed: ${errorMessage}`, 'BATCH_ITEM_FAILED', error instanceof Error ? error : undefined);
+}
+
+function getIterator<T>(items: Iterable<T> | AsyncIterable<T>): AsyncIterator<T> | Iterator<T> {
+  const asyncIterable = items as AsyncIterable<T>;
+  if (typeof asyncIterable[Symbol.asyncIterator] === 'function') {
+    return asyncIterable[Symbol.asyncIterator]();
+  }
+  return (items as Iterable<T>)[Symbol.iterator]();
+}
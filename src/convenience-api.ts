@@ -1,95 +1,118 @@
 import { HtmlProcessor } from './html-processor';
-import { ConvertOptions, ProcessorOptions, FilterOptions } from './types';
+import { ConvertOptions, AutoConvertOptions, ProcessorOptions, CleanOptions, DomOptions, HtmlInput } from './types';
 import { MarkdownResult } from './types';
 
 /**
  * Convert HTML to Markdown with optional configuration
- * @param html HTML content to convert
+ * @param html HTML content to convert, or a parsed Document or Element
  * @param options Conversion options
  * @returns Markdown string
  */
-export async function htmlToMarkdown(html: string, options?: ConvertOptions): Promise<string> {
-  const processor = HtmlProcessor.from(html, options?.baseUrl ? { baseUrl: options.baseUrl } : {});
+export async function htmlToMarkdown(html: HtmlInput, options?: ConvertOptions): Promise<string> {
+  const processor = HtmlProcessor.from(html, {
+    ...(options?.baseUrl ? { baseUrl: options.baseUrl } : {}),
+    domBackend: options?.domBackend,
+    plugins: options?.plugins,
+    pluginFailurePolicy: options?.pluginFailurePolicy
+  });
   
-  // Apply filtering if filter options are provided
-  if (options && (options.threshold !== undefined || options.strategy !== undefined || options.ratio !== undefined)) {
-    await processor.filter(options);
-  } else {
-    await processor.filter();
+  try {
+    // Apply filtering if filter options are provided
+    if (options && (options.threshold !== undefined || options.strategy !== undefined || options.ratio !== undefined)) {
+      await processor.filter(options);
+    } else {
+      await processor.filter();
+    }
+
+    const result = await processor.toMarkdown(options);
+    return result.content;
+  } finally {
+    processor.dispose();
   }
-  
-  const result = await processor.toMarkdown(options);
-  return result.content;
 }
 
 /**
  * Convert HTML to Markdown with citations
- * @param html HTML content to convert
+ * @param html HTML content to convert, or a parsed Document or Element
  * @param baseUrl Base URL for resolving relative links
  * @param options Conversion options
  * @returns Markdown string with citations
  */
-export async function htmlToMarkdownWithCitations(html: string, baseUrl?: string, options?: ConvertOptions): Promise<string> {
-  const processor = HtmlProcessor.from(html, { baseUrl });
+export async function htmlToMarkdownWithCitations(html: HtmlInput, baseUrl?: string, options?: ConvertOptions): Promise<string> {
+  const processor = HtmlProcessor.from(html, {
+    baseUrl,
+    domBackend: options?.domBackend,
+    plugins: options?.plugins,
+    pluginFailurePolicy: options?.pluginFailurePolicy
+  });
   
-  if (options && (options.threshold !== undefined || options.strategy !== undefined || options.ratio !== undefined)) {
-    await processor.filter(options);
-  } else {
-    await processor.filter();
+  try {
+    if (options && (options.threshold !== undefined || options.strategy !== undefined || options.ratio !== undefined)) {
+      await processor.filter(options);
+    } else {
+      await processor.filter();
+    }
+
+    const result = await processor.toMarkdown({ ...options, citations: true });
+    return result.contentWithCitations + (result.references ? '\n\n' + result.references : '');
+  } finally {
+    processor.dispose();
   }
-  
-  const result = await processor.toMarkdown({ ...options, citations: true });
-  return result.contentWithCitations + (result.references ? '\n\n' + result.references : '');
 }
 
 /**
  * Convert HTML to plain text
- * @param html HTML content to convert
- * @param options Filter options
+ * @param html HTML content to convert, or a parsed Document or Element
+ * @param options Filter options and DOM backend
  * @returns Plain text string
  */
-export async function htmlToText(html: string, options?: FilterOptions): Promise<string> {
+export async function htmlToText(html: HtmlInput, options: CleanOptions = {}): Promise<string> {
+  const { domBackend, ...filterOptions } = options;
   const processor = HtmlProcessor.from(html, { 
-    filter: options,
-    converter: { ignoreLinks: true, ignoreImages: true }
+    filter: filterOptions,
+    converter: { ignoreLinks: true, ignoreImages: true },
+    domBackend
   });
   
-  await processor.filter(options);
+  await processor.filter(filterOptions);
   return await processor.toText();
 }
 
 /**
  * Clean HTML by removing unwanted elements and content
- * @param html HTML content to clean
- * @param options Filter options
+ * @param html HTML content to clean, or a parsed Document or Element
+ * @param options Filter options and DOM backend
  * @returns Cleaned HTML string
  */
-export async function cleanHtml(html: string, options?: FilterOptions): Promise<string> {
-  const processor = HtmlProcessor.from(html, { filter: options });
-  await processor.filter(options);
+export async function cleanHtml(html: HtmlInput, options: CleanOptions = {}): Promise<string> {
+  const { domBackend, ...filterOptions } = options;
+  const processor = HtmlProcessor.from(html, { filter: filterOptions, domBackend });
+  await processor.filter(filterOptions);
   return processor.toString();
 }
 
 /**
  * Extract main content from HTML as array of fragments
- * @param html HTML content to process
- * @param options Filter options
+ * @param html HTML content to process, or a parsed Document or Element
+ * @param options Filter options and DOM backend
  * @returns Array of HTML content fragments
  */
-export async function extractContent(html: string, options?: FilterOptions): Promise<string[]> {
-  const processor = HtmlProcessor.from(html, { filter: options });
-  await processor.filter(options);
+export async function extractContent(html: HtmlInput, options: CleanOptions = {}): Promise<string[]> {
+  const { domBackend, ...filterOptions } = options;
+  const processor = HtmlProcessor.from(html, { filter: filterOptions, domBackend });
+  await processor.filter(filterOptions);
   return await processor.toArray();
 }
 
 /**
  * Convert HTML to Markdown using article preset (optimized for long-form content)
- * @param html HTML content to convert
+ * @param html HTML content to convert, or a parsed Document or Element
  * @param baseUrl Base URL for resolving relative links
+ * @param options DOM backend
  * @returns Markdown string
  */
-export async function htmlToArticleMarkdown(html: string, baseUrl?: string): Promise<string> {
-  const processor = HtmlProcessor.from(html, { preset: 'article', baseUrl });
+export async function htmlToArticleMarkdown(html: HtmlInput, baseUrl?: string, options: DomOptions = {}): Promise<string> {
+  const processor = HtmlProcessor.from(html, { preset: 'article', baseUrl, domBackend: options.domBackend });
   await processor.filter();
   const result = await processor.toMarkdown();
   return result.content;
@@ -97,12 +120,13 @@ export async function htmlToArticleMarkdown(html: string, baseUrl?: string): Pro
 
 /**
  * Convert HTML to Markdown using blog preset (optimized for blog posts)
- * @param html HTML content to convert
+ * @param html HTML content to convert, or a parsed Document or Element
  * @param baseUrl Base URL for resolving relative links
+ * @param options DOM backend
  * @returns Markdown string
  */
-export async function htmlToBlogMarkdown(html: string, baseUrl?: string): Promise<string> {
-  const processor = HtmlProcessor.from(html, { preset: 'blog', baseUrl });
+export async function htmlToBlogMarkdown(html: HtmlInput, baseUrl?: string, options: DomOptions = {}): Promise<string> {
+  const processor = HtmlProcessor.from(html, { preset: 'blog', baseUrl, domBackend: options.domBackend });
   await processor.filter();
   const result = await processor.toMarkdown();
   return result.content;
@@ -110,12 +134,13 @@ export async function htmlToBlogMarkdown(html: string, baseUrl?: string): Promis
 
 /**
  * Convert HTML to Markdown using news preset (optimized for news articles)
- * @param html HTML content to convert
+ * @param html HTML content to convert, or a parsed Document or Element
  * @param baseUrl Base URL for resolving relative links
+ * @param options DOM backend
  * @returns Markdown string
  */
-export async function htmlToNewsMarkdown(html: string, baseUrl?: string): Promise<string> {
-  const processor = HtmlProcessor.from(html, { preset: 'news', baseUrl });
+export async function htmlToNewsMarkdown(html: HtmlInput, baseUrl?: string, options: DomOptions = {}): Promise<string> {
+  const processor = HtmlProcessor.from(html, { preset: 'news', baseUrl, domBackend: options.domBackend });
   await processor.filter();
   const result = await processor.toMarkdown();
   return result.content;
@@ -123,94 +148,120 @@ export async function htmlToNewsMarkdown(html: string, baseUrl?: string): Promis
 
 /**
  * Quick and aggressive HTML cleaning using strict preset
- * @param html HTML content to clean
+ * @param html HTML content to clean, or a parsed Document or Element
+ * @param options DOM backend
  * @returns Cleaned HTML string
  */
-export async function strictCleanHtml(html: string): Promise<string> {
-  const processor = HtmlProcessor.from(html, { preset: 'strict' });
+export async function strictCleanHtml(html: HtmlInput, options: DomOptions = {}): Promise<string> {
+  const processor = HtmlProcessor.from(html, { preset: 'strict', domBackend: options.domBackend });
   await processor.filter();
   return processor.toString();
 }
 
 /**
  * Gentle HTML cleaning using loose preset
- * @param html HTML content to clean
+ * @param html HTML content to clean, or a parsed Document or Element
+ * @param options DOM backend
  * @returns Cleaned HTML string
  */
-export async function gentleCleanHtml(html: string): Promise<string> {
-  const processor = HtmlProcessor.from(html, { preset: 'loose' });
+export async function gentleCleanHtml(html: HtmlInput, options: DomOptions = {}): Promise<string> {
+  const processor = HtmlProcessor.from(html, { preset: 'loose', domBackend: options.domBackend });
   await processor.filter();
   return processor.toString();
 }
 
 /**
  * Create a processor instance with custom configuration
- * @param options Processor configuration options
+ * @param options Processor configuration options; a `plugins` list gives the processor its own
+ * plugin registry, destroyed by `dispose()`
  * @returns Configured HtmlProcessor instance
  */
 export function createProcessor(options?: ProcessorOptions): HtmlProcessor {
   return new HtmlProcessor(options);
 }
 
+/**
+ * Move the frontMatter shorthand into the converter options
+ * @param options Auto-detection conversion options
+ * @returns Processor options
+ */
+function withFrontMatter({ frontMatter, ...options }: AutoConvertOptions): Partial<ProcessorOptions> {
+  return frontMatter === undefined
+    ? options
+    : { ...options, converter: { ...options.converter, frontMatter } };
+}
+
 /**
  * Convert HTML to Markdown with automatic page type detection
- * @param html HTML content
+ * @param html HTML content, or a parsed Document or Element
  * @param url Optional URL for better detection accuracy
- * @param options Additional processing options
+ * @param options Additional processing options; frontMatter prepends a front-matter block
  * @returns Markdown result
  */
 export async function htmlToMarkdownAuto(
-  html: string, 
+  html: HtmlInput, 
   url?: string, 
-  options: Partial<ProcessorOptions> = {}
+  options: AutoConvertOptions = {}
 ): Promise<MarkdownResult> {
-  const processor = await HtmlProcessor.from(html, options)
-    .withAutoDetection(url);
-  await processor.filter();
-  return await processor.toMarkdown();
+  const processor = HtmlProcessor.from(html, withFrontMatter(options));
+  try {
+    await processor.withAutoDetection(url);
+    await processor.filter();
+    return await processor.toMarkdown();
+  } finally {
+    processor.dispose();
+  }
 }
 
 /**
  * Clean HTML with automatic page type detection
- * @param html HTML content
+ * @param html HTML content, or a parsed Document or Element
  * @param url Optional URL for better detection accuracy
  * @param options Additional processing options
  * @returns Clean HTML string
  */
 export async function cleanHtmlAuto(
-  html: string, 
+  html: HtmlInput, 
   url?: string, 
   options: Partial<ProcessorOptions> = {}
 ): Promise<string> {
-  const processor = await HtmlProcessor.from(html, options)
-    .withAutoDetection(url);
-  await processor.filter();
-  return processor.toString();
+  const processor = HtmlProcessor.from(html, options);
+  try {
+    await processor.withAutoDetection(url);
+    await processor.filter();
+    return processor.toString();
+  } finally {
+    processor.dispose();
+  }
 }
 
 /**
  * Extract content with automatic page type detection and return detailed result
- * @param html HTML content
+ * @param html HTML content, or a parsed Document or Element
  * @param url Optional URL for better detection accuracy
- * @param options Additional processing options
+ * @param options Additional processing options; frontMatter prepends a front-matter block
  * @returns Detailed extraction result with page type information
  */
 export async function extractContentAuto(
-  html: string, 
+  html: HtmlInput, 
   url?: string, 
-  options: Partial<ProcessorOptions> = {}
+  options: AutoConvertOptions = {}
 ): Promise<{
   markdown: MarkdownResult;
   pageType: import('./page-type-detector').PageTypeResult | null;
   cleanHtml: string;
 }> {
-  const processor = await HtmlProcessor.from(html, options)
-    .withAutoDetection(url);
-  await processor.filter();
-    
-  return {
-    markdown: await processor.toMarkdown(),
-    pageType: processor.getPageTypeResult(),
-    cleanHtml: processor.toString()
-  };
+  const processor = HtmlProcessor.from(html, withFrontMatter(options));
+  try {
+    await processor.withAutoDetection(url);
+    await processor.filter();
+
+    return {
+      markdown: await processor.toMarkdown(),
+      pageType: processor.getPageTypeResult(),
+      cleanHtml: processor.toString()
+    };
+  } finally {
+    processor.dispose();
+  }
 } 
\ No newline at end of file
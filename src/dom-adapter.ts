@@ -1,7 +1,10 @@
 /**
- * DOM Adapter - Provides unified DOM API for both browser and Node.js environments
+ * DOM Adapter - Provides unified DOM API for browser, Web Worker and Node.js environments
  */
 
+import { createLiteWindow } from './lite-dom';
+import type { DomBackend, DomImplementation, ResolvedDomBackend } from './types';
+
 export interface DOMParserInterface {
   parseFromString(str: string, type: DOMParserSupportedType): Document;
 }
@@ -31,6 +34,33 @@ export const NODE_TYPES = {
   COMMENT_NODE: 8
 };
 
+// NodeFilter constants, the same in every DOM backend
+export const NODE_FILTER = {
+  SHOW_COMMENT: 0x80
+};
+
+/**
+ * Loads a Node.js module at runtime, out of reach of bundler resolution
+ * @param moduleName Module name
+ * @returns Module exports
+ */
+export async function loadNodeModule(moduleName: string): Promise<any> {
+  try {
+    // Modern dynamic import approach
+    return await import(moduleName);
+  } catch (importError: any) {
+    try {
+      // Fallback for environments that might need require
+      // Use Function constructor to avoid bundler analysis
+      const requireFn = new Function('moduleName', 'return require(moduleName)');
+      return requireFn(moduleName);
+    } catch (requireError) {
+      const errorMessage = importError?.message || 'Unknown import error';
+      throw new Error(`Cannot load module ${moduleName}: ${errorMessage}`);
+    }
+  }
+}
+
 /**
  * Environment detection utility
  */
@@ -99,6 +129,16 @@ class BrowserAdapter {
   }
 }
 
+/**
+ * Lite DOM Adapter - pure-JS parser and DOM that works in any environment;
+ * the default where neither a native DOMParser nor jsdom is available
+ */
+class LiteAdapter {
+  static createWindow(): WindowInterface {
+    return createLiteWindow() as unknown as WindowInterface;
+  }
+}
+
 /**
  * Node.js DOM Adapter
  */
@@ -115,22 +155,20 @@ class NodeAdapter {
       throw new Error('Not in Node.js environment');
     }
 
-    // Try to load jsdom using dynamic import
     const jsdom = await this.loadJSDOM();
-    if (jsdom) {
-      const { JSDOM } = jsdom;
-      const dom = new JSDOM('<!DOCTYPE html><html><body></body></html>');
-      
-      return {
-        DOMParser: dom.window.DOMParser,
-        document: dom.window.document,
-        NodeFilter: dom.window.NodeFilter,
-        Node: dom.window.Node
-      };
+    if (!jsdom) {
+      throw new Error('The jsdom DOM backend requires jsdom: npm install jsdom');
     }
 
-    // Fallback to basic implementation
-    return this.createFallbackWindow();
+    const { JSDOM } = jsdom;
+    const dom = new JSDOM('<!DOCTYPE html><html><body></body></html>');
+
+    return {
+      DOMParser: dom.window.DOMParser,
+      document: dom.window.document,
+      NodeFilter: dom.window.NodeFilter,
+      Node: dom.window.Node
+    };
   }
 
   private static async loadJSDOM(): Promise<any> {
@@ -145,97 +183,16 @@ class NodeAdapter {
     try {
       // Use dynamic import instead of eval('require')
       // This works in both CommonJS and ESM environments
-      const jsdom = await this.dynamicImport('jsdom');
+      const jsdom = await loadNodeModule('jsdom');
       this.jsdomCache = jsdom;
       this.jsdomAvailable = true;
       return jsdom;
     } catch (error) {
-      console.warn('jsdom not found. Installing jsdom is recommended for better performance: npm install jsdom');
       this.jsdomAvailable = false;
       return null;
     }
   }
 
-  private static async dynamicImport(moduleName: string): Promise<any> {
-    try {
-      // Modern dynamic import approach
-      return await import(moduleName);
-    } catch (importError: any) {
-      try {
-        // Fallback for environments that might need require
-        // Use Function constructor to avoid bundler analysis
-        const requireFn = new Function('moduleName', 'return require(moduleName)');
-        return requireFn(moduleName);
-      } catch (requireError) {
-        const errorMessage = importError?.message || 'Unknown import error';
-        throw new Error(`Cannot load module ${moduleName}: ${errorMessage}`);
-      }
-    }
-  }
-
-  private static createFallbackWindow(): WindowInterface {
-    // Minimal fallback implementation using basic HTML parsing
-    const createBasicParser = () => {
-      return {
-        parseFromString: (str: string, type: DOMParserSupportedType): Document => {
-          // Very basic HTML parsing fallback
-          // This is a simplified implementation - jsdom is strongly recommended
-          const mockDoc = {
-            documentElement: {
-              outerHTML: str,
-              innerHTML: str,
-              textContent: str.replace(/<[^>]*>/g, ''),
-              querySelectorAll: () => [],
-              querySelector: () => null,
-              remove: () => {},
-              children: [],
-              childNodes: [],
-              parentNode: null,
-              ownerDocument: null
-            },
-            body: {
-              innerHTML: str,
-              textContent: str.replace(/<[^>]*>/g, ''),
-              querySelectorAll: () => [],
-              querySelector: () => null,
-              children: [],
-              childNodes: [],
-              getElementsByTagName: () => [],
-              remove: () => {}
-            },
-            createNodeIterator: () => ({
-              nextNode: () => null
-            }),
-            createElement: (tag: string) => ({
-              tagName: tag.toUpperCase(),
-              innerHTML: '',
-              textContent: '',
-              remove: () => {},
-              children: [],
-              childNodes: [],
-              parentNode: null
-            }),
-            getElementsByTagName: () => []
-          };
-          return mockDoc as any;
-        }
-      };
-    };
-
-    return {
-      DOMParser: createBasicParser as any,
-      document: {
-        createNodeIterator: () => ({ nextNode: () => null }) as any,
-        createElement: (tag: string) => ({ tagName: tag, remove: () => {} }) as any,
-        body: null
-      },
-      NodeFilter: {
-        SHOW_COMMENT: 128
-      },
-      Node: NODE_TYPES
-    };
-  }
-
   static async hasJSDOM(): Promise<boolean> {
     if (!this.isSupported()) return false;
     
@@ -249,13 +206,16 @@ class NodeAdapter {
 }
 
 /**
- * Main DOM Adapter with automatic environment detection
+ * Main DOM Adapter with automatic environment detection. Each backend's
+ * window is created on first use; 'auto' picks the native DOM in browsers,
+ * jsdom in Node.js when installed, and the lite DOM otherwise.
  */
 class DOMAdapter {
   private static instance: DOMAdapter;
-  private _window: WindowInterface | null = null;
   private _environment: string;
-  private _initialized: boolean = false;
+  private _defaultBackend: DomBackend = 'auto';
+  private _autoBackend: ResolvedDomBackend | null = null;
+  private _windows: Partial<Record<ResolvedDomBackend, Promise<WindowInterface>>> = {};
 
   private constructor() {
     this._environment = EnvironmentDetector.detectEnvironment();
@@ -280,57 +240,104 @@ class DOMAdapter {
     return this._environment === 'webworker';
   }
 
-  private async ensureInitialized(): Promise<void> {
-    if (this._initialized) return;
+  /**
+   * Set the backend used when a call does not name one (default: 'auto')
+   * @param backend DOM backend
+   */
+  public setDefaultBackend(backend: DomBackend): void {
+    this._defaultBackend = backend;
+  }
 
-    if (BrowserAdapter.isSupported()) {
-      this._window = BrowserAdapter.createWindow();
-    } else if (NodeAdapter.isSupported()) {
-      this._window = await NodeAdapter.createWindow();
-    } else {
-      throw new Error(`Unsupported environment: ${this._environment}`);
+  /**
+   * Resolve a backend choice to the backend that will parse
+   * @param backend Requested backend (default: the default backend)
+   * @returns Concrete backend
+   */
+  public async resolveBackend(backend: DomBackend = this._defaultBackend): Promise<ResolvedDomBackend> {
+    if (backend !== 'auto') {
+      return backend;
     }
 
-    this._initialized = true;
+    if (!this._autoBackend) {
+      if (BrowserAdapter.isSupported()) {
+        this._autoBackend = 'native';
+      } else if (NodeAdapter.isSupported() && await NodeAdapter.hasJSDOM()) {
+        this._autoBackend = 'jsdom';
+      } else {
+        if (NodeAdapter.isSupported()) {
+          console.warn('jsdom not found, using the built-in lite DOM parser. Install jsdom for full DOM support: npm install jsdom');
+        }
+        this._autoBackend = 'lite';
+      }
+    }
+    return this._autoBackend;
   }
 
-  public async getDOMParser(): Promise<DOMParserInterface> {
-    await this.ensureInitialized();
-    if (!this._window) {
-      throw new Error('DOM environment not properly initialized');
+  private async getWindow(backend?: DomBackend): Promise<WindowInterface> {
+    const resolved = await this.resolveBackend(backend);
+
+    // Concurrent first calls share one window instead of each creating one
+    let pending = this._windows[resolved];
+    if (!pending) {
+      pending = this.createWindow(resolved);
+      this._windows[resolved] = pending;
+      pending.catch(() => {
+        // Allow a later call to retry
+        delete this._windows[resolved];
+      });
     }
-    return new this._window.DOMParser();
+    return await pending;
   }
 
-  public async getDocument(): Promise<DocumentInterface> {
-    await this.ensureInitialized();
-    if (!this._window) {
-      throw new Error('DOM environment not properly initialized');
+  private async createWindow(backend: ResolvedDomBackend): Promise<WindowInterface> {
+    switch (backend) {
+      case 'native':
+        return BrowserAdapter.createWindow();
+      case 'jsdom':
+        return await NodeAdapter.createWindow();
+      case 'lite':
+        return LiteAdapter.createWindow();
+      default:
+        throw new Error(`Unknown DOM backend: ${backend}`);
     }
-    return this._window.document;
   }
 
-  public async getNodeFilter() {
-    await this.ensureInitialized();
-    if (!this._window) {
-      throw new Error('DOM environment not properly initialized');
-    }
-    return this._window.NodeFilter;
+  /**
+   * Create the DOM environment ahead of the first parse (loads jsdom in Node.js)
+   * @param backend DOM backend or injected implementation (default: the default backend)
+   */
+  public async warmUp(backend?: DomBackend | DomImplementation): Promise<void> {
+    if (isDomImplementation(backend)) return;
+    await this.getWindow(backend);
   }
 
-  public async getNode() {
-    await this.ensureInitialized();
-    if (!this._window) {
-      throw new Error('DOM environment not properly initialized');
+  public async getDOMParser(backend?: DomBackend | DomImplementation): Promise<DOMParserInterface> {
+    if (isDomImplementation(backend)) {
+      return 'parseFromString' in backend ? backend : new backend.DOMParser();
     }
-    return this._window.Node || NODE_TYPES;
+    const domWindow = await this.getWindow(backend);
+    return new domWindow.DOMParser();
+  }
+
+  public async getDocument(backend?: DomBackend): Promise<DocumentInterface> {
+    return (await this.getWindow(backend)).document;
+  }
+
+  public async getNodeFilter(backend?: DomBackend) {
+    return (await this.getWindow(backend)).NodeFilter;
+  }
+
+  public async getNode(backend?: DomBackend) {
+    return (await this.getWindow(backend)).Node || NODE_TYPES;
   }
 
   /**
    * Parse HTML string to Document
+   * @param html HTML string
+   * @param backend DOM backend or injected implementation (default: the default backend)
    */
-  public async parseHTML(html: string): Promise<Document> {
-    const parser = await this.getDOMParser();
+  public async parseHTML(html: string, backend?: DomBackend | DomImplementation): Promise<Document> {
+    const parser = await this.getDOMParser(backend);
     return parser.parseFromString(html, 'text/html');
   }
 
@@ -343,7 +350,7 @@ class DOMAdapter {
   }
 
   /**
-   * Get environment information
+   * Get environment information, including the backend used by default
    */
   public async getEnvironmentInfo() {
     return {
@@ -352,19 +359,59 @@ class DOMAdapter {
       isBrowser: this.isBrowser,
       isWebWorker: this.isWebWorker,
       hasJSDOM: await this.hasJSDOM(),
-      hasNativeDOM: this.isBrowser && EnvironmentDetector.detectDocument()
+      hasNativeDOM: this.isBrowser && EnvironmentDetector.detectDocument(),
+      backend: await this.resolveBackend()
     };
   }
 }
 
+function isDomImplementation(backend: DomBackend | DomImplementation | undefined): backend is DomImplementation {
+  return typeof backend === 'object' && backend !== null;
+}
+
+/**
+ * Get a document holding a node passed in as processor input, without
+ * serializing it. A Document is returned as is; an Element is copied into a
+ * new document of the same implementation (its children when it is a body).
+ * @param node Document or Element
+ * @returns Document holding the node
+ */
+export function documentFromNode(node: Document | Element): Document {
+  if (node.nodeType === 9) {
+    return node as Document;
+  }
+
+  const element = node as Element;
+  const owner = element.ownerDocument;
+  if (element === owner.documentElement) {
+    return owner;
+  }
+
+  const doc = owner.implementation.createHTMLDocument('');
+  const nodes = element.localName === 'body' ? Array.from(element.childNodes) : [element];
+  for (const child of nodes) {
+    doc.body.appendChild(doc.importNode(child, true));
+  }
+  return doc;
+}
+
+/**
+ * Copy a document so that filtering or conversion can modify it
+ * @param doc Document to copy
+ * @returns Deep copy
+ */
+export function cloneDocument(doc: Document): Document {
+  return doc.cloneNode(true) as Document;
+}
+
 // Export singleton instance
 export const domAdapter = DOMAdapter.getInstance();
 
 // Export convenience functions - now async due to dynamic loading
-export const parseHTML = async (html: string) => await domAdapter.parseHTML(html);
-export const getDOMParser = async () => await domAdapter.getDOMParser();
-export const getDocument = async () => await domAdapter.getDocument();
-export const getNodeFilter = async () => await domAdapter.getNodeFilter();
-export const getNode = async () => await domAdapter.getNode();
+export const parseHTML = async (html: string, backend?: DomBackend | DomImplementation) => await domAdapter.parseHTML(html, backend);
+export const getDOMParser = async (backend?: DomBackend | DomImplementation) => await domAdapter.getDOMParser(backend);
+export const getDocument = async (backend?: DomBackend) => await domAdapter.getDocument(backend);
+export const getNodeFilter = async (backend?: DomBackend) => await domAdapter.getNodeFilter(backend);
+export const getNode = async (backend?: DomBackend) => await domAdapter.getNode(backend);
 export const isNode = () => domAdapter.isNode;
-export const isBrowser = () => domAdapter.isBrowser; 
\ No newline at end of file
+export const isBrowser = () => domAdapter.isBrowser;
@@ -0,0 +1,153 @@
+/**
+ * Filter Report - Renders an explain-mode filter trace as an annotated HTML page
+ */
+
+import { parseHTML } from './dom-adapter';
+import { FilterTrace, FilterTraceEntry } from './types';
+
+const REPORT_STYLES = `
+body { font-family: system-ui, sans-serif; margin: 0; }
+.filter-report-summary { padding: 16px 24px; background: #f6f8fa; border-bottom: 1px solid #d0d7de; }
+.filter-report-summary table { border-collapse: collapse; font-size: 13px; }
+.filter-report-summary th, .filter-report-summary td { border: 1px solid #d0d7de; padding: 4px 8px; text-align: left; vertical-align: top; }
+.filter-report-page { padding: 16px 24px; }
+[data-filter-decision="removed"] { outline: 2px solid #cf222e; background: rgba(207, 34, 46, 0.08); opacity: 0.65; }
+[data-filter-decision="kept"] { outline: 1px dashed #1a7f37; }
+`;
+
+/**
+ * Content Security Policy of the report: only its own inline styles and inline images load
+ */
+const REPORT_CSP = "default-src 'none'; style-src 'unsafe-inline'; img-src data:; form-action 'none'; base-uri 'none'";
+
+/**
+ * Elements that run, load or redirect to other content, removed from the report
+ */
+const ACTIVE_ELEMENTS = 'script, noscript, iframe, frame, frameset, object, embed, applet, base, meta, link, style, portal';
+
+/**
+ * Attributes that load remote resources when the report is opened
+ */
+const LOADING_ATTRIBUTES = ['src', 'srcset', 'poster', 'background', 'lowsrc', 'dynsrc', 'ping', 'data', 'codebase', 'manifest'];
+
+/**
+ * Attributes that navigate or submit when clicked
+ */
+const LINK_ATTRIBUTES = ['href', 'xlink:href', 'action', 'formaction'];
+
+/**
+ * Remove the page's active content, so that opening the report runs no page
+ * script and loads nothing: scripts, frames, plugins, meta refreshes,
+ * stylesheets, event handler attributes, script URLs and remote images
+ */
+function neutralizePage(root: Element): void {
+  Array.from(root.querySelectorAll(ACTIVE_ELEMENTS)).forEach(element => {
+    element.parentNode?.removeChild(element);
+  });
+
+  Array.from(root.querySelectorAll('*')).forEach(element => {
+    Array.from(element.attributes).forEach(({ name, value }) => {
+      const attribute = name.toLowerCase();
+      // Browsers ignore whitespace and control characters inside a URL scheme
+      const url = value.replace(/[\u0000-\u0020]/g, '').toLowerCase();
+      const inlineImage = /^data:image\/(png|gif|jpe?g|webp)[;,]/.test(url);
+      if (
+        attribute.startsWith('on') ||
+        (LOADING_ATTRIBUTES.includes(attribute) && !inlineImage) ||
+        (LINK_ATTRIBUTES.includes(attribute) && /^(javascript|vbscript|data):/.test(url) && !inlineImage) ||
+        (attribute === 'style' && /url\s*\(|expression\s*\(/i.test(value))
+      ) {
+        element.removeAttribute(name);
+      }
+    });
+  });
+}
+
+/**
+ * Renders a filter trace as a standalone HTML page: the filtered input with
+ * every traced element outlined (red for removed, green for kept) and its rule
+ * in a tooltip, preceded by a table of all removals. The page's scripts, event
+ * handlers, script URLs, stylesheets, frames and remote images are left out,
+ * and a restrictive Content Security Policy blocks anything else from loading.
+ * @param trace Trace from FilterResult.trace (requires filter option explain: true)
+ * @returns Complete HTML document
+ */
+export async function renderFilterReport(trace: FilterTrace): Promise<string> {
+  const doc = await parseHTML(trace.input);
+  const elements = Array.from(doc.body.querySelectorAll('*'));
+
+  // A later decision for the same element overrides an earlier one
+  const finalEntries = new Map<number, FilterTraceEntry>();
+  trace.entries.forEach(entry => {
+    if (entry.index >= 0) {
+      finalEntries.set(entry.index, entry);
+    }
+  });
+
+  finalEntries.forEach((entry, index) => {
+    const element = elements[index];
+    if (!element) return;
+    element.setAttribute('data-filter-decision', entry.decision);
+    element.setAttribute('data-filter-stage', entry.stage);
+    element.setAttribute('title', `${entry.decision} (${entry.stage}): ${entry.rule}`);
+  });
+
+  // The report must not run or load the page's active content
+  neutralizePage(doc.body);
+
+  const removed = Array.from(finalEntries.values()).filter(entry => entry.decision === 'removed');
+  const kept = finalEntries.size - removed.length;
+
+  const report = doc.createElement('html');
+  const head = doc.createElement('head');
+  const charset = doc.createElement('meta');
+  charset.setAttribute('charset', 'utf-8');
+  const csp = doc.createElement('meta');
+  csp.setAttribute('http-equiv', 'Content-Security-Policy');
+  csp.setAttribute('content', REPORT_CSP);
+  const title = doc.createElement('title');
+  title.textContent = 'Filter report';
+  const style = doc.createElement('style');
+  style.textContent = REPORT_STYLES;
+  head.append(charset, csp, title, style);
+
+  const body = doc.createElement('body');
+  const summary = doc.createElement('section');
+  summary.className = 'filter-report-summary';
+  const heading = doc.createElement('h1');
+  heading.textContent = 'Filter report';
+  const counts = doc.createElement('p');
+  counts.textContent = `${removed.length} element(s) removed, ${kept} kept by an explicit decision.`;
+  summary.append(heading, counts);
+
+  if (removed.length > 0) {
+    const table = doc.createElement('table');
+    const headerRow = doc.createElement('tr');
+    ['Element', 'Stage', 'Rule'].forEach(label => {
+      const th = doc.createElement('th');
+      th.textContent = label;
+      headerRow.appendChild(th);
+    });
+    table.appendChild(headerRow);
+    removed.forEach(entry => {
+      const row = doc.createElement('tr');
+      [entry.path, entry.stage, entry.rule].forEach(value => {
+        const td = doc.createElement('td');
+        td.textContent = value;
+        row.appendChild(td);
+      });
+      table.appendChild(row);
+    });
+    summary.appendChild(table);
+  }
+
+  const page = doc.createElement('div');
+  page.className = 'filter-report-page';
+  while (doc.body.firstChild) {
+    page.appendChild(doc.body.firstChild);
+  }
+
+  body.append(summary, page);
+  report.append(head, body);
+  return `<!DOCTYPE html>\n${report.outerHTML}`;
+}
@@ -0,0 +1,79 @@
+/**
+ * Front Matter - Serializes document fields into YAML or TOML front-matter blocks
+ */
+
+import { FrontMatterFormat, FrontMatterValue } from './types';
+
+const BARE_KEY = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Renders a front-matter block including its delimiters
+ * @param fields Fields to serialize; undefined and null values are skipped
+ * @param format Output format
+ * @returns Front-matter block followed by a blank line
+ */
+export function renderFrontMatter(
+  fields: Record<string, FrontMatterValue | undefined>,
+  format: FrontMatterFormat = 'yaml'
+): string {
+  const delimiter = format === 'toml' ? '+++' : '---';
+  const lines = Object.entries(fields)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => format === 'toml'
+      ? `${formatKey(key)} = ${toTomlValue(value as FrontMatterValue)}`
+      : `${formatKey(key)}: ${toYamlValue(value as FrontMatterValue)}`);
+
+  return [delimiter, ...lines, delimiter, '', ''].join('\n');
+}
+
+function formatKey(key: string): string {
+  return BARE_KEY.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * YAML flow syntax is a superset of JSON, so JSON-quoted strings and
+ * inline collections are valid scalars
+ */
+function toYamlValue(value: FrontMatterValue): string {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => toYamlValue(item)).join(', ')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined && item !== null)
+      .map(([key, item]) => `${formatKey(key)}: ${toYamlValue(item as FrontMatterValue)}`);
+    return `{ ${entries.join(', ')} }`;
+  }
+  if (typeof value === 'number' && !isFinite(value)) {
+    return isNaN(value) ? '.nan' : value > 0 ? '.inf' : '-.inf';
+  }
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * TOML has no null, so null array items are dropped like null fields
+ */
+function toTomlValue(value: FrontMatterValue): string {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    const items = value
+      .filter(item => item !== undefined && item !== null)
+      .map(item => toTomlValue(item));
+    return `[${items.join(', ')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined && item !== null)
+      .map(([key, item]) => `${formatKey(key)} = ${toTomlValue(item as FrontMatterValue)}`);
+    return `{ ${entries.join(', ')} }`;
+  }
+  if (typeof value === 'number' && !isFinite(value)) {
+    return isNaN(value) ? 'nan' : value > 0 ? 'inf' : '-inf';
+  }
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
@@ -3,7 +3,18 @@
  * Based on the Python version of PruningContentFilter
  */
 
-import { parseHTML, getDocument, getNodeFilter } from './dom-adapter';
+import { parseHTML, NODE_FILTER } from './dom-adapter';
+import { NoiseMatcher, noiseMatcher, tokenizeName } from './noise-matcher';
+import {
+  FilterStrategy,
+  ContentSelection,
+  FilterMetric,
+  FilterOptions,
+  FilterTrace,
+  FilterTraceEntry,
+  FilterTraceMetrics,
+  FilterTraceStage
+} from './types';
 
 interface FilterMetrics {
   node: HTMLElement;
@@ -17,31 +28,112 @@ interface TagWeights {
   [key: string]: number;
 }
 
+/**
+ * Accumulated score of a readability candidate container
+ */
+interface CandidateScore {
+  score: number;
+  paragraphs: number;
+  textLength: number;
+}
+
+/**
+ * Elements whose text is scored and propagated to their ancestors (readability strategy)
+ */
+const READABILITY_SCORED_TAGS = new Set(['p', 'pre', 'td', 'section', 'h2', 'h3', 'h4', 'h5', 'h6']);
+
+/**
+ * Block elements that stop a <div> from being scored as a paragraph
+ */
+const READABILITY_BLOCK_CHILDREN = 'address, article, aside, blockquote, dl, div, fieldset, figure, footer, form, h1, h2, h3, h4, h5, h6, header, hr, main, nav, ol, p, pre, section, table, ul';
+
+/**
+ * Starting score of a candidate by tag, before paragraph scores are added
+ */
+const READABILITY_TAG_SCORES: TagWeights = {
+  div: 5, article: 5, main: 5,
+  pre: 3, td: 3, blockquote: 3,
+  address: -3, ol: -3, ul: -3, dl: -3, dd: -3, dt: -3, li: -3, form: -3,
+  h1: -5, h2: -5, h3: -5, h4: -5, h5: -5, h6: -5, th: -5
+};
+
+/**
+ * Compiles a class/id pattern option so it only matches whole tokens of a name
+ * (see matchesName); strings are matched case-insensitively
+ * @param pattern Pattern option
+ * @returns Non-global RegExp, or null if the option is unset
+ */
+function toPattern(pattern: RegExp | string | undefined): RegExp | null {
+  if (pattern === undefined || pattern === '') {
+    return null;
+  }
+  const source = typeof pattern === 'string' ? pattern : pattern.source;
+  const flags = typeof pattern === 'string' ? 'i' : pattern.flags.replace(/[gy]/g, '');
+  // An alternative must cover whole tokens, optionally followed by a plural 's'
+  return new RegExp(`(?:^|-)(?:${source})s?(?=-|$)`, flags);
+}
+
+/**
+ * Tests each class name and the id against a compiled pattern. Names are split
+ * with tokenizeName and re-joined with '-', so 'nav' matches '.main-nav' and
+ * '#navLinks' but not '.canvas', and 'ad' does not match '.header' or '.download'.
+ * @param pattern Pattern compiled by toPattern
+ * @param value Class attribute or id
+ * @returns True if any name matches
+ */
+function matchesName(pattern: RegExp, value: string): boolean {
+  return value.split(/\s+/).some(name => name.length > 0 && pattern.test(tokenizeName(name).join('-')));
+}
+
+/**
+ * Blocks dropped by the minWords option when too short; <div>/<section> only
+ * count when they hold no block children
+ */
+const MIN_WORDS_BLOCK_TAGS = new Set(['p', 'blockquote', 'dd', 'div', 'section']);
+
+/**
+ * Content that keeps a short block, since its words are not in its text
+ */
+const MIN_WORDS_EXEMPT_CONTENT = 'img, picture, video, audio, iframe, pre, table, figure, svg, math';
+
 export class HtmlFilter {
   private includedTags: Set<string>;
   private excludedTags: Set<string>;
   private headerTags: Set<string>;
   private negativePattern: RegExp;
+  private positivePattern: RegExp;
+  private scoringBoostPattern: RegExp | null;
   private minWordCount: number;
   private threshold: number;
-  private thresholdType: 'fixed' | 'dynamic';
+  private thresholdType: FilterStrategy;
+  private lastSelection: ContentSelection | null = null;
   private tagImportance: TagWeights;
-  private metricConfig: {
-    textDensity: boolean;
-    linkDensity: boolean;
-    tagWeight: boolean;
-    classIdWeight: boolean;
-    textLength: boolean;
-  };
-  private metricWeights: {
-    textDensity: number;
-    linkDensity: number;
-    tagWeight: number;
-    classIdWeight: number;
-    textLength: number;
-  };
-
-  constructor(minWordThreshold?: number, thresholdType: 'fixed' | 'dynamic' = 'dynamic', threshold: number = 0.48) {
+  private metricConfig: Record<FilterMetric, boolean>;
+  private metricWeights: Record<FilterMetric, number>;
+  private removeSelectors: string[];
+  private keepSelectors: string[];
+  private minBlockWords: number;
+  private preserveStructure: boolean;
+  private keptElements: Set<Element> = new Set();
+  private keptAncestors: Set<Element> = new Set();
+  private explain: boolean;
+  private noiseMatcher: NoiseMatcher;
+  private traceIndex: Map<Element, number> = new Map();
+  private traceEntries: FilterTraceEntry[] = [];
+  private lastTrace: FilterTrace | null = null;
+
+  /**
+   * @param minWordThreshold Minimum words a node needs to be kept
+   * @param thresholdType Filtering strategy
+   * @param threshold Score threshold for the 'fixed' strategy
+   * @param options Scoring overrides, removal/keep selectors, minWords and preserveStructure
+   */
+  constructor(
+    minWordThreshold?: number,
+    thresholdType: FilterStrategy = 'dynamic',
+    threshold: number = 0.48,
+    options: FilterOptions = {}
+  ) {
     this.includedTags = new Set([
       'p', 'div', 'article', 'section', 'main', 'content', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
       'blockquote', 'pre', 'code', 'ul', 'ol', 'li', 'table', 'thead', 'tbody', 'tr', 'td', 'th',
@@ -51,19 +143,36 @@ export class HtmlFilter {
       'br', 'hr', 'wbr'
     ]);
 
-    this.excludedTags = new Set([
-      'nav', 'header', 'footer', 'aside', 'menu', 'menuitem',
-      'script', 'style', 'meta', 'link', 'title', 'head',
-      'noscript', 'template', 'slot',
-      'form', 'input', 'textarea', 'button', 'select', 'option', 'optgroup', 'label', 'fieldset', 'legend',
-      'canvas', 'svg', 'math'
-    ]);
+    this.excludedTags = new Set(options.excludedTags
+      ? options.excludedTags.map(tag => tag.toLowerCase())
+      : [
+        'nav', 'header', 'footer', 'aside', 'menu', 'menuitem',
+        'script', 'style', 'meta', 'link', 'title', 'head',
+        'noscript', 'template', 'slot',
+        'form', 'input', 'textarea', 'button', 'select', 'option', 'optgroup', 'label', 'fieldset', 'legend',
+        'canvas', 'svg', 'math'
+      ]);
 
     this.headerTags = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
 
-    this.negativePattern = /comment|meta|footer|footnote|sidebar|nav|advertisement|banner|social|share|related|recommended|trending|popular|ads?|popup|modal|overlay|cookie|consent|notification|breadcrumb|pagination|search-suggest|autocomplete/i;
+    this.negativePattern = toPattern(options.negativePattern) ||
+      toPattern(/comment|meta|footer|footnote|sidebar|nav|navbar|navigation|advertisement|banner|social|share|sharing|related|recommended|trending|popular|ad|popup|modal|overlay|cookie|consent|notification|breadcrumb|pagination|search-suggest|autocomplete/i)!;
+
+    this.positivePattern = toPattern(options.positivePattern) ||
+      toPattern(/article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story/i)!;
+
+    // The broad default pattern only guides readability; scores are boosted by a configured pattern alone
+    this.scoringBoostPattern = toPattern(options.positivePattern);
 
     this.minWordCount = minWordThreshold || 2;
+    this.removeSelectors = options.removeElements || [];
+    this.keepSelectors = options.keepElements || [];
+    this.minBlockWords = options.minWords || 0;
+    this.preserveStructure = options.preserveStructure || false;
+    this.explain = options.explain || false;
+    this.noiseMatcher = options.noiseTokens || options.noiseAllowlist
+      ? new NoiseMatcher(options.noiseTokens, options.noiseAllowlist)
+      : noiseMatcher;
     this.threshold = threshold;
     this.thresholdType = thresholdType;
 
@@ -80,7 +189,8 @@ export class HtmlFilter {
       'figure': 1.0, 'figcaption': 0.9,
       'code': 0.9, 'pre': 0.9,
       'strong': 0.95, 'em': 0.95, 'b': 0.9, 'i': 0.9,
-      'a': 0.8, 'span': 0.6
+      'a': 0.8, 'span': 0.6,
+      ...options.tagImportance
     };
 
     this.metricConfig = {
@@ -88,7 +198,8 @@ export class HtmlFilter {
       linkDensity: true,
       tagWeight: true,
       classIdWeight: true,
-      textLength: true
+      textLength: true,
+      ...options.metricConfig
     };
 
     this.metricWeights = {
@@ -96,7 +207,8 @@ export class HtmlFilter {
       linkDensity: 0.15,
       tagWeight: 0.25,
       classIdWeight: 0.15,
-      textLength: 0.1
+      textLength: 0.1,
+      ...options.metricWeights
     };
   }
 
@@ -117,20 +229,53 @@ export class HtmlFilter {
       doc = await parseHTML(`<body>${html}</body>`);
     }
 
+    const blocks = await this.filterDocument(doc);
+    return blocks.map(element => element.outerHTML);
+  }
+
+  /**
+   * Filters a parsed document in place, so the same DOM can be handed on to
+   * Markdown conversion without serializing and re-parsing it.
+   * @param doc DOM document with a body
+   * @returns Content blocks left in the document
+   */
+  public async filterDocument(doc: Document): Promise<HTMLElement[]> {
+    const input = this.explain ? doc.documentElement.outerHTML : '';
+
     await this.removeComments(doc);
+    this.startTrace(doc.body);
+    this.removeMatchingElements(doc);
+    this.markKeptElements(doc);
     this.removeUnwantedTags(doc);
 
     const body = doc.body;
-    this.pruneTree(body);
-
-    const contentBlocks: string[] = [];
-    Array.from(body.children).forEach(element => {
-      if (element.textContent && element.textContent.trim().length > 0) {
-        contentBlocks.push(element.outerHTML);
+    const hasText = (element: Element) => !!element.textContent && element.textContent.trim().length > 0;
+
+    let content: HTMLElement[];
+    if (this.thresholdType === 'readability') {
+      const selected = this.selectMainContent(body);
+      selected.forEach(element => this.removeShortBlocks(element));
+      content = selected.filter(hasText);
+    } else {
+      this.lastSelection = null;
+      this.pruneTree(body);
+      if (!body.parentNode) {
+        // A low-scoring body is detached like any other node; its retained children are the result
+        doc.documentElement.appendChild(body);
       }
-    });
+      this.removeShortBlocks(body);
+      content = (Array.from(body.children) as HTMLElement[]).filter(hasText);
+    }
+    this.finishTrace(input);
 
-    return contentBlocks;
+    // Leave exactly the returned blocks in the body, so it serializes like the block list
+    while (body.firstChild) {
+      body.removeChild(body.firstChild);
+    }
+    content.forEach(element => body.appendChild(element));
+    // Merge text nodes left adjacent by removals, as a re-parse of the HTML would
+    body.normalize();
+    return content;
   }
 
   /**
@@ -143,17 +288,78 @@ export class HtmlFilter {
     return blocks.join('');
   }
 
+  /**
+   * Gets the main content selection made by the last readability-strategy run.
+   * @returns Selection report, or null if the last run used a threshold strategy
+   */
+  public getLastSelection(): ContentSelection | null {
+    return this.lastSelection;
+  }
+
+  /**
+   * Gets the keep/remove decisions recorded by the last run in explain mode.
+   * @returns Trace, or null if explain mode is off
+   */
+  public getLastTrace(): FilterTrace | null {
+    return this.lastTrace;
+  }
+
+  /**
+   * Numbers the body's elements in document order so trace entries can be
+   * mapped back onto the input HTML.
+   * @param body Document body
+   */
+  private startTrace(body: HTMLElement): void {
+    this.traceEntries = [];
+    this.traceIndex = new Map();
+    if (this.explain) {
+      Array.from(body.querySelectorAll('*')).forEach((element, index) => this.traceIndex.set(element, index));
+    }
+  }
+
+  private finishTrace(input: string): void {
+    this.lastTrace = this.explain ? { input, entries: this.traceEntries } : null;
+  }
+
+  /**
+   * Records a keep/remove decision in explain mode; call before removing the element
+   * @param element Element the decision applies to
+   * @param decision Outcome
+   * @param stage Filter step that decided
+   * @param rule Human-readable rule
+   * @param metrics Metric values for score decisions
+   */
+  private record(
+    element: Element,
+    decision: 'kept' | 'removed',
+    stage: FilterTraceStage,
+    rule: string,
+    metrics?: FilterTraceMetrics
+  ): void {
+    const index = this.traceIndex.get(element);
+    // Only elements inside the body are traced
+    if (!this.explain || index === undefined) {
+      return;
+    }
+    this.traceEntries.push({
+      index,
+      path: this.describePath(element as HTMLElement),
+      decision,
+      stage,
+      rule,
+      ...(metrics ? { metrics } : {})
+    });
+  }
+
   /**
    * Removes HTML comments from the document.
    * @param doc DOM document
    */
   private async removeComments(doc: Document): Promise<void> {
-    const nodeFilter = await getNodeFilter();
-    const document = await getDocument();
-    
-    const nodeIterator = document.createNodeIterator(
+    // Iterate with the document's own implementation, whichever backend parsed it
+    const nodeIterator = doc.createNodeIterator(
       doc,
-      nodeFilter.SHOW_COMMENT,
+      NODE_FILTER.SHOW_COMMENT,
       null 
     );
     
@@ -173,6 +379,49 @@ export class HtmlFilter {
     });
   }
 
+  /**
+   * Removes elements matching the removeElements selectors.
+   * @param doc DOM document
+   */
+  private removeMatchingElements(doc: Document): void {
+    this.removeSelectors.forEach(selector => {
+      try {
+        Array.from(doc.querySelectorAll(selector)).forEach(element => {
+          this.record(element, 'removed', 'removeElements', `matches removeElements selector "${selector}"`);
+          element.parentNode?.removeChild(element);
+        });
+      } catch (error) {
+        console.warn(`[HtmlFilter] Ignoring invalid removeElements selector "${selector}"`);
+      }
+    });
+  }
+
+  /**
+   * Records elements matching the keepElements selectors, and their ancestors,
+   * so that noise removal and pruning leave them in place.
+   * @param doc DOM document
+   */
+  private markKeptElements(doc: Document): void {
+    this.keptElements = new Set();
+    this.keptAncestors = new Set();
+
+    this.keepSelectors.forEach(selector => {
+      try {
+        Array.from(doc.querySelectorAll(selector)).forEach(element => {
+          this.keptElements.add(element);
+          this.record(element, 'kept', 'keepElements', `matches keepElements selector "${selector}"`);
+          let ancestor = element.parentElement;
+          while (ancestor && !this.keptAncestors.has(ancestor)) {
+            this.keptAncestors.add(ancestor);
+            ancestor = ancestor.parentElement;
+          }
+        });
+      } catch (error) {
+        console.warn(`[HtmlFilter] Ignoring invalid keepElements selector "${selector}"`);
+      }
+    });
+  }
+
   /**
    * Removes unwanted tags from the document.
    * @param doc DOM document
@@ -183,53 +432,51 @@ export class HtmlFilter {
       const elements = doc.getElementsByTagName(tag);
       // Convert to array as the collection changes during iteration
       Array.from(elements).forEach(element => {
-        element.parentNode?.removeChild(element);
+        if (!this.keptElements.has(element)) {
+          this.record(element, 'removed', 'excludedTags', `excluded tag <${tag}>`);
+          element.parentNode?.removeChild(element);
+        }
       });
     });
 
-    // Remove elements with noise-indicating attributes
-    const noiseSelectors = [
-      // Hidden elements
+    // Remove hidden elements
+    const hiddenSelectors = [
       '[style*="display:none"]',
       '[style*="visibility:hidden"]',
-      '[hidden]',
-      
-      // Ad-related
-      '[class*="ad"]', '[id*="ad"]',
-      '[class*="advertisement"]', '[id*="advertisement"]',
-      '[class*="banner"]', '[id*="banner"]',
-      
-      // Search engine specific noise
-      '[class*="suggest"]', '[id*="suggest"]',
-      '[class*="autocomplete"]', '[id*="autocomplete"]',
-      '[class*="dropdown"]', '[id*="dropdown"]',
-      '[class*="popup"]', '[id*="popup"]',
-      '[class*="modal"]', '[id*="modal"]',
-      '[class*="overlay"]', '[id*="overlay"]',
-      
-      // Navigation and UI noise
-      '[class*="breadcrumb"]', '[id*="breadcrumb"]',
-      '[class*="pagination"]', '[id*="pagination"]',
-      '[class*="toolbar"]', '[id*="toolbar"]',
-      '[class*="sidebar"]', '[id*="sidebar"]',
-      
-      // Cookie and notification banners
-      '[class*="cookie"]', '[id*="cookie"]',
-      '[class*="consent"]', '[id*="consent"]',
-      '[class*="notification"]', '[id*="notification"]'
+      '[hidden]'
     ];
 
-    noiseSelectors.forEach(selector => {
-      try {
-        const elements = doc.querySelectorAll(selector);
-        Array.from(elements).forEach(element => {
-          // Only remove if it's not a main content container
-          if (!this.isMainContentContainer(element)) {
-            element.parentNode?.removeChild(element);
-          }
-        });
-      } catch (error) {
-        // Selector might not be supported, continue
+    hiddenSelectors.forEach(selector => {
+      Array.from(doc.querySelectorAll(selector)).forEach(element => {
+        if (this.keptElements.has(element)) {
+          return;
+        }
+        this.record(element, 'removed', 'noiseSelector', `matches hidden selector ${selector}`);
+        element.parentNode?.removeChild(element);
+      });
+    });
+
+    // Remove elements whose class names or id contain a noise token
+    const body = doc.body;
+    if (!body) {
+      return;
+    }
+    Array.from(body.querySelectorAll('[class], [id]')).forEach(element => {
+      // Skip elements already removed with an ancestor, and those kept by keepElements
+      if (!body.contains(element) || this.keptElements.has(element)) {
+        return;
+      }
+      const match = this.noiseMatcher.matchElement(element);
+      if (!match) {
+        return;
+      }
+      const rule = `class/id "${match.name}" contains noise token "${match.token}"`;
+      // Only remove if it's not a main content container
+      if (this.isMainContentContainer(element)) {
+        this.record(element, 'kept', 'noiseSelector', `${rule} but looks like a main content container`);
+      } else {
+        this.record(element, 'removed', 'noiseSelector', rule);
+        element.parentNode?.removeChild(element);
       }
     });
   }
@@ -278,9 +525,11 @@ export class HtmlFilter {
       linkTextLen: linkTextLen
     };
 
-    const score = this.computeCompositeScore(metrics, textLen, tagLen, linkTextLen);
+    const breakdown = this.explain ? {} as FilterTraceMetrics : undefined;
+    const score = this.computeCompositeScore(metrics, textLen, tagLen, linkTextLen, breakdown);
 
     let shouldRemove = false;
+    let threshold = this.threshold;
     if (this.thresholdType === 'fixed') {
       shouldRemove = score < this.threshold;
     } else { // dynamic
@@ -297,12 +546,33 @@ export class HtmlFilter {
       }
       // Consider additional adjustments for linkRatio if it's relevant
       shouldRemove = score < currentThreshold;
+      threshold = currentThreshold;
+    }
+    if (breakdown) {
+      breakdown.threshold = threshold;
     }
+    const comparison = `score ${score.toFixed(3)} ${score < threshold ? '<' : '>='} threshold ${threshold.toFixed(3)}`;
 
-    if (shouldRemove && node.parentNode && node.parentNode !== node.ownerDocument) {
+    if (this.keptElements.has(node)) {
+      if (shouldRemove) {
+        this.record(node, 'kept', 'keepElements', `${comparison}, protected by keepElements`, breakdown);
+      }
+      shouldRemove = false;
+    }
+
+    // Wrappers of kept or (with preserveStructure) retained content survive a low score
+    const keepAsWrapper = shouldRemove && node.children.length > 0 && (this.preserveStructure || this.keptAncestors.has(node));
+
+    if (shouldRemove && !keepAsWrapper && node.parentNode && node.parentNode !== node.ownerDocument) {
+      this.record(node, 'removed', 'score', comparison, breakdown);
       node.parentNode.removeChild(node);
       return; 
     }
+    if (!shouldRemove && !this.keptElements.has(node)) {
+      this.record(node, 'kept', 'score', comparison, breakdown);
+    } else if (keepAsWrapper) {
+      this.record(node, 'kept', 'score', `${comparison}, kept as wrapper of retained content`, breakdown);
+    }
 
     // Recursively prune children
     // Convert HTMLCollection to array for safe iteration while modifying the DOM
@@ -311,17 +581,277 @@ export class HtmlFilter {
       this.pruneTree(children[i]);
     }
 
+    if (keepAsWrapper && !this.hasRetainedChildren(node) && node.parentNode && node.parentNode !== node.ownerDocument) {
+      this.record(node, 'removed', 'score', `${comparison} and no content survived inside`, breakdown);
+      node.parentNode.removeChild(node);
+      return;
+    }
+
     // After processing children, re-evaluate the current node
     // This handles cases where children removal might make the parent insignificant
-    if (node.children.length === 0 && (node.textContent || '').trim().length === 0 && !this.isEssentialTag(tagName)) {
+    if (!this.keptElements.has(node) && node.children.length === 0 && (node.textContent || '').trim().length === 0 && !this.isEssentialTag(tagName)) {
         if (this.countWords(node.textContent || '') < this.minWordCount && node.parentNode && node.parentNode !== node.ownerDocument) {
             const parent = node.parentNode;
+            this.record(node, 'removed', 'empty', 'no text left after pruning its children');
             parent.removeChild(node);
             // If parent becomes empty after child removal, it might also need pruning in a subsequent pass or by adjusting logic
         }
     }
   }
 
+  /**
+   * Checks whether a low-scoring wrapper still holds content after its children were pruned
+   * @param node Wrapper element
+   * @returns True if a kept element or a child with text remains
+   */
+  private hasRetainedChildren(node: HTMLElement): boolean {
+    return this.keptAncestors.has(node) || Array.from(node.children).some(child =>
+      this.keptElements.has(child) || (child.textContent || '').trim().length > 0
+    );
+  }
+
+  /**
+   * Drops text blocks with fewer words than the minWords option. Kept elements,
+   * headings, lists and blocks holding media or code are left alone.
+   * @param root Root element
+   */
+  private removeShortBlocks(root: HTMLElement): void {
+    if (this.minBlockWords <= 0) {
+      return;
+    }
+
+    const blocks = Array.from(root.querySelectorAll(Array.from(MIN_WORDS_BLOCK_TAGS).join(', '))) as HTMLElement[];
+    blocks.reverse().forEach(block => {
+      if (!block.parentNode || this.keptElements.has(block) || this.keptAncestors.has(block)) return;
+
+      const tag = block.tagName.toLowerCase();
+      if ((tag === 'div' || tag === 'section') && block.querySelector(READABILITY_BLOCK_CHILDREN) !== null) return;
+      if (block.querySelector(MIN_WORDS_EXEMPT_CONTENT) !== null) return;
+
+      const words = this.countWords(block.textContent || '');
+      if (words < this.minBlockWords) {
+        this.record(block, 'removed', 'minWords', `${words} word(s) < minWords ${this.minBlockWords}`);
+        block.parentNode.removeChild(block);
+      }
+    });
+  }
+
+  /**
+   * Selects the main content container Readability-style: paragraph scores are
+   * aggregated upward into ancestor candidates, the best candidate wins, and
+   * siblings that look like part of the same content are pulled in.
+   * @param body Document body
+   * @returns Selected elements in document order
+   */
+  private selectMainContent(body: HTMLElement): HTMLElement[] {
+    const candidates = this.scoreCandidates(body);
+    const ranked = Array.from(candidates.entries())
+      .map(([element, candidate]) => ({
+        element,
+        candidate,
+        score: candidate.score * (1 - this.getLinkDensity(element))
+      }))
+      .sort((a, b) => b.score - a.score);
+
+    if (ranked.length === 0) {
+      this.lastSelection = {
+        selector: this.describePath(body),
+        score: 0,
+        reasons: ['No paragraph-like content found; kept the whole body'],
+        siblings: [],
+        candidates: []
+      };
+      return Array.from(body.children) as HTMLElement[];
+    }
+
+    const top = ranked[0];
+    const finalScores = new Map(ranked.map(entry => [entry.element, entry.score]));
+    const reasons = [
+      `Highest score ${top.score.toFixed(1)} among ${ranked.length} candidates`,
+      `Aggregated from ${top.candidate.paragraphs} paragraph(s) with ${top.candidate.textLength} characters of text`,
+      `Link density ${this.getLinkDensity(top.element).toFixed(2)}`
+    ];
+    const tagScore = READABILITY_TAG_SCORES[top.element.tagName.toLowerCase()] || 0;
+    if (tagScore > 0) {
+      reasons.push(`<${top.element.tagName.toLowerCase()}> starts with a +${tagScore} tag bonus`);
+    }
+    const classWeight = this.getClassWeight(top.element);
+    if (classWeight !== 0) {
+      reasons.push(`class/id ${classWeight > 0 ? 'matches content' : 'matches noise'} pattern (${classWeight > 0 ? '+' : ''}${classWeight})`);
+    }
+    if (ranked.length > 1) {
+      reasons.push(`Leads runner-up ${this.describePath(ranked[1].element)} by ${(top.score - ranked[1].score).toFixed(1)}`);
+    }
+
+    // Pull in siblings that score well or read like article paragraphs
+    const selected: HTMLElement[] = [top.element];
+    const siblings: ContentSelection['siblings'] = [];
+    const parent = top.element.parentElement;
+    if (parent && top.element !== body) {
+      const threshold = Math.max(10, top.score * 0.2);
+      const topClass = top.element.className;
+
+      selected.length = 0;
+      (Array.from(parent.children) as HTMLElement[]).forEach(sibling => {
+        if (sibling === top.element) {
+          selected.push(sibling);
+          return;
+        }
+
+        const bonus = topClass && sibling.className === topClass ? top.score * 0.2 : 0;
+        const siblingScore = finalScores.get(sibling);
+        const text = this.getInnerText(sibling);
+        const linkDensity = this.getLinkDensity(sibling);
+        let reason = '';
+
+        if (siblingScore !== undefined && siblingScore + bonus >= threshold) {
+          reason = `Score ${(siblingScore + bonus).toFixed(1)} reaches sibling threshold ${threshold.toFixed(1)}`;
+        } else if (sibling.tagName.toLowerCase() === 'p') {
+          if (text.length > 80 && linkDensity < 0.25) {
+            reason = 'Long paragraph with low link density';
+          } else if (text.length > 0 && linkDensity === 0 && /\.( |$)/.test(text)) {
+            reason = 'Short paragraph that ends a sentence';
+          }
+        }
+
+        if (reason) {
+          selected.push(sibling);
+          siblings.push({ selector: this.describePath(sibling), score: siblingScore || 0, reason });
+          this.record(sibling, 'kept', 'readability', reason);
+        }
+      });
+    }
+
+    this.record(top.element, 'kept', 'readability', reasons[0]);
+    selected.forEach(element => this.cleanSelectedContent(element));
+
+    this.lastSelection = {
+      selector: this.describePath(top.element),
+      score: top.score,
+      reasons,
+      siblings,
+      candidates: ranked.slice(0, 5).map(entry => ({
+        selector: this.describePath(entry.element),
+        score: Number(entry.score.toFixed(2))
+      }))
+    };
+
+    return selected;
+  }
+
+  /**
+   * Scores paragraph-like elements and adds their score to up to five ancestors,
+   * halving for the grandparent and dividing further for more distant levels.
+   * @param body Document body
+   * @returns Candidate containers with their accumulated scores
+   */
+  private scoreCandidates(body: HTMLElement): Map<HTMLElement, CandidateScore> {
+    const candidates = new Map<HTMLElement, CandidateScore>();
+    const elements = Array.from(body.querySelectorAll('*')) as HTMLElement[];
+
+    elements.forEach(element => {
+      const tag = element.tagName.toLowerCase();
+      const scored = READABILITY_SCORED_TAGS.has(tag) ||
+        (tag === 'div' && element.querySelector(READABILITY_BLOCK_CHILDREN) === null);
+      if (!scored) return;
+
+      const text = this.getInnerText(element);
+      if (text.length < 25) return;
+
+      const commas = text.split(/[,，、]/).length - 1;
+      const contentScore = 1 + commas + Math.min(Math.floor(text.length / 100), 3);
+
+      let ancestor = element.parentElement;
+      for (let level = 0; ancestor && level < 5; level++) {
+        if (!candidates.has(ancestor)) {
+          candidates.set(ancestor, {
+            score: (READABILITY_TAG_SCORES[ancestor.tagName.toLowerCase()] || 0) + this.getClassWeight(ancestor),
+            paragraphs: 0,
+            textLength: 0
+          });
+        }
+        const candidate = candidates.get(ancestor)!;
+        const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+        candidate.score += contentScore / divider;
+        candidate.paragraphs++;
+        candidate.textLength += text.length;
+
+        if (ancestor === body) break;
+        ancestor = ancestor.parentElement;
+      }
+    });
+
+    return candidates;
+  }
+
+  /**
+   * Removes noise blocks (comment threads, link farms) left inside selected content.
+   * @param root Selected element
+   */
+  private cleanSelectedContent(root: HTMLElement): void {
+    const blocks = Array.from(root.querySelectorAll('div, section, aside, ul, ol, table')) as HTMLElement[];
+    blocks.reverse().forEach(block => {
+      if (!block.parentNode || this.keptElements.has(block) || this.keptAncestors.has(block)) return;
+      const links = block.querySelectorAll('a').length;
+      const noisy = this.getClassWeight(block) < 0;
+      const linkFarm = links >= 5 && this.getLinkDensity(block) > 0.5;
+      if (noisy || linkFarm) {
+        this.record(block, 'removed', 'readability', noisy
+          ? 'class/id matches noise pattern inside selected content'
+          : `${links} links with link density ${this.getLinkDensity(block).toFixed(2)} inside selected content`);
+        block.parentNode.removeChild(block);
+      }
+    });
+  }
+
+  /**
+   * Class/id weight used by the readability strategy
+   * @param element HTML element
+   * @returns -25 for noise patterns, +25 for content patterns, summed
+   */
+  private getClassWeight(element: HTMLElement): number {
+    let weight = 0;
+    [element.className, element.id].forEach(value => {
+      if (typeof value !== 'string' || !value) return;
+      if (matchesName(this.negativePattern, value)) weight -= 25;
+      if (matchesName(this.positivePattern, value)) weight += 25;
+    });
+    return weight;
+  }
+
+  private getInnerText(element: HTMLElement): string {
+    return (element.textContent || '').replace(/\s+/g, ' ').trim();
+  }
+
+  private getLinkDensity(element: HTMLElement): number {
+    const textLength = this.getInnerText(element).length;
+    if (textLength === 0) return 0;
+    const linkLength = Array.from(element.querySelectorAll('a'))
+      .reduce((sum, a) => sum + this.getInnerText(a as HTMLElement).length, 0);
+    return linkLength / textLength;
+  }
+
+  /**
+   * Describes an element's position as a short selector path from <body>
+   * @param element HTML element
+   * @returns Path such as 'body > main#content > article.post'
+   */
+  private describePath(element: HTMLElement): string {
+    const parts: string[] = [];
+    let current: HTMLElement | null = element;
+    while (current) {
+      const tag = current.tagName.toLowerCase();
+      const id = current.id ? `#${current.id}` : '';
+      const classes = typeof current.className === 'string' && current.className.trim()
+        ? '.' + current.className.trim().split(/\s+/).slice(0, 2).join('.')
+        : '';
+      parts.unshift(tag + id + classes);
+      if (tag === 'body' || tag === 'html') break;
+      current = current.parentElement;
+    }
+    return parts.join(' > ');
+  }
+
   private isEssentialTag(tagName: string): boolean {
     // Define tags that should not be removed even if empty, e.g., <br>, <img>
     // For now, let's assume no such tags or handle them based on existing includedTags
@@ -335,17 +865,27 @@ export class HtmlFilter {
    * @param textLen Length of text content
    * @param tagLen Length of HTML content
    * @param linkTextLen Length of text within links
+   * @param breakdown Filled with the individual metric values when given (explain mode)
    * @returns Composite score
    */
   private computeCompositeScore(
     metrics: FilterMetrics, 
     textLen: number, 
     tagLen: number, 
-    linkTextLen: number
+    linkTextLen: number,
+    breakdown?: FilterTraceMetrics
   ): number {
     let score = 0;
     let totalWeight = 0;
 
+    if (breakdown) {
+      breakdown.textDensity = tagLen > 0 ? textLen / tagLen : 0;
+      breakdown.linkDensity = textLen > 0 ? linkTextLen / textLen : 0;
+      breakdown.tagWeight = this.tagImportance[metrics.tagName] || 0.5;
+      breakdown.classIdWeight = this.computeClassIdWeight(metrics.node);
+      breakdown.textLength = Math.min(1, textLen / 100);
+    }
+
     if (this.metricConfig.textDensity) {
       const density = tagLen > 0 ? textLen / tagLen : 0;
       score += density * this.metricWeights.textDensity;
@@ -378,24 +918,30 @@ export class HtmlFilter {
     
     // Normalize score by total weight if weights don't sum to 1
     // This ensures the score is roughly within a predictable range (e.g., 0-1 if individual scores are normalized)
-    return totalWeight > 0 ? score / totalWeight : 0;
+    const composite = totalWeight > 0 ? score / totalWeight : 0;
+    if (breakdown) {
+      breakdown.score = composite;
+    }
+    return composite;
   }
 
   /**
    * Computes a weight based on class names and ID.
-   * Negative patterns (like 'comment', 'nav') decrease the score.
+   * Negative patterns (like 'comment', 'nav') decrease the score; a configured
+   * positive pattern (like 'entry-content') increases it.
    * @param node HTML element
    * @returns Weight based on class/ID
    */
   private computeClassIdWeight(node: HTMLElement): number {
     let weight = 0;
-    const classAndId = `${node.className} ${node.id}`.toLowerCase();
+    const classAndId = `${node.className} ${node.id}`;
 
-    if (this.negativePattern.test(classAndId)) {
+    if (matchesName(this.negativePattern, classAndId)) {
       weight -= 0.5; // Significant penalty for negative patterns
     }
-    // Add more sophisticated class/ID analysis if needed
-    // e.g., positive patterns, specific class weights
+    if (this.scoringBoostPattern && matchesName(this.scoringBoostPattern, classAndId)) {
+      weight += 0.25; // Smaller boost for content patterns like .post-body or .entry-content
+    }
 
     return weight;
   }
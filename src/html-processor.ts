@@ -2,20 +2,34 @@ import { HtmlFilter } from './html-filter';
 import { DefaultMarkdownGenerator, MarkdownGeneratorOptions } from './markdown-generator';
 import {
   ProcessorOptions,
+  HtmlInput,
   FilterOptions,
   ConverterOptions,
+  FrontMatterFormat,
+  FrontMatterOptions,
+  FrontMatterValue,
+  ConversionRule,
   FilterResult,
+  ContentSelection,
+  FilterTrace,
   MarkdownResult,
   FilterMetadata,
   MarkdownMetadata,
+  DocumentMetadata,
+  StructuredDataResult,
   PluginContext,
+  PluginStats,
   FilterError,
-  ConversionError
+  ConversionError,
+  PluginError
 } from './types';
 import { getPreset, mergeWithPreset } from './presets';
-import { pluginRegistry } from './plugin-manager';
-import { pageTypeDetector, PageTypeResult } from './page-type-detector';
-import { PageTypeDetector } from './page-type-detector';
+import { PluginRegistry, resolvePluginRegistry, createsPluginRegistry } from './plugin-manager';
+import { pageTypeDetector, PageTypeDetector, PageTypeResult } from './page-type-detector';
+import { metadataExtractor } from './metadata-extractor';
+import { structuredDataExtractor } from './structured-data';
+import { renderFrontMatter } from './front-matter';
+import { parseHTML, documentFromNode, cloneDocument } from './dom-adapter';
 
 /**
  * Main HTML processor class with fluent API
@@ -24,14 +38,33 @@ export class HtmlProcessor {
   private htmlFilter: HtmlFilter;
   private markdownGenerator: DefaultMarkdownGenerator;
   private options: ProcessorOptions;
-  private currentHtml: string;
+  /** Plugins applied by this processor (the global registry unless options.plugins is set) */
+  private plugins: PluginRegistry;
+  /** Whether the registry was created for a plugin list or selection, and is destroyed by dispose() */
+  private ownsPlugins: boolean;
+  /** Current HTML; null while it is still the source node, not yet serialized */
+  private currentHtml: string | null;
+  /** Original HTML; null until a source node is serialized */
+  private originalHtml: string | null;
+  /** Document or Element passed to fromDocument(); never modified */
+  private sourceNode: Document | Element | null = null;
   private baseUrl: string;
   private processed: boolean = false;
+  /** Parsed original HTML, shared by detection and extraction; never modified */
   private dom: Document | null = null;
+  /** Document whose body holds the current HTML after filtering; modified in place */
   private filteredDom: Document | null = null;
   private filterStats: { processingTime: number; filteredElements: number } | null = null;
   private pageTypeResult: PageTypeResult | null = null;
   private autoDetectEnabled: boolean = false;
+  private documentMetadata: DocumentMetadata | null = null;
+  private structuredData: StructuredDataResult | null = null;
+  private sourceUrl: string = '';
+  private conversionRules: Record<string, ConversionRule> = {};
+  private contentSelection: ContentSelection | null = null;
+  private filterTrace: FilterTrace | null = null;
+  /** Plugin context shared by every stage of this processor's run */
+  private pluginContext: PluginContext | null = null;
 
   /**
    * Create a new HtmlProcessor instance
@@ -39,21 +72,47 @@ export class HtmlProcessor {
    */
   constructor(options: ProcessorOptions = {}) {
     this.options = this.resolveOptions(options);
+    this.plugins = resolvePluginRegistry(this.options.plugins);
+    this.ownsPlugins = createsPluginRegistry(this.options.plugins);
     this.htmlFilter = this.createHtmlFilter();
     this.markdownGenerator = this.createMarkdownGenerator();
     this.currentHtml = '';
+    this.originalHtml = '';
     this.baseUrl = this.options.baseUrl || '';
   }
 
   /**
    * Static factory method to create processor from HTML
-   * @param html HTML content to process
+   * @param html HTML content to process, or a parsed Document or Element
    * @param options Processing options
    * @returns New HtmlProcessor instance
    */
-  static from(html: string, options: ProcessorOptions = {}): HtmlProcessor {
+  static from(html: HtmlInput, options: ProcessorOptions = {}): HtmlProcessor {
+    if (html && typeof html === 'object') {
+      return HtmlProcessor.fromDocument(html, options);
+    }
     const processor = new HtmlProcessor(options);
     processor.currentHtml = html || '';
+    processor.originalHtml = processor.currentHtml;
+    return processor;
+  }
+
+  /**
+   * Create a processor from an already parsed Document or Element, such as a
+   * jsdom or happy-dom document or a browser page's document. The node is not
+   * serialized and re-parsed: filtering and conversion work on a copy, and it
+   * is only serialized when HTML is asked for (toString, filter plugins, page
+   * type detection, conversion without filtering).
+   * @param doc Document, or Element whose subtree is the content
+   * @param options Processing options
+   * @returns New HtmlProcessor instance
+   */
+  static fromDocument(doc: Document | Element, options: ProcessorOptions = {}): HtmlProcessor {
+    const processor = new HtmlProcessor(options);
+    processor.sourceNode = doc;
+    processor.dom = documentFromNode(doc);
+    processor.currentHtml = null;
+    processor.originalHtml = null;
     return processor;
   }
 
@@ -65,9 +124,44 @@ export class HtmlProcessor {
   withBaseUrl(url: string): HtmlProcessor {
     this.baseUrl = url;
     this.options.baseUrl = url;
+    this.documentMetadata = null;
+    return this;
+  }
+
+  /**
+   * Register an element conversion rule for this processor
+   * @param name Rule name (re-adding a name replaces the rule)
+   * @param rule Selector or predicate plus replacement function
+   * @returns This processor instance for chaining
+   */
+  addRule(name: string, rule: ConversionRule): HtmlProcessor {
+    this.conversionRules[name] = rule;
+    return this;
+  }
+
+  /**
+   * Remove an element conversion rule from this processor
+   * @param name Rule name
+   * @returns This processor instance for chaining
+   */
+  removeRule(name: string): HtmlProcessor {
+    delete this.conversionRules[name];
     return this;
   }
 
+  /**
+   * Destroy the plugin registry this processor created for a plugins list or
+   * selection, calling each plugin's destroy function. A registry passed as
+   * the plugins option, and the global registry, are left to their owner.
+   * Call it when a processor created with a plugin list is no longer needed.
+   */
+  dispose(): void {
+    if (this.ownsPlugins) {
+      this.ownsPlugins = false;
+      this.plugins.destroy();
+    }
+  }
+
   /**
    * Update processor options
    * @param options New options to merge
@@ -87,6 +181,12 @@ export class HtmlProcessor {
       }
     };
 
+    if (options.plugins !== undefined) {
+      this.dispose();
+      this.plugins = resolvePluginRegistry(options.plugins);
+      this.ownsPlugins = createsPluginRegistry(options.plugins);
+    }
+
     // Recreate filter and generator with new options
     this.htmlFilter = this.createHtmlFilter();
     this.markdownGenerator = this.createMarkdownGenerator();
@@ -109,6 +209,9 @@ export class HtmlProcessor {
         await this.detectPageType();
       }
 
+      // Read document metadata before filtering strips <head>
+      await this.getMetadata();
+
       // Merge filter options with auto-detected ones
       const mergedOptions: FilterOptions = {
         ...this.options.filter,
@@ -122,20 +225,25 @@ export class HtmlProcessor {
       // Create or update HTML filter
       this.htmlFilter = this.createHtmlFilter();
 
-      // Apply filter plugins
-      const pluginContext: PluginContext = {
-        options: this.options,
-        baseUrl: this.baseUrl,
-        originalHtml: this.currentHtml,
-        metadata: {}
-      };
-
-      let htmlToFilter = pluginRegistry.applyFilterPlugins(this.currentHtml, pluginContext);
+      // Apply filter plugins; a source node is only serialized for them when there are any
+      const pluginContext = this.getPluginContext();
+      let htmlToFilter = this.currentHtml;
+      if (htmlToFilter !== null || this.plugins.hasFilterPlugins()) {
+        htmlToFilter = await this.plugins.applyFilterPlugins(this.getCurrentHtml(), pluginContext);
+      }
 
-      // Apply HTML filtering
-      const filteredContent = await this.htmlFilter.filterContentAsString(htmlToFilter);
+      // Apply HTML filtering to the already parsed document unless a plugin rewrote the HTML
+      const doc = await this.takeWorkingDocument(htmlToFilter);
+      await this.plugins.runDocumentHooks('beforeFilter', doc, pluginContext);
+      await this.htmlFilter.filterDocument(doc);
+      await this.plugins.runDocumentHooks('afterFilter', doc, pluginContext);
+      // The body holds the kept blocks, plus any changes made by afterFilter hooks
+      const filteredContent = doc.body.innerHTML;
+      this.contentSelection = this.htmlFilter.getLastSelection();
+      this.filterTrace = this.htmlFilter.getLastTrace();
       
       this.currentHtml = filteredContent || this.currentHtml;
+      this.filteredDom = filteredContent ? doc : null;
       this.processed = true;
 
       const processingTime = Date.now() - startTime;
@@ -145,6 +253,8 @@ export class HtmlProcessor {
 
       return this;
     } catch (error: unknown) {
+      // Failures of plugins whose failure policy is 'throw' surface as they are
+      if (error instanceof PluginError) throw error;
       const errorMessage = error instanceof Error ? error.message : String(error);
       throw new FilterError(`HTML filtering failed: ${errorMessage}`, error instanceof Error ? error : undefined);
     }
@@ -166,12 +276,25 @@ export class HtmlProcessor {
       const mdOptions: MarkdownGeneratorOptions = {
         ignoreLinks: converterOptions.ignoreLinks,
         ignoreImages: converterOptions.ignoreImages,
-        escapeSnob: converterOptions.escapeSpecialChars
+        escapeSnob: converterOptions.escapeSpecialChars,
+        format: converterOptions.format,
+        rules: converterOptions.rules,
+        linkStyle: converterOptions.linkStyle,
+        tableFallback: converterOptions.tableFallback,
+        // Processor rules take precedence over rules contributed by plugins
+        conversionRules: { ...this.conversionRules, ...this.plugins.getConversionRules() }
       };
 
-      // Generate markdown
+      // Read metadata before the source document can be handed to conversion
+      const documentMetadata = await this.getMetadata();
+
+      // Generate markdown from the filtered (or original) document without re-parsing
+      const pluginContext = this.getPluginContext();
+      const doc = await this.takeWorkingDocument(this.currentHtml);
+      await this.plugins.runDocumentHooks('beforeConvert', doc, pluginContext);
+      await this.plugins.runElementHooks(doc.body, pluginContext);
       const result = await this.markdownGenerator.generateMarkdown(
-        this.currentHtml,
+        doc.body,
         this.baseUrl,
         mdOptions,
         null,
@@ -179,34 +302,35 @@ export class HtmlProcessor {
       );
 
       // Apply plugins to markdown content
-      const pluginContext: PluginContext = {
-        options: this.options,
-        baseUrl: this.baseUrl,
-        originalHtml: this.currentHtml,
-        metadata: {}
-      };
-
-      let finalContent = pluginRegistry.applyConvertPlugins(result.rawMarkdown, pluginContext);
+      const finalContent = await this.plugins.applyConvertPlugins(result.rawMarkdown, pluginContext);
 
       const processingTime = Date.now() - startTime;
 
       // Create metadata
       const metadata: MarkdownMetadata = {
         wordCount: this.countWords(finalContent),
-        linkCount: this.countMatches(finalContent, /\[([^\]]+)\]\([^)]+\)/g),
-        imageCount: this.countMatches(finalContent, /!\[([^\]]*)\]\([^)]+\)/g),
+        linkCount: this.countMatches(finalContent, /\[([^\]]+)\](?:\([^)]+\)|\[\d+\])/g),
+        imageCount: this.countMatches(finalContent, /!\[([^\]]*)\](?:\([^)]+\)|\[\d+\])/g),
         headingCount: this.countMatches(finalContent, /^#+\s/gm),
         processingTime,
-        sourceLength: this.currentHtml.length
+        sourceLength: this.getCurrentHtml().length
       };
 
+      const frontMatter = converterOptions.frontMatter
+        ? this.buildFrontMatter(converterOptions.frontMatter, documentMetadata, metadata)
+        : '';
+
       return {
-        content: finalContent,
-        contentWithCitations: result.markdownWithCitations,
+        content: frontMatter + finalContent,
+        contentWithCitations: frontMatter + result.markdownWithCitations,
         references: result.referencesMarkdown,
-        metadata
+        metadata,
+        documentMetadata,
+        ...(frontMatter ? { frontMatter } : {}),
+        ...this.pluginStatsField()
       };
     } catch (error: unknown) {
+      if (error instanceof PluginError) throw error;
       const errorMessage = error instanceof Error ? error.message : String(error);
       throw new ConversionError(`Markdown conversion failed: ${errorMessage}`, error instanceof Error ? error : undefined);
     }
@@ -232,16 +356,19 @@ export class HtmlProcessor {
    * @returns Array of HTML fragments
    */
   async toArray(): Promise<string[]> {
-    if (!this.currentHtml) {
+    const currentHtml = this.getCurrentHtml();
+    if (!currentHtml) {
       return [];
     }
 
     try {
-      const fragments = await this.htmlFilter.filterContent(this.currentHtml);
-      return fragments && fragments.length > 0 ? fragments : [this.currentHtml];
+      const doc = await this.takeWorkingDocument(this.currentHtml);
+      const fragments = (await this.htmlFilter.filterDocument(doc)).map(element => element.outerHTML);
+      return fragments && fragments.length > 0 ? fragments : [currentHtml];
     } catch (error: unknown) {
+      if (error instanceof PluginError) throw error;
       console.warn('[HtmlProcessor] Failed to convert to array:', error);
-      return [this.currentHtml];
+      return [currentHtml];
     }
   }
 
@@ -250,7 +377,7 @@ export class HtmlProcessor {
    * @returns Filtered HTML string
    */
   toString(): string {
-    return this.currentHtml;
+    return this.getCurrentHtml();
   }
 
   /**
@@ -266,7 +393,8 @@ export class HtmlProcessor {
    * @returns Filter result with metadata
    */
   async getFilterResult(): Promise<FilterResult> {
-    const originalHtml = this.currentHtml; // This is after filtering, need to track original
+    const originalHtml = this.getOriginalHtml();
+    const currentHtml = this.getCurrentHtml();
     const startTime = Date.now();
     
     try {
@@ -275,32 +403,95 @@ export class HtmlProcessor {
 
       const metadata: FilterMetadata = {
         originalLength: originalHtml.length,
-        filteredLength: this.currentHtml.length,
+        filteredLength: currentHtml.length,
         reductionPercent: originalHtml.length > 0 
-          ? Math.round((1 - this.currentHtml.length / originalHtml.length) * 100) 
+          ? Math.round((1 - currentHtml.length / originalHtml.length) * 100) 
           : 0,
-        elementsRemoved: this.countElements(originalHtml) - this.countElements(this.currentHtml),
+        elementsRemoved: this.countElements(originalHtml) - this.countElements(currentHtml),
         processingTime
       };
 
       return {
-        content: this.currentHtml,
+        content: currentHtml,
         fragments,
         original: originalHtml,
-        metadata
+        metadata,
+        documentMetadata: await this.getMetadata(),
+        contentSelection: this.contentSelection || undefined,
+        trace: this.filterTrace || undefined,
+        ...this.pluginStatsField()
       };
     } catch (error: unknown) {
+      if (error instanceof PluginError) throw error;
       const errorMessage = error instanceof Error ? error.message : String(error);
       throw new FilterError(`Failed to generate filter result: ${errorMessage}`, error instanceof Error ? error : undefined);
     }
   }
 
+  /**
+   * Get the main content node chosen by the readability strategy and why
+   * @returns Selection report, or null if filtering did not use the readability strategy
+   */
+  getContentSelection(): ContentSelection | null {
+    return this.contentSelection;
+  }
+
+  /**
+   * Get the keep/remove decisions of the last filter() call
+   * @returns Trace, or null unless filtering ran with explain: true
+   */
+  getFilterTrace(): FilterTrace | null {
+    return this.filterTrace;
+  }
+
+  /**
+   * Get the call counts, timing and failures of the plugins this processor has run
+   * @returns Stats of each plugin called, in first-call order
+   */
+  getPluginStats(): PluginStats[] {
+    return this.pluginContext ? this.plugins.getRunStats(this.pluginContext) : [];
+  }
+
+  /**
+   * Get document metadata (title, byline, dates, language, canonical URL)
+   * extracted from the original HTML before filtering
+   * @returns Document metadata
+   */
+  async getMetadata(): Promise<DocumentMetadata> {
+    if (!this.documentMetadata) {
+      this.documentMetadata = this.hasSource()
+        ? metadataExtractor.extractFromDocument(await this.getSourceDocument(), this.baseUrl)
+        : { sources: {} };
+    }
+    return this.documentMetadata;
+  }
+
+  /**
+   * Get schema.org data embedded as JSON-LD, Microdata or RDFa in the original HTML
+   * @returns Normalized structured data items
+   */
+  async getStructuredData(): Promise<StructuredDataResult> {
+    if (!this.structuredData) {
+      this.structuredData = this.hasSource()
+        ? structuredDataExtractor.extractFromDocument(await this.getSourceDocument())
+        : { items: [], types: [], errors: [] };
+    }
+    return this.structuredData;
+  }
+
   /**
    * Get current processing options
    * @returns Current options
    */
   getOptions(): ProcessorOptions {
-    return JSON.parse(JSON.stringify(this.options)); // Deep clone
+    // Deep clone; an injected DOM implementation, plugins and page type detector are returned as is
+    const { domBackend, plugins, pageTypeDetector, ...options } = this.options;
+    return {
+      ...JSON.parse(JSON.stringify(options)),
+      ...(domBackend !== undefined ? { domBackend } : {}),
+      ...(plugins !== undefined ? { plugins } : {}),
+      ...(pageTypeDetector !== undefined ? { pageTypeDetector } : {})
+    };
   }
 
   /**
@@ -316,7 +507,7 @@ export class HtmlProcessor {
    * @returns Current HTML content
    */
   getHtml(): string {
-    return this.currentHtml;
+    return this.getCurrentHtml();
   }
 
   /**
@@ -357,7 +548,11 @@ export class HtmlProcessor {
         ...options.converter
       },
       baseUrl: options.baseUrl || '',
-      preset: options.preset
+      preset: options.preset,
+      domBackend: options.domBackend,
+      plugins: options.plugins,
+      pluginFailurePolicy: options.pluginFailurePolicy,
+      pageTypeDetector: options.pageTypeDetector
     };
   }
 
@@ -370,7 +565,8 @@ export class HtmlProcessor {
     return new HtmlFilter(
       filterOpts.threshold || 2,
       filterOpts.strategy || 'dynamic',
-      filterOpts.ratio || 0.48
+      filterOpts.ratio || 0.48,
+      filterOpts
     );
   }
 
@@ -383,10 +579,63 @@ export class HtmlProcessor {
     const mdOptions: MarkdownGeneratorOptions = {
       ignoreLinks: converterOpts.ignoreLinks || false,
       ignoreImages: converterOpts.ignoreImages || false,
-      escapeSnob: converterOpts.escapeSpecialChars || false
+      escapeSnob: converterOpts.escapeSpecialChars || false,
+      format: converterOpts.format || 'github',
+      rules: converterOpts.rules,
+      linkStyle: converterOpts.linkStyle || 'inline',
+      tableFallback: converterOpts.tableFallback || 'html'
     };
 
-    return new DefaultMarkdownGenerator(this.htmlFilter, mdOptions);
+    // No content filter: fitMarkdown is not part of MarkdownResult and would cost another filter pass
+    return new DefaultMarkdownGenerator(null, mdOptions);
+  }
+
+  /**
+   * Build the front-matter block for a conversion result
+   * @param setting Front-matter converter option
+   * @param documentMetadata Document metadata from the original HTML
+   * @param markdownMetadata Metadata about the Markdown output
+   * @returns Rendered front-matter block
+   */
+  private buildFrontMatter(
+    setting: true | FrontMatterFormat | FrontMatterOptions,
+    documentMetadata: DocumentMetadata,
+    markdownMetadata: MarkdownMetadata
+  ): string {
+    const frontMatterOptions: FrontMatterOptions = typeof setting === 'object'
+      ? setting
+      : { format: typeof setting === 'string' ? setting : 'yaml' };
+    const url = this.sourceUrl || this.baseUrl || documentMetadata.canonicalUrl || '';
+
+    const fields: Record<string, FrontMatterValue> = {};
+    if (documentMetadata.title) fields.title = documentMetadata.title;
+    if (url) fields.source = url;
+    if (this.pageTypeResult) {
+      fields.page_type = this.pageTypeResult.type;
+      fields.page_type_confidence = Number(this.pageTypeResult.confidence.toFixed(3));
+    }
+    fields.word_count = markdownMetadata.wordCount;
+    fields.extracted_at = new Date().toISOString();
+    Object.assign(fields, frontMatterOptions.fields);
+
+    if (frontMatterOptions.customFields) {
+      const custom = frontMatterOptions.customFields({
+        fields: { ...fields },
+        documentMetadata,
+        markdownMetadata,
+        pageType: this.pageTypeResult,
+        url
+      });
+      Object.entries(custom || {}).forEach(([key, value]) => {
+        if (value === null) {
+          delete fields[key];
+        } else if (value !== undefined) {
+          fields[key] = value;
+        }
+      });
+    }
+
+    return renderFrontMatter(fields, frontMatterOptions.format || 'yaml');
   }
 
   /**
@@ -425,21 +674,20 @@ export class HtmlProcessor {
    */
   async withAutoDetection(url?: string): Promise<HtmlProcessor> {
     this.autoDetectEnabled = true;
+    if (url) {
+      this.sourceUrl = url;
+    }
     
     // Detect page type immediately with current HTML and URL
-    const pageTypeDetector = new PageTypeDetector();
-    this.pageTypeResult = await pageTypeDetector.detectPageType(this.currentHtml, url || this.baseUrl);  
+    this.pageTypeResult = await this.detectCurrentPageType(url || this.baseUrl);
     
     if (this.options.debug && this.pageTypeResult) {
       console.log(`[HtmlProcessor] Auto-detected page type: ${this.pageTypeResult.type} (confidence: ${(this.pageTypeResult.confidence * 100).toFixed(1)}%)`);
       console.log(`[HtmlProcessor] Detection reasons:`, this.pageTypeResult.reasons);
     }
 
-    // Update filter options with detected options
-    this.options.filter = {
-      ...this.options.filter,
-      ...this.pageTypeResult.filterOptions
-    };
+    // Update filter and converter options with detected options
+    this.applyPageTypeOptions(this.pageTypeResult);
 
     return this;
   }
@@ -467,21 +715,19 @@ export class HtmlProcessor {
    */
   async withPageType(pageType: string): Promise<HtmlProcessor> {
     this.autoDetectEnabled = false;
-    const pageTypeDetector = new PageTypeDetector();
-    this.pageTypeResult = await pageTypeDetector.detectPageType('');
-    this.pageTypeResult.type = pageType as any;
+    const detector = this.getPageTypeDetector();
+    this.pageTypeResult = await detector.detectPageType('');
+    this.pageTypeResult.type = pageType;
     this.pageTypeResult.confidence = 1.0;
+    this.pageTypeResult.distribution = { [pageType]: 1 };
+    this.pageTypeResult.labels = [pageType];
     this.pageTypeResult.reasons = [`Manually set to ${pageType}`];
     
-    // Get filter options for this page type
-    const filterOptions = (pageTypeDetector as any).getFilterOptionsForType(pageType, this.pageTypeResult.characteristics);
-    this.pageTypeResult.filterOptions = filterOptions;
+    // Get the options recommended for this page type
+    Object.assign(this.pageTypeResult, detector.getRecommendedOptions(pageType, this.pageTypeResult.characteristics));
     
     // Update processor options
-    this.options.filter = {
-      ...this.options.filter,
-      ...filterOptions
-    };
+    this.applyPageTypeOptions(this.pageTypeResult);
 
     if (this.options.debug) {
       console.log(`[HtmlProcessor] Page type manually set to: ${pageType}`);
@@ -495,8 +741,155 @@ export class HtmlProcessor {
    */
   private async detectPageType(): Promise<void> {
     if (!this.pageTypeResult) {
-      const pageTypeDetector = new PageTypeDetector();
-      this.pageTypeResult = await pageTypeDetector.detectPageType(this.currentHtml, this.baseUrl);
+      this.pageTypeResult = await this.detectCurrentPageType(this.baseUrl);
+    }
+  }
+
+  /**
+   * Detect the page type of the current HTML, reusing the parsed original document when possible
+   * @param url URL hint
+   * @returns Detection result
+   */
+  private async detectCurrentPageType(url: string): Promise<PageTypeResult> {
+    const detector = this.getPageTypeDetector();
+    // Text-pattern rules need the HTML, so detection serializes a source node
+    const html = this.getCurrentHtml();
+    if (html && (this.currentHtml === null || html === this.originalHtml)) {
+      return detector.detectPageTypeFromDocument(await this.getSourceDocument(), html, url);
+    }
+    return detector.detectPageTypeFromDocument(await this.parseDocument(html), html, url);
+  }
+
+  /**
+   * Get the page type detector selected in the options
+   * @returns Detector, the shared one unless the options give another
+   */
+  private getPageTypeDetector(): PageTypeDetector {
+    return this.options.pageTypeDetector || pageTypeDetector;
+  }
+
+  /**
+   * Merge the options recommended for a page type into the processor options
+   * @param result Detected or manually set page type
+   */
+  private applyPageTypeOptions(result: PageTypeResult): void {
+    this.options.filter = {
+      ...this.options.filter,
+      ...result.filterOptions
+    };
+    if (result.converterOptions) {
+      this.options.converter = {
+        ...this.options.converter,
+        ...result.converterOptions
+      };
+    }
+  }
+
+  /**
+   * Check whether there is original content to extract from
+   * @returns True if the processor was given a node or non-empty HTML
+   */
+  private hasSource(): boolean {
+    return this.sourceNode !== null || !!this.originalHtml;
+  }
+
+  /**
+   * Get the original HTML, serializing the source node on first use
+   * @returns Original HTML
+   */
+  private getOriginalHtml(): string {
+    if (this.originalHtml === null) {
+      const node = this.sourceNode!;
+      this.originalHtml = node.nodeType === 9
+        ? (node as Document).documentElement?.outerHTML || ''
+        : (node as Element).outerHTML;
+    }
+    return this.originalHtml;
+  }
+
+  /**
+   * Get the current HTML, serializing the source node if it has not been filtered yet
+   * @returns Current HTML
+   */
+  private getCurrentHtml(): string {
+    return this.currentHtml === null ? this.getOriginalHtml() : this.currentHtml;
+  }
+
+  /**
+   * Get the parsed original HTML, parsing it on first use
+   * @returns Source document
+   */
+  private async getSourceDocument(): Promise<Document> {
+    if (!this.dom) {
+      this.dom = await this.parseDocument(this.getOriginalHtml());
+    }
+    return this.dom;
+  }
+
+  /**
+   * Get a document holding the given HTML that filtering or conversion may
+   * modify, reusing a parsed document instead of parsing the string again
+   * @param html HTML the document must hold; null for the unserialized source node
+   * @returns Document to work on
+   */
+  private async takeWorkingDocument(html: string | null): Promise<Document> {
+    if (this.filteredDom && html === this.currentHtml) {
+      // The filtered document is kept intact, so hooks never run twice on the same nodes
+      return cloneDocument(this.filteredDom);
+    }
+    if (this.sourceNode && (html === null || html === this.originalHtml)) {
+      // A node passed in is never modified, and stays the source for later serialization
+      return cloneDocument(this.dom!);
+    }
+    if (this.dom && html === this.originalHtml) {
+      // The source document is no longer pristine once it is worked on
+      const doc = this.dom;
+      this.dom = null;
+      return doc;
+    }
+    return await this.parseDocument(html!);
+  }
+
+  /**
+   * Parse HTML with the DOM backend selected in the options, running the
+   * beforeParse and afterParse plugin hooks
+   * @param html HTML to parse
+   * @returns New document
+   */
+  private async parseDocument(html: string): Promise<Document> {
+    const pluginContext = this.getPluginContext();
+    const doc = await parseHTML(await this.plugins.runBeforeParse(html, pluginContext), this.options.domBackend);
+    await this.plugins.runDocumentHooks('afterParse', doc, pluginContext);
+    return doc;
+  }
+
+  /**
+   * Plugin stats for a result, left out when no plugin has run
+   */
+  private pluginStatsField(): { pluginStats?: PluginStats[] } {
+    const pluginStats = this.getPluginStats();
+    return pluginStats.length > 0 ? { pluginStats } : {};
+  }
+
+  /**
+   * Get the plugin context shared by all stages, updated with the current options and base URL
+   * @returns Plugin context
+   */
+  private getPluginContext(): PluginContext {
+    if (!this.pluginContext) {
+      const processor = this;
+      this.pluginContext = {
+        options: this.options,
+        baseUrl: this.baseUrl,
+        // Serialized on first read, so a source node stays unserialized unless a plugin needs it
+        get originalHtml() {
+          return processor.getOriginalHtml();
+        },
+        metadata: {}
+      };
     }
+    this.pluginContext.options = this.options;
+    this.pluginContext.baseUrl = this.baseUrl;
+    return this.pluginContext;
   }
 } 
\ No newline at end of file
@@ -0,0 +1,497 @@
+/**
+ * HTML Stream - Incremental HTML to Markdown conversion for large documents.
+ * Input is split into top-level blocks as it arrives, and each batch of
+ * completed blocks is parsed once, filtered and converted on the same DOM.
+ */
+
+import { HtmlFilter } from './html-filter';
+import { DefaultMarkdownGenerator, MarkdownGeneratorOptions } from './markdown-generator';
+import { parseHTML } from './dom-adapter';
+import { resolvePluginRegistry, createsPluginRegistry } from './plugin-manager';
+import { getPreset } from './presets';
+import { FilterOptions, PluginContext, ProcessorError, ProcessorOptions, StreamOptions } from './types';
+
+/**
+ * Elements that only group content; their children become separate blocks
+ */
+const TRANSPARENT_WRAPPERS = new Set([
+  'div', 'section', 'article', 'main', 'header', 'footer', 'nav', 'aside', 'center', 'form'
+]);
+
+/**
+ * Phrasing elements that are grouped with neighbouring text into one block
+ */
+const INLINE_ELEMENTS = new Set([
+  'a', 'abbr', 'b', 'bdi', 'bdo', 'br', 'cite', 'code', 'data', 'del', 'dfn', 'em', 'font', 'i',
+  'img', 'ins', 'kbd', 'label', 'mark', 'q', 's', 'samp', 'small', 'span', 'strike', 'strong',
+  'sub', 'sup', 'time', 'tt', 'u', 'var', 'wbr'
+]);
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr'
+]);
+
+/**
+ * Elements whose content is dropped without tokenizing it
+ */
+const SKIPPED_CONTENT = new Set(['script', 'style', 'noscript', 'template', 'title', 'textarea']);
+
+/**
+ * Elements that may appear in <head> before the body starts
+ */
+const HEAD_ELEMENTS = new Set(['html', 'head', 'meta', 'link', 'base', 'title']);
+
+/**
+ * Start tags that implicitly close an open <p>
+ */
+const CLOSES_PARAGRAPH = new Set([
+  'address', 'article', 'aside', 'blockquote', 'details', 'div', 'dl', 'fieldset', 'figure',
+  'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'main', 'nav', 'ol',
+  'p', 'pre', 'section', 'table', 'ul'
+]);
+
+/**
+ * A completed top-level block and the wrapper start tags around it
+ */
+export interface HtmlBlock {
+  /** Block HTML */
+  html: string;
+  /** Raw start tags of the enclosing wrappers, outermost first */
+  ancestors: string[];
+}
+
+interface OpenUnit {
+  html: string;
+  stack: string[];
+  inline: boolean;
+}
+
+interface Tag {
+  name: string;
+  closing: boolean;
+  selfClosing: boolean;
+  raw: string;
+}
+
+/**
+ * Splits HTML arriving in arbitrary chunks into top-level blocks. Wrappers
+ * such as <div> and <section> are not buffered; only the block currently
+ * being read is held in memory.
+ */
+export class HtmlBlockSplitter {
+  private buffer = '';
+  private skipping: string | null = null;
+  private inBody = false;
+  private wrappers: { name: string; tag: string }[] = [];
+  private unit: OpenUnit | null = null;
+  private ready: HtmlBlock[] = [];
+
+  /**
+   * Adds input and returns the blocks completed by it
+   * @param chunk Next piece of HTML
+   * @returns Completed blocks
+   */
+  write(chunk: string): HtmlBlock[] {
+    this.buffer += chunk;
+    this.consume(false);
+    return this.takeReady();
+  }
+
+  /**
+   * Signals the end of input and returns the remaining blocks
+   * @returns Completed blocks
+   */
+  end(): HtmlBlock[] {
+    this.consume(true);
+    this.buffer = '';
+    this.completeUnit();
+    return this.takeReady();
+  }
+
+  private takeReady(): HtmlBlock[] {
+    const blocks = this.ready;
+    this.ready = [];
+    return blocks;
+  }
+
+  private consume(final: boolean): void {
+    let position = 0;
+
+    while (position < this.buffer.length) {
+      if (this.skipping) {
+        const close = this.buffer.toLowerCase().indexOf(`</${this.skipping}`, position);
+        if (close === -1) {
+          // Keep only a possible partial closing tag
+          position = Math.max(position, this.buffer.length - this.skipping.length - 2);
+          break;
+        }
+        const end = this.buffer.indexOf('>', close);
+        if (end === -1) {
+          position = close;
+          break;
+        }
+        this.skipping = null;
+        position = end + 1;
+        continue;
+      }
+
+      const open = this.buffer.indexOf('<', position);
+      if (open !== position) {
+        // Text up to the next tag; the end of a chunk may still be followed by more text
+        const end = open === -1 ? this.buffer.length : open;
+        this.handleText(this.buffer.slice(position, end));
+        position = end;
+        continue;
+      }
+
+      const end = findTagEnd(this.buffer, position);
+      if (end === -1) {
+        if (final) {
+          this.handleText(this.buffer.slice(position));
+          position = this.buffer.length;
+        }
+        break;
+      }
+
+      const token = this.buffer.slice(position, end);
+      position = end;
+      const tag = parseTag(token);
+      if (tag) {
+        this.handleTag(tag);
+      } else if (!token.startsWith('<!') && !token.startsWith('<?')) {
+        this.handleText(token);
+      }
+    }
+
+    this.buffer = this.buffer.slice(position);
+  }
+
+  private handleText(text: string): void {
+    if (!this.inBody) {
+      if (text.trim().length === 0) return;
+      this.inBody = true;
+    }
+    if (!this.unit) {
+      text = text.trimStart();
+      if (text.length === 0) return;
+      this.unit = { html: '', stack: [], inline: true };
+    }
+    this.unit.html += text;
+  }
+
+  private handleTag(tag: Tag): void {
+    const { name } = tag;
+
+    if (!this.inBody) {
+      if (tag.closing || HEAD_ELEMENTS.has(name)) {
+        if (!tag.closing && SKIPPED_CONTENT.has(name)) this.skipping = name;
+        return;
+      }
+      this.inBody = true;
+    }
+
+    if (!tag.closing && SKIPPED_CONTENT.has(name)) {
+      this.skipping = name;
+      return;
+    }
+
+    if (tag.closing) {
+      this.handleEndTag(name);
+    } else {
+      this.handleStartTag(tag);
+    }
+  }
+
+  private handleStartTag(tag: Tag): void {
+    const { name } = tag;
+    const isVoid = tag.selfClosing || VOID_ELEMENTS.has(name);
+
+    if (this.unit && this.unit.stack.length > 0) {
+      if (CLOSES_PARAGRAPH.has(name) && this.unit.stack[this.unit.stack.length - 1] === 'p') {
+        this.unit.stack.pop();
+        this.unit.html += '</p>';
+        if (this.unit.stack.length === 0 && !this.unit.inline) {
+          this.completeUnit();
+          this.handleStartTag(tag);
+          return;
+        }
+      }
+      this.appendTag(tag, isVoid);
+      return;
+    }
+
+    if (name === 'html' || name === 'body' || name === 'head') {
+      return;
+    }
+
+    if (TRANSPARENT_WRAPPERS.has(name) || name.includes('-')) {
+      this.completeUnit();
+      if (!isVoid) {
+        this.wrappers.push({ name, tag: tag.raw });
+      }
+      return;
+    }
+
+    if (INLINE_ELEMENTS.has(name)) {
+      if (!this.unit) {
+        this.unit = { html: '', stack: [], inline: true };
+      }
+      this.appendTag(tag, isVoid);
+      return;
+    }
+
+    this.completeUnit();
+    this.unit = { html: '', stack: [], inline: false };
+    this.appendTag(tag, isVoid);
+    if (isVoid) {
+      this.completeUnit();
+    }
+  }
+
+  private handleEndTag(name: string): void {
+    const unit = this.unit;
+    if (unit) {
+      const index = unit.stack.lastIndexOf(name);
+      if (index !== -1) {
+        while (unit.stack.length > index) {
+          unit.html += `</${unit.stack.pop()}>`;
+        }
+        if (unit.stack.length === 0 && !unit.inline) {
+          this.completeUnit();
+        }
+        return;
+      }
+    }
+
+    const wrapper = this.wrappers.map(entry => entry.name).lastIndexOf(name);
+    if (wrapper === -1 && unit && unit.stack.length > 0) {
+      // Stray end tag inside a block; the parser ignores it as well
+      return;
+    }
+    if (wrapper !== -1) {
+      this.completeUnit();
+      this.wrappers.length = wrapper;
+    }
+  }
+
+  private appendTag(tag: Tag, isVoid: boolean): void {
+    this.unit!.html += tag.raw;
+    if (!isVoid) {
+      this.unit!.stack.push(tag.name);
+    }
+  }
+
+  private completeUnit(): void {
+    const unit = this.unit;
+    this.unit = null;
+    if (!unit || unit.html.trim().length === 0) return;
+
+    this.ready.push({
+      html: unit.html + unit.stack.reverse().map(name => `</${name}>`).join(''),
+      ancestors: this.wrappers.map(entry => entry.tag)
+    });
+  }
+}
+
+/**
+ * Finds the end of the tag, comment or declaration starting at `start`
+ * @returns Index after the closing '>', or -1 if more input is needed
+ */
+function findTagEnd(html: string, start: number): number {
+  if (html.startsWith('<!--', start)) {
+    const end = html.indexOf('-->', start + 4);
+    return end === -1 ? -1 : end + 3;
+  }
+  if (start + 1 >= html.length) {
+    return -1;
+  }
+
+  const next = html[start + 1];
+  if (!/[a-zA-Z\/!?]/.test(next)) {
+    // A bare '<' in text
+    return start + 1;
+  }
+
+  let quote: string | null = null;
+  for (let i = start + 1; i < html.length; i++) {
+    const char = html[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+    } else if (char === '>') {
+      return i + 1;
+    }
+  }
+  return -1;
+}
+
+function parseTag(token: string): Tag | null {
+  const match = token.match(/^<(\/?)([a-zA-Z][\w:-]*)/);
+  if (!match) return null;
+
+  return {
+    name: match[2].toLowerCase(),
+    closing: match[1] === '/',
+    selfClosing: /\/\s*>$/.test(token),
+    raw: token
+  };
+}
+
+/**
+ * Chunks accepted by htmlToMarkdownStream: a Node Readable, any async
+ * iterable of strings or bytes, or a web ReadableStream
+ */
+export type HtmlStreamSource = AsyncIterable<string | Uint8Array> | ReadableStream<string | Uint8Array>;
+
+const DEFAULT_BATCH_SIZE = 64 * 1024;
+
+/**
+ * Converts streamed HTML to Markdown, yielding Markdown chunks as top-level
+ * blocks complete. Memory stays bounded by the batch size and the largest
+ * single block. Links are always written inline and no citations are
+ * produced, since both need the whole document; the 'readability' strategy
+ * is not available for the same reason.
+ * @param source HTML stream
+ * @param options Stream options
+ * @returns Async iterator of Markdown chunks
+ */
+export async function* htmlToMarkdownStream(
+  source: HtmlStreamSource,
+  options: StreamOptions = {}
+): AsyncGenerator<string, void, undefined> {
+  const base: ProcessorOptions = options.preset ? getPreset(options.preset) : {};
+  const baseUrl = options.baseUrl || '';
+  const batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+  const filterOptions: FilterOptions | null = options.filter === false
+    ? null
+    : { ...base.filter, ...options.filter };
+
+  if (filterOptions && filterOptions.strategy === 'readability') {
+    throw new ProcessorError(
+      'The readability strategy needs the whole document and cannot be used when streaming',
+      'STREAM_UNSUPPORTED_STRATEGY'
+    );
+  }
+
+  const converterOptions = { ...base.converter, ...options.converter };
+  const pluginRegistry = resolvePluginRegistry(options.plugins);
+  const mdOptions: MarkdownGeneratorOptions = {
+    ignoreLinks: converterOptions.ignoreLinks || false,
+    ignoreImages: converterOptions.ignoreImages || false,
+    escapeSnob: converterOptions.escapeSpecialChars || false,
+    format: converterOptions.format || 'github',
+    rules: converterOptions.rules,
+    tableFallback: converterOptions.tableFallback || 'html',
+    conversionRules: pluginRegistry.getConversionRules()
+  };
+  const generator = new DefaultMarkdownGenerator(null, mdOptions);
+  const pluginContext: PluginContext = {
+    options: { ...base, ...options, filter: filterOptions || undefined, converter: converterOptions },
+    baseUrl,
+    originalHtml: '',
+    metadata: {}
+  };
+
+  const convertBatch = async (html: string): Promise<string> => {
+    pluginContext.originalHtml = html;
+    const filtered = await pluginRegistry.applyFilterPlugins(html, pluginContext);
+    const doc = await parseHTML(`<body>${await pluginRegistry.runBeforeParse(filtered, pluginContext)}</body>`, options.domBackend);
+    await pluginRegistry.runDocumentHooks('afterParse', doc, pluginContext);
+
+    if (filterOptions) {
+      const filter = new HtmlFilter(
+        filterOptions.threshold || 2,
+        filterOptions.strategy || 'dynamic',
+        filterOptions.ratio || 0.48,
+        filterOptions
+      );
+      await pluginRegistry.runDocumentHooks('beforeFilter', doc, pluginContext);
+      await filter.filterDocument(doc);
+      await pluginRegistry.runDocumentHooks('afterFilter', doc, pluginContext);
+    }
+
+    await pluginRegistry.runDocumentHooks('beforeConvert', doc, pluginContext);
+    await pluginRegistry.runElementHooks(doc.body, pluginContext);
+    const markdown = await generator.convertElement(doc.body, baseUrl);
+    return (await pluginRegistry.applyConvertPlugins(markdown, pluginContext)).trim();
+  };
+
+  const splitter = new HtmlBlockSplitter();
+  let batch = '';
+  let openAncestors: string[] = [];
+
+  const closeAncestors = () => openAncestors
+    .map(tag => `</${parseTag(tag)!.name}>`)
+    .reverse()
+    .join('');
+
+  // Adjacent blocks under the same wrappers share one copy of the wrapper tags
+  const append = (block: HtmlBlock) => {
+    if (block.ancestors.join('') !== openAncestors.join('')) {
+      batch += closeAncestors() + block.ancestors.join('');
+      openAncestors = block.ancestors;
+    }
+    // Whitespace between blocks was dropped by the splitter
+    batch += block.html + '\n';
+  };
+
+  const flush = async (): Promise<string> => {
+    const html = batch + closeAncestors();
+    batch = '';
+    openAncestors = [];
+    return html.trim() ? await convertBatch(html) : '';
+  };
+
+  try {
+    for await (const text of decodeSource(source)) {
+      for (const block of splitter.write(text)) {
+        append(block);
+        if (batch.length >= batchSize) {
+          const markdown = await flush();
+          if (markdown) yield markdown + '\n\n';
+        }
+      }
+    }
+
+    splitter.end().forEach(append);
+    const markdown = await flush();
+    if (markdown) yield markdown + '\n\n';
+  } catch (error: unknown) {
+    if (error instanceof ProcessorError) throw error;
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new ProcessorError(`Streaming conversion failed: ${errorMessage}`, 'STREAM_ERROR', error instanceof Error ? error : undefined);
+  } finally {
+    // A registry created for a plugin list lives as long as the stream
+    if (createsPluginRegistry(options.plugins)) {
+      pluginRegistry.destroy();
+    }
+  }
+}
+
+/**
+ * Reads a stream source as text, decoding bytes as UTF-8
+ */
+async function* decodeSource(source: HtmlStreamSource): AsyncGenerator<string, void, undefined> {
+  const decoder = new TextDecoder('utf-8');
+
+  if (typeof (source as ReadableStream).getReader === 'function') {
+    const reader = (source as ReadableStream<string | Uint8Array>).getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        yield typeof value === 'string' ? value : decoder.decode(value, { stream: true });
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  } else {
+    for await (const chunk of source as AsyncIterable<string | Uint8Array>) {
+      yield typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    }
+  }
+
+  const rest = decoder.decode();
+  if (rest) yield rest;
+}
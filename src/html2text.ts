@@ -1,12 +1,36 @@
 /**
  * HTML to text conversion utility, used for converting HTML to Markdown.
  */
-import { Html2TextOptions } from './types';
-import { parseHTML, getNode } from './dom-adapter';
+import { Html2TextOptions, ConversionRule } from './types';
+import { parseHTML, NODE_TYPES } from './dom-adapter';
+import {
+  TableGrid,
+  buildTableGrid,
+  isLayoutTable,
+  canRenderAsPipeTable,
+  getColumnAlignments,
+  cleanTableHtml,
+  cleanListHtml,
+  getCellText,
+  formatCsvRow
+} from './table-converter';
+
+/**
+ * Elements inside a list item that start a new block rather than continuing the item's text.
+ */
+const LIST_ITEM_BLOCK_TAGS = new Set([
+  'p', 'div', 'pre', 'blockquote', 'table', 'ul', 'ol', 'dl', 'figure', 'details',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'section'
+]);
 
 export class CustomHtml2Text {
   private options: Html2TextOptions;
   private baseUrl: string;
+  // Markdown of children already converted for rules that fell through, reused once by the built-in conversion
+  private convertedChildren = new WeakMap<Node, string>();
+  // Reference numbers by destination and title, and the definitions they were given, for linkStyle 'reference'
+  private linkReferences = new Map<string, number>();
+  private linkDefinitions: string[] = [];
 
   /**
    * Creates an HTML to text converter instance.
@@ -26,6 +50,7 @@ export class CustomHtml2Text {
       escapeSnob: false,
       skipInternalLinks: true,
       includeSuperSub: false,
+      format: 'github',
       ...options
     };
   }
@@ -38,6 +63,29 @@ export class CustomHtml2Text {
     this.options = { ...this.options, ...options };
   }
 
+  /**
+   * Registers an element conversion rule, checked before the built-in conversion.
+   * Rules are tried in the order they were added; re-adding a name replaces the rule in place.
+   * @param name Rule name.
+   * @param rule Rule with a filter and a replacement function.
+   * @returns This converter, for chaining.
+   */
+  addRule(name: string, rule: ConversionRule): CustomHtml2Text {
+    this.options.conversionRules = { ...this.options.conversionRules, [name]: rule };
+    return this;
+  }
+
+  /**
+   * Removes a registered element conversion rule.
+   * @param name Rule name.
+   * @returns This converter, for chaining.
+   */
+  removeRule(name: string): CustomHtml2Text {
+    const { [name]: _removed, ...remaining } = this.options.conversionRules || {};
+    this.options.conversionRules = remaining;
+    return this;
+  }
+
   /**
    * Processes HTML and converts it to Markdown.
    * @param html HTML string.
@@ -48,16 +96,38 @@ export class CustomHtml2Text {
 
     const doc = await parseHTML(html);
     
-    this.cleanDocument(doc);
-    
-    return await this.domToMarkdown(doc.body);
+    return await this.handleElement(doc.body);
+  }
+
+  /**
+   * Converts an already parsed element, such as a filtered document body, without re-parsing.
+   * Scripts, styles and other unwanted elements inside it are removed in place.
+   * @param element Root element.
+   * @returns Converted Markdown.
+   */
+  async handleElement(element: HTMLElement): Promise<string> {
+    if (!element) return '';
+
+    this.linkReferences.clear();
+    this.linkDefinitions = [];
+    this.cleanDocument(element);
+
+    return await this.domToMarkdown(element);
+  }
+
+  /**
+   * Gets the link reference definitions collected by the last conversion when linkStyle is 'reference'.
+   * @returns One `[n]: url "title"` line per definition, or an empty string.
+   */
+  getLinkDefinitions(): string {
+    return this.linkDefinitions.length > 0 ? this.linkDefinitions.join('\n') + '\n' : '';
   }
 
   /**
    * Cleans the document by removing unwanted elements.
-   * @param doc Document object.
+   * @param doc Document or root element.
    */
-  private cleanDocument(doc: Document): void {
+  private cleanDocument(doc: Document | HTMLElement): void {
     const scripts = doc.querySelectorAll('script');
     scripts.forEach(script => script.remove());
 
@@ -80,9 +150,33 @@ export class CustomHtml2Text {
   private async domToMarkdown(element: HTMLElement, _level: number = 0): Promise<string> {
     if (!element) return '';
 
-    let result = '';
+    const converted = this.convertedChildren.get(element);
+    if (converted !== undefined) {
+      this.convertedChildren.delete(element);
+      return converted;
+    }
+
     const tagName = element.tagName.toLowerCase();
 
+    const custom = await this.applyRules(element, tagName);
+    if (custom !== undefined) {
+      return custom;
+    }
+
+    const result = await this.convertElement(element, tagName);
+    this.forgetConvertedChildren(element);
+    return result;
+  }
+
+  /**
+   * Converts a DOM element with the built-in conversion for its tag.
+   * @param element DOM element.
+   * @param tagName Lowercase tag name.
+   * @returns Converted Markdown text.
+   */
+  private async convertElement(element: HTMLElement, tagName: string): Promise<string> {
+    let result = '';
+
     switch (tagName) {
       case 'h1':
       case 'h2':
@@ -111,7 +205,12 @@ export class CustomHtml2Text {
         break;
         
       case 'ol':
-        result += await this.processList(element, '1.') + '\n';
+        if (element.hasAttribute('reversed')) {
+          // Markdown numbers items upwards from the first one, so a countdown keeps its order only as HTML
+          result += cleanListHtml(element, url => this.resolveUrl(url)) + '\n\n';
+        } else {
+          result += await this.processList(element, '1.') + '\n';
+        }
         break;
         
       case 'li':
@@ -149,8 +248,13 @@ export class CustomHtml2Text {
             result += text;
           } else {
             const url = this.resolveUrl(href);
-            const title = element.getAttribute('title') ? ` "${element.getAttribute('title')}"` : '';
-            result += text ? `[${text}](${url}${title})` : `<${url}>`; // Handle empty link text
+            const title = element.getAttribute('title') || '';
+            if (text && !(title === '' && this.isAutolink(text, url))) {
+              result += this.formatLink(text, url, title);
+            } else {
+              // Empty text or text that repeats the URL: emit an autolink
+              result += `<${url.replace(/^mailto:/, '')}>`;
+            }
           }
         }
         break;
@@ -159,8 +263,8 @@ export class CustomHtml2Text {
         if (!this.options.ignoreImages) {
           const src = element.getAttribute('src') || '';
           const alt = element.getAttribute('alt') || '';
-          const title = element.getAttribute('title') ? ` "${element.getAttribute('title')}"` : '';
-          result += `![${alt}](${this.resolveUrl(src)}${title})`;
+          const title = element.getAttribute('title') || '';
+          result += '!' + this.formatLink(alt, this.resolveUrl(src), title);
         }
         break;
         
@@ -182,6 +286,26 @@ export class CustomHtml2Text {
         }
         break;
         
+      case 'del':
+      case 's':
+      case 'strike':
+        if (this.options.format === 'commonmark') {
+          // Strikethrough is a GFM extension; keep it as inline HTML
+          result += '<del>' + (await this.processChildren(element)).trim() + '</del>';
+        } else {
+          result += '~~' + (await this.processChildren(element)).trim() + '~~';
+        }
+        break;
+
+      case 'input':
+        if (element.getAttribute('type') === 'checkbox' && element.closest('li')) {
+          const box = element.hasAttribute('checked') ? '[x]' : '[ ]';
+          // Task lists are a GFM extension; escape the brackets for CommonMark
+          const followedBySpace = /^\s/.test(element.nextSibling?.textContent || '');
+          result += (this.options.format === 'commonmark' ? box.replace(/[[\]]/g, '\\$&') : box) + (followedBySpace ? '' : ' ');
+        }
+        break;
+
       case 'table':
         result += await this.processTable(element) + '\n\n';
         break;
@@ -209,6 +333,69 @@ export class CustomHtml2Text {
     return result;
   }
 
+  /**
+   * Applies custom-format and registered rules to an element.
+   * @param element DOM element.
+   * @param tagName Lowercase tag name.
+   * @returns Markdown from the first rule that handles the element, or undefined.
+   */
+  private async applyRules(element: HTMLElement, tagName: string): Promise<string | undefined> {
+    const candidates = Object.values(this.options.conversionRules || {})
+      .filter(rule => this.matchesRule(element, tagName, rule))
+      .map(rule => rule.replacement);
+
+    const formatRule = this.options.format === 'custom' ? this.options.rules?.[tagName] : undefined;
+    if (formatRule) {
+      candidates.unshift(formatRule);
+    }
+    if (candidates.length === 0) {
+      return undefined;
+    }
+
+    // Children are converted once; if every rule falls through, the built-in conversion reuses them
+    const content = await this.processChildren(element, true);
+    for (const replacement of candidates) {
+      const markdown = replacement(element, content, this.options);
+      if (markdown !== undefined) {
+        this.forgetConvertedChildren(element);
+        return markdown;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Drops the reusable Markdown recorded for an element's children.
+   * @param element Parent element.
+   */
+  private forgetConvertedChildren(element: HTMLElement): void {
+    for (const child of Array.from(element.children)) {
+      this.convertedChildren.delete(child);
+    }
+  }
+
+  /**
+   * Checks whether a conversion rule's filter selects an element.
+   * @param element DOM element.
+   * @param tagName Lowercase tag name.
+   * @param rule Conversion rule.
+   * @returns True if the rule applies.
+   */
+  private matchesRule(element: HTMLElement, tagName: string, rule: ConversionRule): boolean {
+    if (typeof rule.filter === 'function') {
+      return rule.filter(element, this.options);
+    }
+    if (Array.isArray(rule.filter)) {
+      return rule.filter.some(tag => tag.toLowerCase() === tagName);
+    }
+    try {
+      return element.matches(rule.filter);
+    } catch (e) {
+      // Invalid selectors never match
+      return false;
+    }
+  }
+
   /**
    * Gets the text content of an element, trimmed.
    * @param element DOM element.
@@ -222,21 +409,34 @@ export class CustomHtml2Text {
   /**
    * Processes the children of an element.
    * @param element Parent element.
+   * @param record Whether to keep each child's Markdown for the next conversion of that child.
    * @returns Processed Markdown for children.
    */
-  private async processChildren(element: HTMLElement): Promise<string> {
+  private async processChildren(element: HTMLElement, record: boolean = false): Promise<string> {
     if (!element) return '';
     
-    const Node = await getNode();
     let result = '';
     
     // Use for...of loop to handle async operations properly
     for (const node of Array.from(element.childNodes)) {
-      if (node.nodeType === Node.TEXT_NODE) {
+      if (node.nodeType === NODE_TYPES.TEXT_NODE) {
         // Normalize whitespace in text nodes: replace multiple spaces/newlines with a single space
         result += (node.textContent || '').replace(/\s+/g, ' '); 
-      } else if (node.nodeType === Node.ELEMENT_NODE) {
-        result += await this.domToMarkdown(node as HTMLElement);
+      } else if (node.nodeType === NODE_TYPES.ELEMENT_NODE) {
+        const tag = (node as HTMLElement).tagName.toLowerCase();
+        if (tag === 'ul' || tag === 'ol' || tag === 'table') {
+          // Lists and tables start on their own line so indentation stays aligned
+          result = result.replace(/[ \t]+$/, '');
+          if (result && !result.endsWith('\n')) result += '\n';
+        }
+        const markdown = await this.domToMarkdown(node as HTMLElement);
+        if (tag === 'ol' && result.trim() && !result.endsWith('\n\n') && !this.canInterruptParagraph(markdown)) {
+          result += '\n';
+        }
+        if (record) {
+          this.convertedChildren.set(node, markdown);
+        }
+        result += markdown;
       }
     }
 
@@ -245,23 +445,107 @@ export class CustomHtml2Text {
 
   /**
    * Processes a list element (ul or ol) and converts it to Markdown.
+   * Only direct <li> children belong to the list; nested lists are converted
+   * recursively and indented under their parent item.
    * @param element List element.
    * @param marker List marker ('*' for ul, '1.' for ol).
    * @returns Processed Markdown for list.
    */
   private async processList(element: HTMLElement, marker: string): Promise<string> {
-    let result = '';
-    const listItems = element.querySelectorAll('li');
-    for (let i = 0; i < listItems.length; i++) {
-      const li = listItems[i];
-      const content = (await this.processChildren(li)).trim();
-      if (marker === '1.') {
-        result += `${i + 1}. ${content}\n`;
-      } else {
-        result += `${marker} ${content}\n`;
+    const listItems = Array.from(element.children)
+      .filter(child => child.tagName.toLowerCase() === 'li') as HTMLElement[];
+    const ordered = marker === '1.';
+    const startAttr = parseInt(element.getAttribute('start') || '', 10);
+    let number = !isNaN(startAttr) ? startAttr : 1;
+
+    const items: string[] = [];
+    let loose = false;
+
+    for (const li of listItems) {
+      const valueAttr = parseInt(li.getAttribute('value') || '', 10);
+      if (ordered && !isNaN(valueAttr)) {
+        number = valueAttr;
       }
+
+      const itemMarker = ordered ? `${number}.` : marker;
+      const { content, loose: looseItem } = await this.processListItem(li);
+      loose = loose || looseItem;
+
+      // Continuation lines align with the first character after the marker
+      const indent = ' '.repeat(itemMarker.length + 1);
+      const lines = content.split('\n').map((line, index) => {
+        if (index === 0) return `${itemMarker} ${line}`.trimEnd();
+        return line ? indent + line : '';
+      });
+      items.push(lines.join('\n'));
+
+      number++;
     }
-    return result;
+
+    return items.join(loose ? '\n\n' : '\n') + (items.length > 0 ? '\n' : '');
+  }
+
+  /**
+   * Converts the content of a list item, keeping paragraphs, code blocks and
+   * nested lists as separate blocks.
+   * @param li List item element.
+   * @returns Item Markdown (unindented) and whether its blocks are separated by blank lines.
+   */
+  private async processListItem(li: HTMLElement): Promise<{ content: string; loose: boolean }> {
+    const segments: Array<{ markdown: string; block: boolean; list: boolean }> = [];
+    let inline = '';
+
+    const flushInline = () => {
+      const text = inline.replace(/\s+/g, ' ').trim();
+      if (text) segments.push({ markdown: text, block: false, list: false });
+      inline = '';
+    };
+
+    for (const node of Array.from(li.childNodes)) {
+      if (node.nodeType === NODE_TYPES.TEXT_NODE) {
+        inline += node.textContent || '';
+      } else if (node.nodeType === NODE_TYPES.ELEMENT_NODE) {
+        const child = node as HTMLElement;
+        const tag = child.tagName.toLowerCase();
+        if (!LIST_ITEM_BLOCK_TAGS.has(tag)) {
+          inline += await this.domToMarkdown(child);
+          continue;
+        }
+
+        flushInline();
+        const markdown = (await this.domToMarkdown(child)).trim();
+        if (markdown) {
+          segments.push({ markdown, block: true, list: tag === 'ul' || tag === 'ol' });
+        }
+      }
+    }
+    flushInline();
+
+    let content = '';
+    let loose = false;
+    segments.forEach((segment, index) => {
+      if (index > 0) {
+        // Keep a nested list tight against the text it belongs to, unless it could not interrupt that text
+        const tight = segment.list && !segments[index - 1].block && this.canInterruptParagraph(segment.markdown);
+        content += tight ? '\n' : '\n\n';
+        loose = loose || !tight;
+      }
+      content += segment.markdown;
+    });
+
+    return { content, loose };
+  }
+
+  /**
+   * Checks whether converted Markdown can directly follow a line of paragraph text.
+   * CommonMark only lets an ordered list interrupt a paragraph when it starts at 1;
+   * any other start reads as a continuation of the paragraph.
+   * @param markdown Converted Markdown of the following block.
+   * @returns False for an ordered list that does not start at 1.
+   */
+  private canInterruptParagraph(markdown: string): boolean {
+    const start = markdown.match(/^\s*(\d+)[.)] /);
+    return !start || parseInt(start[1], 10) === 1;
   }
 
   /**
@@ -276,31 +560,199 @@ export class CustomHtml2Text {
 
   /**
    * Processes a table element and converts it to Markdown.
+   * Layout tables are unwrapped into their cell contents; data tables become GFM pipe
+   * tables when possible and use the configured fallback otherwise.
    * @param table Table element.
    * @returns Processed Markdown for table.
    */
   private async processTable(table: HTMLElement): Promise<string> {
-    const rows = table.querySelectorAll('tr');
-    let result = '';
+    const grid = buildTableGrid(table);
+
+    if (isLayoutTable(table, grid)) {
+      return this.processLayoutTable(grid);
+    }
+
+    // CommonMark has no table syntax, so every table takes the fallback there
+    if (this.options.format !== 'commonmark' && canRenderAsPipeTable(grid)) {
+      return this.withCaption(grid, await this.renderPipeTable(grid));
+    }
+
+    switch (this.options.tableFallback) {
+      case 'list':
+        return this.withCaption(grid, await this.renderTableAsList(grid));
+      case 'csv':
+        return this.withCaption(grid, this.renderTableAsCsv(grid));
+      default:
+        return cleanTableHtml(table, url => this.resolveUrl(url));
+    }
+  }
+
+  /**
+   * Unwraps a layout table into the converted contents of its cells.
+   * @param grid Normalized table grid.
+   * @returns Cell contents as consecutive blocks.
+   */
+  private async processLayoutTable(grid: TableGrid): Promise<string> {
+    const blocks: string[] = [];
+    for (const row of grid.rows) {
+      for (const cell of row) {
+        if (!cell || !cell.origin) continue;
+        const content = (await this.processChildren(cell.element)).trim();
+        if (content) blocks.push(content);
+      }
+    }
+    return blocks.join('\n\n');
+  }
 
-    for (let i = 0; i < rows.length; i++) {
-      const row = rows[i];
-      const cells = row.querySelectorAll('td, th');
-      const cellContents = [];
-      
-      for (const cell of Array.from(cells)) {
-        cellContents.push((await this.processChildren(cell as HTMLElement)).trim().replace(/\|/g, '\\|'));
+  /**
+   * Renders a table as a GFM pipe table. Positions covered by a span are left empty.
+   * @param grid Normalized table grid with one header row.
+   * @returns Pipe table Markdown.
+   */
+  private async renderPipeTable(grid: TableGrid): Promise<string> {
+    const rows: string[][] = [];
+    for (const row of grid.rows) {
+      const cells: string[] = [];
+      for (const cell of row) {
+        const content = cell && cell.origin ? await this.convertTableCell(cell.element) : '';
+        cells.push(content.replace(/\n+/g, '<br>').replace(/\|/g, '\\|'));
       }
-      
-      result += '| ' + cellContents.join(' | ') + ' |\n';
-      
-      // Add header separator after first row
-      if (i === 0) {
-        result += '| ' + cellContents.map(() => '---').join(' | ') + ' |\n';
+      rows.push(cells);
+    }
+
+    const separator = getColumnAlignments(grid).map(alignment => {
+      if (alignment === 'center') return ':---:';
+      if (alignment === 'right') return '---:';
+      if (alignment === 'left') return ':---';
+      return '---';
+    });
+
+    return [rows[0], separator, ...rows.slice(1)]
+      .map(cells => '| ' + cells.join(' | ') + ' |')
+      .join('\n');
+  }
+
+  /**
+   * Renders each body row as a list item: the first cell labels the item and the
+   * remaining cells become "header: value" sub-items.
+   * @param grid Normalized table grid.
+   * @returns List Markdown.
+   */
+  private async renderTableAsList(grid: TableGrid): Promise<string> {
+    const values = await this.tableValues(grid, cell => this.convertTableCell(cell));
+    const headers = grid.headerRows > 0 ? values[grid.headerRows - 1] : [];
+
+    return values.slice(grid.headerRows).map(row => {
+      const [label, ...rest] = row;
+      const details = rest
+        .map((value, index) => ({ value, header: headers[index + 1] }))
+        .filter(({ value }) => value)
+        .map(({ value, header }) => {
+          const label = header ? `${header}: ` : '';
+          if (!value.includes('\n')) return `  * ${label}${value}`;
+          // Multi-line values (lists, <br>) become a block under the sub-item
+          const block = value.split('\n').map(line => `    ${line}`).join('\n');
+          return `  * ${label.trimEnd()}\n${block}`;
+        });
+      return [`* ${(label || '').replace(/\n+/g, ' ')}`.trimEnd(), ...details].join('\n');
+    }).join('\n');
+  }
+
+  /**
+   * Renders a table as a fenced CSV block of plain cell text.
+   * @param grid Normalized table grid.
+   * @returns Fenced CSV block.
+   */
+  private renderTableAsCsv(grid: TableGrid): string {
+    const lines = grid.rows.map(row => formatCsvRow(row.map(cell => cell ? getCellText(cell.element) : '')));
+    return '```csv\n' + lines.join('\n') + '\n```';
+  }
+
+  /**
+   * Collects a value for every grid position; positions covered by a span repeat
+   * the spanning cell's value so each row stands on its own.
+   * @param grid Normalized table grid.
+   * @param convert Converts a cell element to a value.
+   * @returns Values by row and column.
+   */
+  private async tableValues(grid: TableGrid, convert: (cell: HTMLElement) => Promise<string>): Promise<string[][]> {
+    const converted = new Map<HTMLElement, string>();
+    const values: string[][] = [];
+    for (const row of grid.rows) {
+      const rowValues: string[] = [];
+      for (const cell of row) {
+        if (!cell) {
+          rowValues.push('');
+          continue;
+        }
+        if (!converted.has(cell.element)) {
+          converted.set(cell.element, await convert(cell.element));
+        }
+        rowValues.push(converted.get(cell.element) || '');
       }
+      values.push(rowValues);
     }
+    return values;
+  }
 
-    return result;
+  /**
+   * Converts the content of one table cell to single-block Markdown.
+   * @param cell Table cell element.
+   * @returns Trimmed cell Markdown; line breaks from <br> are kept as newlines.
+   */
+  private async convertTableCell(cell: HTMLElement): Promise<string> {
+    return (await this.processChildren(cell))
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line)
+      .join('\n');
+  }
+
+  /**
+   * Prepends the table caption, if any, as a bold line.
+   * @param grid Normalized table grid.
+   * @param markdown Rendered table.
+   * @returns Markdown with caption.
+   */
+  private withCaption(grid: TableGrid, markdown: string): string {
+    return grid.caption ? `**${grid.caption}**\n\n${markdown}` : markdown;
+  }
+
+  /**
+   * Formats a link or image target, inline or as a numbered reference depending on linkStyle.
+   * Links to the same URL share a reference unless their titles differ; images without alt text stay inline.
+   * @param text Link text or image alt text.
+   * @param url Resolved URL.
+   * @param title Title attribute, or an empty string.
+   * @returns `[text](url "title")` or `[text][n]`.
+   */
+  private formatLink(text: string, url: string, title: string): string {
+    if (this.options.linkStyle !== 'reference' || !text) {
+      return `[${text}](${url}${title ? ` "${title}"` : ''})`;
+    }
+
+    const key = `${url} ${title}`;
+    let refNum = this.linkReferences.get(key);
+    if (refNum === undefined) {
+      refNum = this.linkReferences.size + 1;
+      this.linkReferences.set(key, refNum);
+      const destination = /[\s<>]/.test(url) ? `<${url.replace(/[<>]/g, encodeURIComponent)}>` : url;
+      const titlePart = title ? ` "${title.replace(/"/g, '\\"')}"` : '';
+      this.linkDefinitions.push(`[${refNum}]: ${destination}${titlePart}`);
+    }
+    return `[${text}][${refNum}]`;
+  }
+
+  /**
+   * Checks whether a link's text just repeats its URL, so it can be written as an autolink.
+   * @param text Link text.
+   * @param url Resolved link URL.
+   * @returns True if the link can be an autolink.
+   */
+  private isAutolink(text: string, url: string): boolean {
+    if (/[\s<>]/.test(url)) return false;
+    if (url.startsWith('mailto:')) return text === url.slice('mailto:'.length);
+    return /^https?:\/\//.test(url) && text === url;
   }
 
   /**
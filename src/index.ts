@@ -15,6 +15,33 @@ import { VERSION, API_VERSION, getVersionInfo } from './version';
 export { HtmlProcessor } from './html-processor';
 export { HtmlFilter } from './html-filter';
 export { DefaultMarkdownGenerator } from './markdown-generator';
+export { CustomHtml2Text } from './html2text';
+export { renderFilterReport } from './filter-report';
+export {
+  NoiseMatcher,
+  noiseMatcher,
+  tokenizeName,
+  AD_NOISE_TOKENS,
+  DEFAULT_NOISE_TOKENS,
+  DEFAULT_NOISE_ALLOWLIST
+} from './noise-matcher';
+
+// Streaming conversion
+export {
+  htmlToMarkdownStream,
+  HtmlBlockSplitter,
+  HtmlBlock,
+  HtmlStreamSource
+} from './html-stream';
+
+// Batch processing
+export { processBatch, processBatchIterator } from './batch-processor';
+
+// Worker pool (worker_threads in Node.js, Web Workers in browsers)
+export { WorkerPool, createWorkerPool, WorkerTask } from './worker-pool';
+
+// Pure-JS DOM used where no native DOMParser exists (Web Workers)
+export { LiteDOMParser, parseDocument as parseLiteDocument } from './lite-dom';
 
 // DOM adapter for cross-environment compatibility
 export { 
@@ -30,14 +57,63 @@ export {
 export {
   ProcessorOptions,
   FilterOptions,
+  FilterStrategy,
+  FilterMetric,
+  FilterScoringOptions,
+  ContentSelection,
+  FilterTrace,
+  FilterTraceEntry,
+  FilterTraceMetrics,
+  FilterTraceStage,
   ConverterOptions,
   ConvertOptions,
+  AutoConvertOptions,
+  DomOptions,
+  CleanOptions,
+  StreamOptions,
+  BatchItem,
+  BatchOptions,
+  BatchItemResult,
+  BatchResult,
+  WorkerPoolOptions,
+  DomBackend,
+  DomImplementation,
+  HtmlInput,
+  MarkdownFormat,
+  LinkStyle,
+  ElementRule,
+  ConversionRule,
+  TableFallback,
+  FrontMatterFormat,
+  FrontMatterValue,
+  FrontMatterOptions,
+  FrontMatterContext,
   FilterResult,
   MarkdownResult,
   FilterMetadata,
   MarkdownMetadata,
+  DocumentMetadata,
+  MetadataSource,
+  StructuredDataItem,
+  StructuredDataValue,
+  StructuredDataResult,
+  StructuredDataFormat,
   Plugin,
   PluginContext,
+  PluginStage,
+  PluginHookResult,
+  PluginSelection,
+  PluginRegistryOptions,
+  PluginRegistration,
+  PluginEntry,
+  PluginFailurePolicy,
+  PluginFailure,
+  PluginStats,
+  PageTypeModelData,
+  PageTypeSample,
+  PageTypeTrainingOptions,
+  PageTypeClassMetrics,
+  PageTypeEvaluation,
   PresetName,
   ProcessorError,
   FilterError,
@@ -53,9 +129,38 @@ export {
   pageTypeDetector,
   PageTypeResult,
   PageType,
-  PageCharacteristics
+  BuiltinPageType,
+  PageCharacteristics,
+  PageTypeRule,
+  PageTypeDefinition,
+  PageTypeRuleSet,
+  PageTypeRuleInfo,
+  PageTypeScoringOptions,
+  PageTypeDetectorOptions
 } from './page-type-detector';
 
+// Learned page type classifier
+export {
+  PageTypeModel,
+  trainPageTypeModel,
+  evaluatePageTypeModel,
+  scorePageTypePredictions
+} from './page-type-model';
+
+// Document metadata extraction
+export {
+  MetadataExtractor,
+  metadataExtractor,
+  extractMetadata
+} from './metadata-extractor';
+
+// Structured data extraction
+export {
+  StructuredDataExtractor,
+  structuredDataExtractor,
+  extractStructuredData
+} from './structured-data';
+
 // Convenience functions - Main API
 export {
   htmlToMarkdown,
@@ -93,6 +198,9 @@ export {
   getPluginNames,
   clearPlugins,
   getPluginStats,
+  resetPluginStats,
+  PluginRegistry,
+  createPluginRegistry,
   builtinPlugins,
   useBuiltinPlugins
 } from './plugin-manager';
@@ -0,0 +1,1589 @@
+/**
+ * Lite DOM - Pure-JS HTML parser and minimal DOM for environments with neither
+ * a native DOMParser nor jsdom (Web Workers, Node.js without jsdom).
+ * Implements the subset of the DOM
+ * used by filtering, conversion, page type detection and metadata extraction,
+ * and follows the HTML parsing rules closely enough to produce the same tree
+ * as a browser for ordinary pages (implied html/head/body, void elements,
+ * implicitly closed paragraphs, list items and table parts, raw text elements).
+ */
+
+import { matchesSelector } from './lite-selector';
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+const COMMENT_NODE = 8;
+const DOCUMENT_NODE = 9;
+const DOCUMENT_FRAGMENT_NODE = 11;
+
+export const LiteNodeFilter = {
+  SHOW_ALL: 0xffffffff,
+  SHOW_ELEMENT: 0x1,
+  SHOW_TEXT: 0x4,
+  SHOW_COMMENT: 0x80,
+  FILTER_ACCEPT: 1,
+  FILTER_REJECT: 2,
+  FILTER_SKIP: 3
+};
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta',
+  'param', 'source', 'track', 'wbr', 'basefont', 'bgsound', 'frame', 'keygen'
+]);
+
+/** Elements whose content is raw text, serialized without escaping */
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'xmp', 'iframe', 'noembed', 'noframes']);
+
+/** Elements whose content is text with character references */
+const RCDATA_ELEMENTS = new Set(['title', 'textarea']);
+
+const HEAD_CONTENT = new Set(['base', 'basefont', 'bgsound', 'link', 'meta', 'noscript', 'script', 'style', 'template', 'title']);
+
+/** Start tags that close an open paragraph */
+const CLOSES_PARAGRAPH = new Set([
+  'address', 'article', 'aside', 'blockquote', 'center', 'details', 'dialog', 'dir', 'div', 'dl',
+  'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header',
+  'hgroup', 'hr', 'li', 'dd', 'dt', 'listing', 'main', 'menu', 'nav', 'ol', 'p', 'pre', 'section',
+  'summary', 'table', 'ul', 'xmp', 'plaintext'
+]);
+
+const HEADINGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+
+/** Elements with special parsing rules; end tags of inline elements do not close past them */
+const SPECIAL_ELEMENTS = new Set([
+  'address', 'applet', 'area', 'article', 'aside', 'base', 'basefont', 'bgsound', 'blockquote', 'body',
+  'br', 'button', 'caption', 'center', 'col', 'colgroup', 'dd', 'details', 'dir', 'div', 'dl', 'dt',
+  'embed', 'fieldset', 'figcaption', 'figure', 'footer', 'form', 'frame', 'frameset', 'h1', 'h2', 'h3',
+  'h4', 'h5', 'h6', 'head', 'header', 'hgroup', 'hr', 'html', 'iframe', 'img', 'input', 'keygen', 'li',
+  'link', 'listing', 'main', 'marquee', 'menu', 'meta', 'nav', 'noembed', 'noframes', 'noscript',
+  'object', 'ol', 'p', 'param', 'plaintext', 'pre', 'script', 'section', 'select', 'source', 'style',
+  'summary', 'table', 'tbody', 'td', 'template', 'textarea', 'tfoot', 'th', 'thead', 'title', 'tr',
+  'track', 'ul', 'wbr', 'xmp'
+]);
+
+const DEFAULT_SCOPE = new Set(['applet', 'caption', 'html', 'table', 'td', 'th', 'marquee', 'object', 'template']);
+const BUTTON_SCOPE = new Set([...DEFAULT_SCOPE, 'button']);
+const LIST_ITEM_SCOPE = new Set([...DEFAULT_SCOPE, 'ol', 'ul']);
+const TABLE_SCOPE = new Set(['html', 'table', 'template']);
+
+const FORMATTING_ELEMENTS = new Set(['a', 'b', 'big', 'code', 'em', 'font', 'i', 'nobr', 's', 'small', 'strike', 'strong', 'tt', 'u']);
+
+/** Elements that start a new scope for reopening formatting elements */
+const FORMATTING_SCOPES = new Set(['html', 'applet', 'caption', 'marquee', 'object', 'td', 'th', 'template']);
+
+/** Special start tags that still reopen formatting elements closed by a block */
+const REOPENS_FORMATTING = new Set(['applet', 'area', 'br', 'button', 'embed', 'img', 'input', 'keygen', 'marquee', 'object', 'select', 'wbr']);
+
+/** HTML start tags that end svg/math content */
+const FOREIGN_BREAKOUT = new Set([
+  'b', 'big', 'blockquote', 'body', 'br', 'center', 'code', 'dd', 'div', 'dl', 'dt', 'em', 'embed',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'head', 'hr', 'i', 'img', 'li', 'listing', 'menu', 'meta', 'nobr',
+  'ol', 'p', 'pre', 'ruby', 's', 'small', 'span', 'strong', 'strike', 'sub', 'sup', 'table', 'tt', 'u',
+  'ul', 'var'
+]);
+
+/** Case-sensitive svg names restored after tokenizing */
+const SVG_TAG_NAMES = new Map(
+  ['clipPath', 'foreignObject', 'linearGradient', 'radialGradient', 'textPath', 'feGaussianBlur', 'feOffset', 'feBlend']
+    .map(name => [name.toLowerCase(), name] as [string, string])
+);
+const SVG_ATTRIBUTE_NAMES = new Map(
+  ['viewBox', 'preserveAspectRatio', 'gradientUnits', 'gradientTransform', 'patternUnits', 'clipPathUnits']
+    .map(name => [name.toLowerCase(), name] as [string, string])
+);
+
+const TABLE_SECTIONS = new Set(['tbody', 'thead', 'tfoot']);
+/** Nodes where misplaced content is moved in front of the table instead */
+const TABLE_CONTEXT = new Set(['table', 'tbody', 'thead', 'tfoot', 'tr']);
+const TABLE_CONTENT = new Set(['caption', 'colgroup', 'col', 'tbody', 'thead', 'tfoot', 'tr', 'td', 'th', 'script', 'style', 'template', 'form']);
+
+/** Character references that decode without a trailing semicolon in text */
+const LEGACY_ENTITIES = new Set(['amp', 'lt', 'gt', 'quot', 'nbsp', 'copy', 'reg', 'shy', 'deg', 'para', 'sect', 'middot']);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'', nbsp: '\u00a0', ensp: '\u2002', emsp: '\u2003',
+  thinsp: '\u2009', zwnj: '\u200c', zwj: '\u200d', lrm: '\u200e', rlm: '\u200f', shy: '\u00ad',
+  copy: '©', reg: '®', trade: '™', deg: '°', plusmn: '±', times: '×',
+  divide: '÷', micro: 'µ', para: '¶', sect: '§', middot: '·', cent: '¢',
+  pound: '£', yen: '¥', euro: '€', curren: '¤', laquo: '«', raquo: '»',
+  lsquo: '‘', rsquo: '’', sbquo: '‚', ldquo: '“', rdquo: '”', bdquo: '„',
+  lsaquo: '‹', rsaquo: '›', ndash: '–', mdash: '—', hellip: '…', bull: '•',
+  prime: '′', Prime: '″', dagger: '†', Dagger: '‡', permil: '‰', iexcl: '¡',
+  iquest: '¿', ordf: 'ª', ordm: 'º', sup1: '¹', sup2: '²', sup3: '³',
+  frac14: '¼', frac12: '½', frac34: '¾', acute: '´', uml: '¨', cedil: '¸',
+  macr: '¯', not: '¬', brvbar: '¦', larr: '←', uarr: '↑', rarr: '→',
+  darr: '↓', harr: '↔', lArr: '⇐', rArr: '⇒', hArr: '⇔', minus: '−',
+  le: '≤', ge: '≥', ne: '≠', asymp: '≈', equiv: '≡', infin: '∞',
+  sum: '∑', prod: '∏', radic: '√', part: '∂', nabla: '∇', isin: '∈',
+  cap: '∩', cup: '∪', int: '∫', there4: '∴', sim: '∼', loz: '◊',
+  spades: '♠', clubs: '♣', hearts: '♥', diams: '♦', check: '✓', star: '☆',
+  starf: '★', circ: 'ˆ', tilde: '˜', fnof: 'ƒ', oline: '‾', frasl: '⁄',
+  Agrave: 'À', Aacute: 'Á', Acirc: 'Â', Atilde: 'Ã', Auml: 'Ä', Aring: 'Å',
+  AElig: 'Æ', Ccedil: 'Ç', Egrave: 'È', Eacute: 'É', Ecirc: 'Ê', Euml: 'Ë',
+  Igrave: 'Ì', Iacute: 'Í', Icirc: 'Î', Iuml: 'Ï', ETH: 'Ð', Ntilde: 'Ñ',
+  Ograve: 'Ò', Oacute: 'Ó', Ocirc: 'Ô', Otilde: 'Õ', Ouml: 'Ö', Oslash: 'Ø',
+  Ugrave: 'Ù', Uacute: 'Ú', Ucirc: 'Û', Uuml: 'Ü', Yacute: 'Ý', THORN: 'Þ',
+  szlig: 'ß', agrave: 'à', aacute: 'á', acirc: 'â', atilde: 'ã', auml: 'ä',
+  aring: 'å', aelig: 'æ', ccedil: 'ç', egrave: 'è', eacute: 'é', ecirc: 'ê',
+  euml: 'ë', igrave: 'ì', iacute: 'í', icirc: 'î', iuml: 'ï', eth: 'ð',
+  ntilde: 'ñ', ograve: 'ò', oacute: 'ó', ocirc: 'ô', otilde: 'õ', ouml: 'ö',
+  oslash: 'ø', ugrave: 'ù', uacute: 'ú', ucirc: 'û', uuml: 'ü', yacute: 'ý',
+  thorn: 'þ', yuml: 'ÿ', OElig: 'Œ', oelig: 'œ', Scaron: 'Š', scaron: 'š',
+  Yuml: 'Ÿ', alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ε',
+  lambda: 'λ', mu: 'μ', pi: 'π', sigma: 'σ', tau: 'τ', phi: 'φ',
+  omega: 'ω', Delta: 'Δ', Sigma: 'Σ', Omega: 'Ω'
+};
+
+/**
+ * Base class for all lite DOM nodes
+ */
+export class LiteNode {
+  readonly childNodes: LiteNode[] = [];
+  parentNode: LiteNode | null = null;
+
+  constructor(
+    readonly nodeType: number,
+    readonly nodeName: string,
+    public ownerDocument: LiteDocument | null
+  ) {}
+
+  get parentElement(): LiteElement | null {
+    return this.parentNode && this.parentNode.nodeType === ELEMENT_NODE ? this.parentNode as LiteElement : null;
+  }
+
+  get firstChild(): LiteNode | null {
+    return this.childNodes[0] || null;
+  }
+
+  get lastChild(): LiteNode | null {
+    return this.childNodes[this.childNodes.length - 1] || null;
+  }
+
+  get nextSibling(): LiteNode | null {
+    if (!this.parentNode) return null;
+    const siblings = this.parentNode.childNodes;
+    return siblings[siblings.indexOf(this) + 1] || null;
+  }
+
+  get previousSibling(): LiteNode | null {
+    if (!this.parentNode) return null;
+    const siblings = this.parentNode.childNodes;
+    return siblings[siblings.indexOf(this) - 1] || null;
+  }
+
+  get nodeValue(): string | null {
+    return null;
+  }
+
+  get textContent(): string | null {
+    let text = '';
+    walk(this, node => {
+      if (node.nodeType === TEXT_NODE) text += (node as LiteText).data;
+    });
+    return text;
+  }
+
+  set textContent(value: string | null) {
+    while (this.childNodes.length > 0) {
+      this.removeChild(this.childNodes[0]);
+    }
+    if (value) {
+      this.appendChild(new LiteText(value, this.ownerDocument));
+    }
+  }
+
+  hasChildNodes(): boolean {
+    return this.childNodes.length > 0;
+  }
+
+  appendChild<T extends LiteNode>(node: T): T {
+    return this.insertBefore(node, null);
+  }
+
+  insertBefore<T extends LiteNode>(node: T, reference: LiteNode | null): T {
+    if (node.nodeType === DOCUMENT_FRAGMENT_NODE) {
+      for (const child of node.childNodes.slice()) {
+        this.insertBefore(child, reference);
+      }
+      return node;
+    }
+    if (node.contains(this)) {
+      throw new Error('The new child element contains the parent');
+    }
+    if (node.parentNode) {
+      node.parentNode.removeChild(node);
+    }
+    const index = reference ? this.childNodes.indexOf(reference) : -1;
+    if (index === -1) {
+      this.childNodes.push(node);
+    } else {
+      this.childNodes.splice(index, 0, node);
+    }
+    node.parentNode = this;
+    adopt(node, this.nodeType === DOCUMENT_NODE ? this as unknown as LiteDocument : this.ownerDocument);
+    return node;
+  }
+
+  removeChild<T extends LiteNode>(node: T): T {
+    const index = this.childNodes.indexOf(node);
+    if (index === -1) {
+      throw new Error('The node to be removed is not a child of this node');
+    }
+    this.childNodes.splice(index, 1);
+    node.parentNode = null;
+    return node;
+  }
+
+  replaceChild<T extends LiteNode>(node: LiteNode, oldChild: T): T {
+    this.insertBefore(node, oldChild);
+    return this.removeChild(oldChild);
+  }
+
+  append(...nodes: Array<LiteNode | string>): void {
+    for (const node of nodes) {
+      this.appendChild(typeof node === 'string' ? new LiteText(node, this.ownerDocument) : node);
+    }
+  }
+
+  remove(): void {
+    if (this.parentNode) {
+      this.parentNode.removeChild(this);
+    }
+  }
+
+  contains(other: LiteNode | null): boolean {
+    for (let node = other; node; node = node.parentNode) {
+      if (node === this) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Merges adjacent text nodes and drops empty ones, recursively
+   */
+  normalize(): void {
+    for (let i = 0; i < this.childNodes.length; i++) {
+      const child = this.childNodes[i];
+      if (child.nodeType === TEXT_NODE) {
+        const text = child as LiteText;
+        while (this.childNodes[i + 1] && this.childNodes[i + 1].nodeType === TEXT_NODE) {
+          text.data += (this.childNodes[i + 1] as LiteText).data;
+          this.removeChild(this.childNodes[i + 1]);
+        }
+        if (!text.data) {
+          this.removeChild(text);
+          i--;
+        }
+      } else {
+        child.normalize();
+      }
+    }
+  }
+
+  cloneNode(deep = false): LiteNode {
+    const clone = this.cloneShallow();
+    if (deep) {
+      for (const child of this.childNodes) {
+        clone.appendChild(child.cloneNode(true));
+      }
+    }
+    return clone;
+  }
+
+  protected cloneShallow(): LiteNode {
+    return new LiteNode(this.nodeType, this.nodeName, this.ownerDocument);
+  }
+}
+
+export class LiteText extends LiteNode {
+  constructor(public data: string, ownerDocument: LiteDocument | null) {
+    super(TEXT_NODE, '#text', ownerDocument);
+  }
+
+  get nodeValue(): string {
+    return this.data;
+  }
+
+  get textContent(): string {
+    return this.data;
+  }
+
+  set textContent(value: string) {
+    this.data = value || '';
+  }
+
+  protected cloneShallow(): LiteNode {
+    return new LiteText(this.data, this.ownerDocument);
+  }
+}
+
+export class LiteComment extends LiteNode {
+  constructor(public data: string, ownerDocument: LiteDocument | null) {
+    super(COMMENT_NODE, '#comment', ownerDocument);
+  }
+
+  get nodeValue(): string {
+    return this.data;
+  }
+
+  get textContent(): string {
+    return this.data;
+  }
+
+  set textContent(value: string) {
+    this.data = value || '';
+  }
+
+  protected cloneShallow(): LiteNode {
+    return new LiteComment(this.data, this.ownerDocument);
+  }
+}
+
+/**
+ * Shared element and document queries
+ */
+abstract class LiteParentNode extends LiteNode {
+  get children(): LiteElement[] {
+    return this.childNodes.filter(isElement);
+  }
+
+  get childElementCount(): number {
+    return this.children.length;
+  }
+
+  get firstElementChild(): LiteElement | null {
+    return this.childNodes.find(isElement) || null;
+  }
+
+  get lastElementChild(): LiteElement | null {
+    const children = this.children;
+    return children[children.length - 1] || null;
+  }
+
+  querySelector(selector: string): LiteElement | null {
+    let found: LiteElement | null = null;
+    walkElements(this, element => {
+      if (matchesSelector(element, selector)) {
+        found = element;
+        return true;
+      }
+      return false;
+    });
+    return found;
+  }
+
+  querySelectorAll(selector: string): LiteElement[] {
+    const found: LiteElement[] = [];
+    walkElements(this, element => {
+      if (matchesSelector(element, selector)) found.push(element);
+      return false;
+    });
+    return found;
+  }
+
+  getElementsByTagName(tagName: string): LiteElement[] {
+    const name = tagName.toLowerCase();
+    const found: LiteElement[] = [];
+    walkElements(this, element => {
+      if (name === '*' || element.localName === name) found.push(element);
+      return false;
+    });
+    return found;
+  }
+
+  getElementsByClassName(classNames: string): LiteElement[] {
+    const wanted = classNames.split(/\s+/).filter(Boolean);
+    const found: LiteElement[] = [];
+    walkElements(this, element => {
+      const classes = element.className.split(/\s+/);
+      if (wanted.length > 0 && wanted.every(name => classes.includes(name))) found.push(element);
+      return false;
+    });
+    return found;
+  }
+}
+
+export class LiteElement extends LiteParentNode {
+  readonly localName: string;
+  readonly namespace: 'html' | 'svg' | 'math';
+  private readonly attributeList: Array<{ name: string; value: string }> = [];
+
+  constructor(localName: string, ownerDocument: LiteDocument | null, namespace: 'html' | 'svg' | 'math' = 'html') {
+    super(ELEMENT_NODE, namespace === 'html' ? localName.toUpperCase() : localName, ownerDocument);
+    this.localName = localName;
+    this.namespace = namespace;
+  }
+
+  get tagName(): string {
+    return this.nodeName;
+  }
+
+  get attributes(): Array<{ name: string; value: string }> {
+    return this.attributeList;
+  }
+
+  get id(): string {
+    return this.getAttribute('id') || '';
+  }
+
+  set id(value: string) {
+    this.setAttribute('id', value);
+  }
+
+  get className(): string {
+    return this.getAttribute('class') || '';
+  }
+
+  set className(value: string) {
+    this.setAttribute('class', value);
+  }
+
+  get nextElementSibling(): LiteElement | null {
+    for (let node = this.nextSibling; node; node = node.nextSibling) {
+      if (isElement(node)) return node;
+    }
+    return null;
+  }
+
+  get previousElementSibling(): LiteElement | null {
+    for (let node = this.previousSibling; node; node = node.previousSibling) {
+      if (isElement(node)) return node;
+    }
+    return null;
+  }
+
+  getAttribute(name: string): string | null {
+    const attribute = this.findAttribute(name);
+    return attribute ? attribute.value : null;
+  }
+
+  getAttributeNames(): string[] {
+    return this.attributeList.map(attribute => attribute.name);
+  }
+
+  hasAttribute(name: string): boolean {
+    return this.findAttribute(name) !== undefined;
+  }
+
+  hasAttributes(): boolean {
+    return this.attributeList.length > 0;
+  }
+
+  setAttribute(name: string, value: string): void {
+    const attribute = this.findAttribute(name);
+    if (attribute) {
+      attribute.value = String(value);
+    } else {
+      this.attributeList.push({ name: this.namespace === 'html' ? name.toLowerCase() : name, value: String(value) });
+    }
+  }
+
+  removeAttribute(name: string): void {
+    const attribute = this.findAttribute(name);
+    if (attribute) {
+      this.attributeList.splice(this.attributeList.indexOf(attribute), 1);
+    }
+  }
+
+  matches(selector: string): boolean {
+    return matchesSelector(this, selector);
+  }
+
+  closest(selector: string): LiteElement | null {
+    for (let element: LiteElement | null = this; element; element = element.parentElement) {
+      if (element.matches(selector)) return element;
+    }
+    return null;
+  }
+
+  get innerHTML(): string {
+    return this.childNodes.map(child => serializeNode(child, this)).join('');
+  }
+
+  set innerHTML(html: string) {
+    this.textContent = '';
+    const document = this.ownerDocument || new LiteDocument();
+    const container = parseFragment(html, document);
+    while (container.firstChild) {
+      this.appendChild(container.firstChild);
+    }
+  }
+
+  get outerHTML(): string {
+    return serializeNode(this, null);
+  }
+
+  protected cloneShallow(): LiteNode {
+    const clone = new LiteElement(this.localName, this.ownerDocument, this.namespace);
+    for (const attribute of this.attributeList) {
+      clone.attributeList.push({ ...attribute });
+    }
+    return clone;
+  }
+
+  private findAttribute(name: string) {
+    const wanted = this.namespace === 'html' ? name.toLowerCase() : name;
+    return this.attributeList.find(attribute => attribute.name === wanted);
+  }
+}
+
+export class LiteDocument extends LiteParentNode {
+  constructor() {
+    super(DOCUMENT_NODE, '#document', null);
+  }
+
+  get textContent(): null {
+    return null;
+  }
+
+  set textContent(_value: string | null) {
+    // Setting textContent on a document has no effect
+  }
+
+  get documentElement(): LiteElement | null {
+    return this.firstElementChild;
+  }
+
+  get head(): LiteElement | null {
+    const html = this.documentElement;
+    return html ? html.children.find(child => child.localName === 'head') || null : null;
+  }
+
+  get body(): LiteElement | null {
+    const html = this.documentElement;
+    return html ? html.children.find(child => child.localName === 'body') || null : null;
+  }
+
+  get title(): string {
+    const title = this.querySelector('title');
+    return title ? (title.textContent || '').replace(/\s+/g, ' ').trim() : '';
+  }
+
+  get implementation() {
+    return {
+      createHTMLDocument: (title?: string): LiteDocument => {
+        const document = parseDocument('');
+        if (title !== undefined) {
+          const titleElement = document.createElement('title');
+          titleElement.textContent = title;
+          document.head!.appendChild(titleElement);
+        }
+        return document;
+      }
+    };
+  }
+
+  createElement(tagName: string): LiteElement {
+    return new LiteElement(tagName.toLowerCase(), this);
+  }
+
+  importNode<T extends LiteNode>(node: T, deep = false): T {
+    const clone = node.cloneNode(deep) as T;
+    adopt(clone, this);
+    return clone;
+  }
+
+  createTextNode(data: string): LiteText {
+    return new LiteText(data, this);
+  }
+
+  createComment(data: string): LiteComment {
+    return new LiteComment(data, this);
+  }
+
+  getElementById(id: string): LiteElement | null {
+    let found: LiteElement | null = null;
+    walkElements(this, element => {
+      if (element.getAttribute('id') === id) {
+        found = element;
+        return true;
+      }
+      return false;
+    });
+    return found;
+  }
+
+  /**
+   * Iterates nodes in document order under root, filtered by whatToShow
+   */
+  createNodeIterator(
+    root: LiteNode,
+    whatToShow: number = LiteNodeFilter.SHOW_ALL,
+    filter: ((node: LiteNode) => number) | { acceptNode(node: LiteNode): number } | null = null
+  ) {
+    let next: LiteNode | null = root;
+    const following = (node: LiteNode): LiteNode | null => {
+      if (node.childNodes.length > 0) return node.childNodes[0];
+      for (let current: LiteNode | null = node; current && current !== root; current = current.parentNode) {
+        const sibling = current.nextSibling;
+        if (sibling) return sibling;
+      }
+      return null;
+    };
+    const accepts = (node: LiteNode): boolean => {
+      if (!(whatToShow & (1 << (node.nodeType - 1)))) return false;
+      if (!filter) return true;
+      const result = typeof filter === 'function' ? filter(node) : filter.acceptNode(node);
+      return result === LiteNodeFilter.FILTER_ACCEPT;
+    };
+
+    return {
+      root,
+      whatToShow,
+      nextNode(): LiteNode | null {
+        while (next) {
+          const node: LiteNode = next;
+          next = following(node);
+          if (accepts(node)) return node;
+        }
+        return null;
+      }
+    };
+  }
+
+  protected cloneShallow(): LiteNode {
+    return new LiteDocument();
+  }
+}
+
+/**
+ * DOMParser replacement producing lite documents
+ */
+export class LiteDOMParser {
+  parseFromString(html: string, _type: string = 'text/html'): LiteDocument {
+    return parseDocument(html);
+  }
+}
+
+/**
+ * Parses an HTML document
+ * @param html HTML source
+ * @returns Document with html, head and body always present
+ */
+export function parseDocument(html: string): LiteDocument {
+  const builder = new TreeBuilder(new LiteDocument());
+  builder.run(String(html));
+  return builder.document;
+}
+
+/**
+ * Parses HTML as body content, returning a detached body element holding the nodes
+ */
+function parseFragment(html: string, document: LiteDocument): LiteElement {
+  const builder = new TreeBuilder(document, true);
+  builder.run(String(html));
+  return builder.fragmentRoot!;
+}
+
+/**
+ * Creates the window-like object the DOM adapter exposes
+ */
+export function createLiteWindow() {
+  return {
+    DOMParser: LiteDOMParser,
+    document: parseDocument('<!DOCTYPE html><html><body></body></html>'),
+    NodeFilter: LiteNodeFilter,
+    Node: {
+      ELEMENT_NODE,
+      TEXT_NODE,
+      COMMENT_NODE,
+      DOCUMENT_NODE
+    }
+  };
+}
+
+function isElement(node: LiteNode): node is LiteElement {
+  return node.nodeType === ELEMENT_NODE;
+}
+
+function adopt(node: LiteNode, document: LiteDocument | null): void {
+  if (node.ownerDocument === document || node.nodeType === DOCUMENT_NODE) return;
+  node.ownerDocument = document;
+  for (const child of node.childNodes) {
+    adopt(child, document);
+  }
+}
+
+function walk(root: LiteNode, visit: (node: LiteNode) => void): void {
+  for (const child of root.childNodes) {
+    visit(child);
+    walk(child, visit);
+  }
+}
+
+/**
+ * Visits descendant elements in document order until visit returns true
+ */
+function walkElements(root: LiteNode, visit: (element: LiteElement) => boolean): boolean {
+  for (const child of root.childNodes) {
+    if (isElement(child) && (visit(child) || walkElements(child, visit))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// ---------------------------------------------------------------------------
+// Serialization
+
+function serializeNode(node: LiteNode, parent: LiteElement | null): string {
+  switch (node.nodeType) {
+    case TEXT_NODE: {
+      const data = (node as LiteText).data;
+      const container = parent || node.parentElement;
+      if (container && container.namespace === 'html' &&
+          (RAW_TEXT_ELEMENTS.has(container.localName) || container.localName === 'plaintext')) {
+        return data;
+      }
+      return escapeText(data);
+    }
+    case COMMENT_NODE:
+      return `<!--${(node as LiteComment).data}-->`;
+    case ELEMENT_NODE: {
+      const element = node as LiteElement;
+      const name = element.localName;
+      let html = '<' + name;
+      for (const attribute of element.attributes) {
+        html += ` ${attribute.name}="${escapeAttribute(attribute.value)}"`;
+      }
+      html += '>';
+      if (element.namespace === 'html' && VOID_ELEMENTS.has(name)) {
+        return html;
+      }
+      if (element.namespace === 'html' && (name === 'pre' || name === 'textarea' || name === 'listing')) {
+        const first = element.firstChild;
+        if (first && first.nodeType === TEXT_NODE && (first as LiteText).data.startsWith('\n')) {
+          html += '\n';
+        }
+      }
+      return html + element.innerHTML + `</${name}>`;
+    }
+    default:
+      return node.childNodes.map(child => serializeNode(child, null)).join('');
+  }
+}
+
+function escapeText(text: string): string {
+  return text.replace(/[&<>\u00a0]/g, char =>
+    char === '&' ? '&amp;' : char === '<' ? '&lt;' : char === '>' ? '&gt;' : '&nbsp;'
+  );
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/[&"\u00a0]/g, char =>
+    char === '&' ? '&amp;' : char === '"' ? '&quot;' : '&nbsp;'
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+
+/**
+ * Decodes character references
+ * @param text Text with character references
+ * @param inAttribute Attribute values only decode named references ending in ';'
+ */
+function decodeEntities(text: string, inAttribute = false): string {
+  if (text.indexOf('&') === -1) return text;
+
+  return text.replace(/&(#[0-9]+;?|#[xX][0-9a-fA-F]+;?|[a-zA-Z][a-zA-Z0-9]*;?)/g, (match, reference: string, offset: number, input: string) => {
+    if (reference[0] === '#') {
+      const hex = reference[1] === 'x' || reference[1] === 'X';
+      const code = parseInt(reference.slice(hex ? 2 : 1), hex ? 16 : 10);
+      if (!code || code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff)) return '\ufffd';
+      return String.fromCodePoint(code);
+    }
+
+    const terminated = reference.endsWith(';');
+    const name = terminated ? reference.slice(0, -1) : reference;
+    if (terminated && NAMED_ENTITIES[name] !== undefined) {
+      return NAMED_ENTITIES[name];
+    }
+    if (!inAttribute) {
+      // Legacy references decode even when run into following text ("&copy2024")
+      for (let length = Math.min(name.length, 6); length >= 2; length--) {
+        const prefix = name.slice(0, length);
+        if (LEGACY_ENTITIES.has(prefix)) {
+          return NAMED_ENTITIES[prefix] + reference.slice(length);
+        }
+      }
+    } else if (!terminated && LEGACY_ENTITIES.has(name) && input[offset + match.length] !== '=') {
+      return NAMED_ENTITIES[name];
+    }
+    return match;
+  });
+}
+
+/**
+ * Tokenizes HTML and builds the tree in one pass
+ */
+class TreeBuilder {
+  readonly document: LiteDocument;
+  fragmentRoot: LiteElement | null = null;
+
+  private html: LiteElement | null = null;
+  private head: LiteElement | null = null;
+  private body: LiteElement | null = null;
+  private stack: LiteElement[] = [];
+  /** Open formatting elements, reopened after a block closes them (<p><b>x</p><p>y) */
+  private formatting: Array<{ element: LiteElement; scope: LiteElement }> = [];
+  private source = '';
+  private position = 0;
+  private skipNewline = false;
+
+  constructor(document: LiteDocument, fragment = false) {
+    this.document = document;
+    if (fragment) {
+      // Fragments parse as body content of a detached container
+      this.fragmentRoot = new LiteElement('body', document);
+      this.html = new LiteElement('html', document);
+      this.head = new LiteElement('head', document);
+      this.body = this.fragmentRoot;
+      this.stack = [this.html, this.fragmentRoot];
+    }
+  }
+
+  run(source: string): void {
+    this.source = source.replace(/\r\n?/g, '\n');
+    this.position = 0;
+
+    while (this.position < this.source.length) {
+      const tagStart = this.source.indexOf('<', this.position);
+      if (tagStart === -1) {
+        this.text(decodeEntities(this.source.slice(this.position)));
+        break;
+      }
+      if (tagStart > this.position) {
+        this.text(decodeEntities(this.source.slice(this.position, tagStart)));
+      }
+      this.position = tagStart;
+      this.markup();
+    }
+
+    if (!this.fragmentRoot) {
+      this.ensureBody();
+    }
+  }
+
+  /**
+   * Consumes the markup starting at '<'
+   */
+  private markup(): void {
+    const source = this.source;
+    const start = this.position;
+    const next = source[start + 1];
+
+    if (source.startsWith('<!--', start)) {
+      let end = source.indexOf('-->', start + 4);
+      // "<!-->" and "<!--->" are empty comments
+      if (source.startsWith('>', start + 4)) end = start + 2;
+      else if (source.startsWith('->', start + 4)) end = start + 3;
+      const data = end === -1 ? source.slice(start + 4) : source.slice(start + 4, Math.max(end, start + 4));
+      this.comment(data);
+      this.position = end === -1 ? source.length : end + 3;
+      return;
+    }
+
+    if (next === '!' || next === '?') {
+      const end = source.indexOf('>', start);
+      const content = source.slice(start + 2, end === -1 ? source.length : end);
+      this.position = end === -1 ? source.length : end + 1;
+      if (!/^doctype/i.test(content)) {
+        // Bogus comment (processing instructions, CDATA outside foreign content)
+        this.comment(next === '?' ? '?' + content : content);
+      }
+      return;
+    }
+
+    if (next === '/' && /[a-zA-Z]/.test(source[start + 2] || '')) {
+      const match = /^<\/([^\s/>]+)[^>]*>?/.exec(source.slice(start, source.indexOf('>', start) + 1 || source.length));
+      const end = source.indexOf('>', start);
+      this.position = end === -1 ? source.length : end + 1;
+      this.endTag(match![1].toLowerCase());
+      return;
+    }
+
+    if (next === '/' ) {
+      // "</>" is dropped; "</ ..." becomes a bogus comment
+      const end = source.indexOf('>', start);
+      if (source[start + 2] !== '>') {
+        this.comment(source.slice(start + 2, end === -1 ? source.length : end));
+      }
+      this.position = end === -1 ? source.length : end + 1;
+      return;
+    }
+
+    if (/[a-zA-Z]/.test(next || '')) {
+      this.startTag();
+      return;
+    }
+
+    // A lone '<' is text
+    this.text('<');
+    this.position = start + 1;
+  }
+
+  private startTag(): void {
+    const source = this.source;
+    let position = this.position + 1;
+    const nameMatch = /^[^\s/>]+/.exec(source.slice(position, position + 256))!;
+    const rawName = nameMatch[0];
+    position += rawName.length;
+
+    const attributes: Array<{ name: string; value: string }> = [];
+    let selfClosing = false;
+
+    while (position < source.length) {
+      while (/[\s/]/.test(source[position] || '')) {
+        selfClosing = source[position] === '/';
+        position++;
+      }
+      if (position >= source.length || source[position] === '>') break;
+      selfClosing = false;
+
+      const attributeMatch = /^[^\s/>][^\s/>=]*/.exec(source.slice(position, position + 1024));
+      const attributeName = attributeMatch ? attributeMatch[0] : source[position];
+      position += attributeName.length;
+      while (/\s/.test(source[position] || '')) position++;
+
+      let value = '';
+      if (source[position] === '=') {
+        position++;
+        while (/\s/.test(source[position] || '')) position++;
+        const quote = source[position];
+        if (quote === '"' || quote === '\'') {
+          const close = source.indexOf(quote, position + 1);
+          value = source.slice(position + 1, close === -1 ? source.length : close);
+          position = close === -1 ? source.length : close + 1;
+        } else {
+          const valueMatch = /^[^\s>]*/.exec(source.slice(position, position + 4096))!;
+          value = valueMatch[0];
+          position += value.length;
+        }
+      }
+
+      const name = attributeName.toLowerCase();
+      if (!attributes.some(attribute => attribute.name === name)) {
+        attributes.push({ name, value: decodeEntities(value, true) });
+      }
+    }
+    this.position = position + 1;
+
+    const name = rawName.toLowerCase();
+    const element = this.insertStartTag(name, attributes, selfClosing);
+    if (!element || element.namespace !== 'html') return;
+
+    if (RAW_TEXT_ELEMENTS.has(name) || RCDATA_ELEMENTS.has(name)) {
+      this.rawText(element, RCDATA_ELEMENTS.has(name));
+    } else if (name === 'plaintext') {
+      this.insertText(element, this.source.slice(this.position));
+      this.position = this.source.length;
+    }
+  }
+
+  /**
+   * Reads the content of a raw text element up to its end tag
+   */
+  private rawText(element: LiteElement, decode: boolean): void {
+    const pattern = new RegExp(`</${element.localName}(?=[\\s/>])`, 'ig');
+    pattern.lastIndex = this.position;
+    const match = pattern.exec(this.source);
+    const end = match ? match.index : this.source.length;
+    let text = this.source.slice(this.position, end);
+    if (element.localName === 'textarea' && text.startsWith('\n')) text = text.slice(1);
+    if (text) {
+      this.insertText(element, decode ? decodeEntities(text) : text);
+    }
+
+    const close = match ? this.source.indexOf('>', end) : -1;
+    this.position = close === -1 ? this.source.length : close + 1;
+    this.popElement(element);
+  }
+
+  private insertStartTag(name: string, attributes: Array<{ name: string; value: string }>, selfClosing: boolean): LiteElement | null {
+    this.skipNewline = false;
+
+    if (name === 'html') {
+      this.ensureHtml();
+      this.mergeAttributes(this.html!, attributes);
+      return null;
+    }
+
+    if (!this.body) {
+      if (name === 'head') {
+        if (!this.head) {
+          this.ensureHtml();
+          this.head = this.createElement('head', attributes);
+          this.html!.appendChild(this.head);
+          this.stack.push(this.head);
+        }
+        return null;
+      }
+      if (HEAD_CONTENT.has(name)) {
+        this.ensureHead();
+        const parent = this.currentNode().localName === 'html' ? this.head! : this.currentNode();
+        return this.insertElement(parent, name, attributes, VOID_ELEMENTS.has(name));
+      }
+      if (name === 'body') {
+        this.ensureHead();
+        this.body = this.createElement('body', attributes);
+        this.html!.appendChild(this.body);
+        this.stack = [this.html!, this.body];
+        return null;
+      }
+      if (name === 'frameset') {
+        return null;
+      }
+      this.ensureBody();
+    }
+
+    if (this.inForeignContent() && FOREIGN_BREAKOUT.has(name)) {
+      // HTML elements end svg/math content
+      while (this.stack.length > 2 && this.currentNode().namespace !== 'html') this.stack.pop();
+    }
+
+    const current = this.currentNode();
+
+    if (this.inForeignContent()) {
+      const element = this.createForeignElement(name, attributes, current.namespace);
+      current.appendChild(element);
+      if (!selfClosing) this.stack.push(element);
+      return element;
+    }
+
+    switch (name) {
+      case 'body':
+        this.mergeAttributes(this.body!, attributes);
+        return null;
+      case 'head':
+      case 'frameset':
+        return null;
+      case 'li':
+        this.closeListItem(['li'], LIST_ITEM_SCOPE);
+        break;
+      case 'dd':
+      case 'dt':
+        this.closeListItem(['dd', 'dt'], DEFAULT_SCOPE);
+        break;
+      case 'option':
+        if (current.localName === 'option') this.stack.pop();
+        break;
+      case 'optgroup':
+        if (current.localName === 'option') this.stack.pop();
+        if (this.currentNode().localName === 'optgroup') this.stack.pop();
+        break;
+      case 'a': {
+        const open = this.findFormatting('a');
+        if (open) {
+          this.adoptionAgency('a');
+          this.removeFormatting(open.element);
+        }
+        break;
+      }
+      case 'button':
+        if (this.hasInScope('button', DEFAULT_SCOPE)) this.popUntil('button');
+        break;
+      case 'caption':
+      case 'colgroup':
+      case 'tbody':
+      case 'thead':
+      case 'tfoot':
+        if (this.hasInScope('table', TABLE_SCOPE)) this.clearToTable();
+        break;
+      case 'col':
+        if (this.hasInScope('table', TABLE_SCOPE)) {
+          this.clearToTable();
+          if (this.currentNode().localName === 'table') {
+            this.insertElement(this.currentNode(), 'colgroup', [], false);
+          }
+        }
+        break;
+      case 'tr':
+        if (this.hasInScope('table', TABLE_SCOPE)) {
+          this.clearToTableBody();
+          if (this.currentNode().localName === 'table') {
+            this.insertElement(this.currentNode(), 'tbody', [], false);
+          }
+        }
+        break;
+      case 'td':
+      case 'th':
+        if (this.hasInScope('table', TABLE_SCOPE)) {
+          this.clearToTableRow();
+          if (this.currentNode().localName === 'table') {
+            this.insertElement(this.currentNode(), 'tbody', [], false);
+          }
+          if (TABLE_SECTIONS.has(this.currentNode().localName)) {
+            this.insertElement(this.currentNode(), 'tr', [], false);
+          }
+        }
+        break;
+      case 'table':
+        break;
+    }
+
+    if (CLOSES_PARAGRAPH.has(name) && this.hasInScope('p', BUTTON_SCOPE)) {
+      this.popUntil('p');
+    }
+    if (HEADINGS.has(name) && HEADINGS.has(this.currentNode().localName)) {
+      this.stack.pop();
+    }
+    if (!SPECIAL_ELEMENTS.has(name) || REOPENS_FORMATTING.has(name)) {
+      this.reconstructFormatting();
+    }
+
+    const namespace = name === 'svg' ? 'svg' : name === 'math' ? 'math' : 'html';
+    if (namespace !== 'html') {
+      const element = this.createForeignElement(name, attributes, namespace);
+      this.insertNode(element);
+      if (!selfClosing) this.stack.push(element);
+      return element;
+    }
+
+    const parent = this.currentNode();
+    const element = this.createElement(name, attributes);
+    if (TABLE_CONTEXT.has(parent.localName) && !TABLE_CONTENT.has(name) &&
+        !(name === 'input' && /^hidden$/i.test(element.getAttribute('type') || ''))) {
+      this.fosterParent(element);
+    } else {
+      parent.appendChild(element);
+    }
+    if (!VOID_ELEMENTS.has(name)) {
+      this.stack.push(element);
+    }
+    if (FORMATTING_ELEMENTS.has(name)) {
+      this.formatting = this.formatting.filter(entry => this.stack.includes(entry.scope));
+      this.formatting.push({ element, scope: this.formattingScope() });
+    }
+    if (name === 'pre' || name === 'listing') {
+      this.skipNewline = true;
+    }
+    return element;
+  }
+
+  private endTag(name: string): void {
+    this.skipNewline = false;
+
+    if (!this.body) {
+      for (let i = this.stack.length - 1; i > 0; i--) {
+        if (this.stack[i].localName === name) {
+          this.stack.length = i;
+          return;
+        }
+      }
+      if (name !== 'br' && name !== 'p') return;
+      this.ensureBody();
+    }
+
+    if (this.inForeignContent()) {
+      for (let i = this.stack.length - 1; i > 0; i--) {
+        const element = this.stack[i];
+        if (element.localName.toLowerCase() === name) {
+          this.stack.length = i;
+          return;
+        }
+        if (element.namespace === 'html') break;
+      }
+    }
+
+    switch (name) {
+      case 'body':
+      case 'html':
+      case 'head':
+        return;
+      case 'br':
+        this.insertStartTag('br', [], false);
+        return;
+      case 'p':
+        if (!this.hasInScope('p', BUTTON_SCOPE)) {
+          this.insertStartTag('p', [], false);
+        }
+        this.popUntil('p');
+        return;
+      case 'li':
+        if (this.hasInScope('li', LIST_ITEM_SCOPE)) this.popUntil('li');
+        return;
+      case 'table':
+      case 'tbody':
+      case 'thead':
+      case 'tfoot':
+      case 'tr':
+      case 'caption':
+      case 'colgroup':
+        if (this.hasInScope(name, TABLE_SCOPE)) this.popUntil(name);
+        return;
+      case 'td':
+      case 'th':
+        if (this.hasInScope(name, TABLE_SCOPE)) this.popUntil(name);
+        return;
+    }
+
+    if (SPECIAL_ELEMENTS.has(name) || HEADINGS.has(name)) {
+      if (HEADINGS.has(name)) {
+        for (let i = this.stack.length - 1; i > 0; i--) {
+          const element = this.stack[i];
+          if (HEADINGS.has(element.localName)) {
+            this.stack.length = i;
+            return;
+          }
+          if (DEFAULT_SCOPE.has(element.localName)) return;
+        }
+        return;
+      }
+      if (this.hasInScope(name, DEFAULT_SCOPE)) this.popUntil(name);
+      return;
+    }
+
+    if (FORMATTING_ELEMENTS.has(name) && this.adoptionAgency(name)) {
+      return;
+    }
+
+    // Inline end tags close the nearest match, but not past a block
+    for (let i = this.stack.length - 1; i > 0; i--) {
+      const element = this.stack[i];
+      if (element.localName === name) {
+        this.stack.length = i;
+        return;
+      }
+      if (SPECIAL_ELEMENTS.has(element.localName)) return;
+    }
+  }
+
+  /**
+   * Closes a formatting element, splitting it around any blocks opened inside
+   * it (the HTML "adoption agency" algorithm, without the Noah's Ark clause)
+   * @returns False when the element is not an open formatting element
+   */
+  private adoptionAgency(name: string): boolean {
+    for (let round = 0; round < 8; round++) {
+      const entry = this.findFormatting(name);
+      if (!entry) return round > 0;
+
+      const formattingElement = entry.element;
+      const formattingIndex = this.stack.indexOf(formattingElement);
+      if (formattingIndex === -1) {
+        this.removeFormatting(formattingElement);
+        return true;
+      }
+      if (!this.hasElementInScope(formattingElement)) return true;
+
+      let furthestBlock: LiteElement | null = null;
+      for (let i = formattingIndex + 1; i < this.stack.length; i++) {
+        if (SPECIAL_ELEMENTS.has(this.stack[i].localName)) {
+          furthestBlock = this.stack[i];
+          break;
+        }
+      }
+      if (!furthestBlock) {
+        this.stack.length = formattingIndex;
+        this.removeFormatting(formattingElement);
+        return true;
+      }
+
+      const commonAncestor = this.stack[formattingIndex - 1];
+      let bookmark = this.formatting.indexOf(entry);
+      let lastNode: LiteElement = furthestBlock;
+      let nodeIndex = this.stack.indexOf(furthestBlock);
+
+      for (let inner = 1; ; inner++) {
+        nodeIndex--;
+        const node = this.stack[nodeIndex];
+        if (node === formattingElement) break;
+
+        let nodeEntry = this.formatting.findIndex(candidate => candidate.element === node);
+        if (inner > 3 && nodeEntry !== -1) {
+          this.formatting.splice(nodeEntry, 1);
+          if (nodeEntry < bookmark) bookmark--;
+          nodeEntry = -1;
+        }
+        if (nodeEntry === -1) {
+          this.stack.splice(nodeIndex, 1);
+          continue;
+        }
+
+        const clone = node.cloneNode(false) as LiteElement;
+        this.formatting[nodeEntry].element = clone;
+        this.stack[nodeIndex] = clone;
+        if (lastNode === furthestBlock) bookmark = nodeEntry + 1;
+        clone.appendChild(lastNode);
+        lastNode = clone;
+      }
+
+      if (TABLE_CONTEXT.has(commonAncestor.localName)) {
+        this.fosterParent(lastNode);
+      } else {
+        commonAncestor.appendChild(lastNode);
+      }
+
+      const replacement = formattingElement.cloneNode(false) as LiteElement;
+      while (furthestBlock.firstChild) {
+        replacement.appendChild(furthestBlock.firstChild);
+      }
+      furthestBlock.appendChild(replacement);
+
+      this.formatting.splice(bookmark, 0, { element: replacement, scope: entry.scope });
+      this.formatting.splice(this.formatting.indexOf(entry), 1);
+      this.stack.splice(this.stack.indexOf(formattingElement), 1);
+      this.stack.splice(this.stack.indexOf(furthestBlock) + 1, 0, replacement);
+    }
+    return true;
+  }
+
+  /**
+   * Reopens formatting elements that a block closed before their end tag
+   */
+  private reconstructFormatting(): void {
+    if (this.formatting.length === 0) return;
+
+    const scope = this.formattingScope();
+    const entries = this.formatting.filter(entry => entry.scope === scope);
+    let start = entries.length;
+    while (start > 0 && !this.stack.includes(entries[start - 1].element)) {
+      start--;
+    }
+
+    for (let i = start; i < entries.length; i++) {
+      const clone = entries[i].element.cloneNode(false) as LiteElement;
+      this.insertNode(clone);
+      this.stack.push(clone);
+      entries[i].element = clone;
+    }
+  }
+
+  /**
+   * Latest open formatting element with the given name in the current scope
+   */
+  private findFormatting(name: string) {
+    const scope = this.formattingScope();
+    for (let i = this.formatting.length - 1; i >= 0; i--) {
+      const entry = this.formatting[i];
+      if (entry.scope === scope && entry.element.localName === name) return entry;
+    }
+    return null;
+  }
+
+  private removeFormatting(element: LiteElement): void {
+    this.formatting = this.formatting.filter(entry => entry.element !== element);
+    const index = this.stack.indexOf(element);
+    if (index > 0) this.stack.splice(index, 1);
+  }
+
+  private formattingScope(): LiteElement {
+    for (let i = this.stack.length - 1; i > 0; i--) {
+      if (FORMATTING_SCOPES.has(this.stack[i].localName)) return this.stack[i];
+    }
+    return this.stack[0];
+  }
+
+  private text(data: string): void {
+    if (!data) return;
+
+    if (this.skipNewline) {
+      this.skipNewline = false;
+      if (data[0] === '\n') data = data.slice(1);
+      if (!data) return;
+    }
+
+    if (!this.body) {
+      const leading = /^[ \t\n\f]*/.exec(data)![0];
+      if (leading) {
+        const current = this.stack[this.stack.length - 1];
+        if (current && current !== this.html) this.insertText(current, leading);
+        else if (this.html && this.head && !this.stack.includes(this.head)) this.insertText(this.html, leading);
+      }
+      data = data.slice(leading.length);
+      if (!data) return;
+      this.ensureBody();
+    }
+
+    const current = this.currentNode();
+    if (TABLE_CONTEXT.has(current.localName) && current.namespace === 'html') {
+      if (/[^ \t\n\f]/.test(data)) {
+        this.fosterParent(new LiteText(data, this.document));
+      } else {
+        this.insertText(current, data);
+      }
+      return;
+    }
+    if (!this.inForeignContent()) {
+      this.reconstructFormatting();
+    }
+    this.insertText(this.currentNode(), data);
+  }
+
+  private comment(data: string): void {
+    const node = new LiteComment(data, this.document);
+    if (this.stack.length === 0) {
+      this.document.appendChild(node);
+    } else {
+      this.currentNode().appendChild(node);
+    }
+  }
+
+  private insertText(parent: LiteNode, data: string): void {
+    const last = parent.lastChild;
+    if (last && last.nodeType === TEXT_NODE) {
+      (last as LiteText).data += data;
+    } else {
+      parent.appendChild(new LiteText(data, this.document));
+    }
+  }
+
+  private insertElement(parent: LiteElement, name: string, attributes: Array<{ name: string; value: string }>, isVoid: boolean): LiteElement {
+    const element = this.createElement(name, attributes);
+    parent.appendChild(element);
+    if (!isVoid) this.stack.push(element);
+    return element;
+  }
+
+  private insertNode(node: LiteNode): void {
+    const parent = this.currentNode();
+    if (TABLE_CONTEXT.has(parent.localName) && parent.namespace === 'html') {
+      this.fosterParent(node);
+    } else {
+      parent.appendChild(node);
+    }
+  }
+
+  /**
+   * Moves content misplaced inside a table in front of the table
+   */
+  private fosterParent(node: LiteNode): void {
+    let table: LiteElement | null = null;
+    for (let i = this.stack.length - 1; i >= 0; i--) {
+      if (this.stack[i].localName === 'table') {
+        table = this.stack[i];
+        break;
+      }
+    }
+    if (!table || !table.parentNode) {
+      this.currentNode().appendChild(node);
+      return;
+    }
+    const previous = table.previousSibling;
+    if (node.nodeType === TEXT_NODE && previous && previous.nodeType === TEXT_NODE) {
+      (previous as LiteText).data += (node as LiteText).data;
+      return;
+    }
+    table.parentNode.insertBefore(node, table);
+  }
+
+  private createElement(name: string, attributes: Array<{ name: string; value: string }>): LiteElement {
+    const element = new LiteElement(name, this.document);
+    attributes.forEach(attribute => element.setAttribute(attribute.name, attribute.value));
+    return element;
+  }
+
+  private createForeignElement(name: string, attributes: Array<{ name: string; value: string }>, namespace: 'svg' | 'math' | 'html'): LiteElement {
+    const svg = namespace === 'svg';
+    const element = new LiteElement(svg ? SVG_TAG_NAMES.get(name) || name : name, this.document, namespace);
+    attributes.forEach(attribute =>
+      element.setAttribute(svg ? SVG_ATTRIBUTE_NAMES.get(attribute.name) || attribute.name : attribute.name, attribute.value)
+    );
+    return element;
+  }
+
+  private mergeAttributes(element: LiteElement, attributes: Array<{ name: string; value: string }>): void {
+    for (const attribute of attributes) {
+      if (!element.hasAttribute(attribute.name)) {
+        element.setAttribute(attribute.name, attribute.value);
+      }
+    }
+  }
+
+  private ensureHtml(): void {
+    if (!this.html) {
+      this.html = new LiteElement('html', this.document);
+      this.document.appendChild(this.html);
+      this.stack = [this.html];
+    }
+  }
+
+  private ensureHead(): void {
+    this.ensureHtml();
+    if (!this.head) {
+      this.head = new LiteElement('head', this.document);
+      this.html!.appendChild(this.head);
+    }
+  }
+
+  private ensureBody(): void {
+    this.ensureHead();
+    if (!this.body) {
+      this.body = new LiteElement('body', this.document);
+      this.html!.appendChild(this.body);
+      this.stack = [this.html!, this.body];
+    }
+  }
+
+  private currentNode(): LiteElement {
+    return this.stack[this.stack.length - 1];
+  }
+
+  private inForeignContent(): boolean {
+    const current = this.stack[this.stack.length - 1];
+    return !!current && current.namespace !== 'html' &&
+      !(current.namespace === 'svg' && ['foreignObject', 'desc', 'title'].includes(current.localName));
+  }
+
+  private hasElementInScope(target: LiteElement): boolean {
+    for (let i = this.stack.length - 1; i >= 0; i--) {
+      const element = this.stack[i];
+      if (element === target) return true;
+      if (DEFAULT_SCOPE.has(element.localName) || element.namespace !== 'html') return false;
+    }
+    return false;
+  }
+
+  private hasInScope(name: string, boundaries: Set<string>): boolean {
+    for (let i = this.stack.length - 1; i >= 0; i--) {
+      const element = this.stack[i];
+      if (element.localName === name && element.namespace === 'html') return true;
+      if (boundaries.has(element.localName) || element.namespace !== 'html') return false;
+    }
+    return false;
+  }
+
+  private popUntil(name: string): void {
+    for (let i = this.stack.length - 1; i > 0; i--) {
+      if (this.stack[i].localName === name) {
+        this.stack.length = i;
+        return;
+      }
+    }
+  }
+
+  private popElement(element: LiteElement): void {
+    const index = this.stack.lastIndexOf(element);
+    if (index > 0) this.stack.length = index;
+  }
+
+  private closeListItem(names: string[], scope: Set<string>): void {
+    for (let i = this.stack.length - 1; i > 0; i--) {
+      const element = this.stack[i];
+      if (names.includes(element.localName)) {
+        if (this.hasInScope(element.localName, scope)) this.stack.length = i;
+        return;
+      }
+      if (SPECIAL_ELEMENTS.has(element.localName) && !['address', 'div', 'p'].includes(element.localName)) {
+        return;
+      }
+    }
+  }
+
+  private clearToTable(): void {
+    while (this.stack.length > 1 && this.currentNode().localName !== 'table') this.stack.pop();
+  }
+
+  private clearToTableBody(): void {
+    while (this.stack.length > 1 && !['table', 'tbody', 'thead', 'tfoot'].includes(this.currentNode().localName)) {
+      this.stack.pop();
+    }
+  }
+
+  private clearToTableRow(): void {
+    while (this.stack.length > 1 && !['table', 'tbody', 'thead', 'tfoot', 'tr'].includes(this.currentNode().localName)) {
+      this.stack.pop();
+    }
+  }
+}
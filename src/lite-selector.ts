@@ -0,0 +1,444 @@
+/**
+ * Lite Selector - CSS selector parsing and matching for the lite DOM.
+ * Supports type, universal, id, class and attribute selectors, the four
+ * combinators, selector lists and the structural pseudo-classes used in
+ * content filtering (:not, :first-child, :last-child, :only-child, :empty,
+ * :root, :nth-child, :nth-last-child, :first-of-type, :last-of-type, :nth-of-type).
+ */
+
+/**
+ * Element surface the matcher needs
+ */
+export interface SelectableElement {
+  localName: string;
+  parentElement: SelectableElement | null;
+  previousElementSibling: SelectableElement | null;
+  nextElementSibling: SelectableElement | null;
+  children: SelectableElement[];
+  childNodes: ArrayLike<unknown>;
+  getAttribute(name: string): string | null;
+}
+
+type Combinator = ' ' | '>' | '+' | '~';
+type AttributeOperator = '=' | '~=' | '|=' | '^=' | '$=' | '*=';
+
+interface AttributeTest {
+  name: string;
+  operator?: AttributeOperator;
+  value?: string;
+  caseInsensitive: boolean;
+}
+
+type Pseudo =
+  | { kind: 'not'; selectors: ComplexSelector[] }
+  | { kind: 'nth'; a: number; b: number; fromEnd: boolean; ofType: boolean }
+  | { kind: 'only-child' | 'empty' | 'root' };
+
+interface CompoundSelector {
+  tag: string | null;
+  ids: string[];
+  classes: string[];
+  attributes: AttributeTest[];
+  pseudos: Pseudo[];
+}
+
+interface ComplexSelector {
+  compounds: CompoundSelector[];
+  /** combinators[i] joins compounds[i] and compounds[i + 1] */
+  combinators: Combinator[];
+}
+
+const selectorCache = new Map<string, ComplexSelector[]>();
+
+/**
+ * Parses a selector list, caching the result
+ * @param selector Selector text
+ * @returns Parsed selector list
+ * @throws SyntaxError for invalid or unsupported selectors
+ */
+export function parseSelector(selector: string): ComplexSelector[] {
+  let parsed = selectorCache.get(selector);
+  if (!parsed) {
+    parsed = new SelectorParser(selector).parseList();
+    selectorCache.set(selector, parsed);
+  }
+  return parsed;
+}
+
+/**
+ * Tests an element against a selector list
+ * @param element Element to test
+ * @param selector Selector text
+ * @returns True if any selector in the list matches
+ */
+export function matchesSelector(element: SelectableElement, selector: string): boolean {
+  return matchesList(element, parseSelector(selector));
+}
+
+function matchesList(element: SelectableElement, selectors: ComplexSelector[]): boolean {
+  return selectors.some(complex => matchesComplex(element, complex, complex.compounds.length - 1));
+}
+
+function matchesComplex(element: SelectableElement, complex: ComplexSelector, position: number): boolean {
+  if (!matchesCompound(element, complex.compounds[position])) {
+    return false;
+  }
+  if (position === 0) {
+    return true;
+  }
+
+  const combinator = complex.combinators[position - 1];
+  switch (combinator) {
+    case '>': {
+      const parent = element.parentElement;
+      return !!parent && matchesComplex(parent, complex, position - 1);
+    }
+    case ' ': {
+      for (let ancestor = element.parentElement; ancestor; ancestor = ancestor.parentElement) {
+        if (matchesComplex(ancestor, complex, position - 1)) return true;
+      }
+      return false;
+    }
+    case '+': {
+      const previous = element.previousElementSibling;
+      return !!previous && matchesComplex(previous, complex, position - 1);
+    }
+    case '~': {
+      for (let sibling = element.previousElementSibling; sibling; sibling = sibling.previousElementSibling) {
+        if (matchesComplex(sibling, complex, position - 1)) return true;
+      }
+      return false;
+    }
+  }
+}
+
+function matchesCompound(element: SelectableElement, compound: CompoundSelector): boolean {
+  if (compound.tag && compound.tag !== element.localName) {
+    return false;
+  }
+
+  if (compound.ids.length > 0 && !compound.ids.every(id => element.getAttribute('id') === id)) {
+    return false;
+  }
+
+  if (compound.classes.length > 0) {
+    const classes = (element.getAttribute('class') || '').split(/\s+/);
+    if (!compound.classes.every(name => classes.includes(name))) {
+      return false;
+    }
+  }
+
+  if (!compound.attributes.every(test => matchesAttribute(element, test))) {
+    return false;
+  }
+
+  return compound.pseudos.every(pseudo => matchesPseudo(element, pseudo));
+}
+
+function matchesAttribute(element: SelectableElement, test: AttributeTest): boolean {
+  const actual = element.getAttribute(test.name);
+  if (actual === null) return false;
+  if (!test.operator) return true;
+
+  const value = test.caseInsensitive ? test.value!.toLowerCase() : test.value!;
+  const subject = test.caseInsensitive ? actual.toLowerCase() : actual;
+
+  switch (test.operator) {
+    case '=':
+      return subject === value;
+    case '~=':
+      return value.length > 0 && !/\s/.test(value) && subject.split(/\s+/).includes(value);
+    case '|=':
+      return subject === value || subject.startsWith(value + '-');
+    case '^=':
+      return value.length > 0 && subject.startsWith(value);
+    case '$=':
+      return value.length > 0 && subject.endsWith(value);
+    case '*=':
+      return value.length > 0 && subject.includes(value);
+  }
+}
+
+function matchesPseudo(element: SelectableElement, pseudo: Pseudo): boolean {
+  switch (pseudo.kind) {
+    case 'not':
+      return !matchesList(element, pseudo.selectors);
+    case 'root':
+      return element.parentElement === null;
+    case 'empty':
+      return Array.from(element.childNodes).every(node => {
+        const child = node as { nodeType: number; data?: string };
+        return child.nodeType === 8 || (child.nodeType === 3 && !child.data);
+      });
+    case 'only-child':
+      return !element.previousElementSibling && !element.nextElementSibling;
+    case 'nth': {
+      const parent = element.parentElement;
+      if (!parent) return false;
+      let siblings = parent.children;
+      if (pseudo.ofType) {
+        siblings = siblings.filter(sibling => sibling.localName === element.localName);
+      }
+      const index = siblings.indexOf(element);
+      const position = pseudo.fromEnd ? siblings.length - index : index + 1;
+      if (pseudo.a === 0) return position === pseudo.b;
+      const n = (position - pseudo.b) / pseudo.a;
+      return Number.isInteger(n) && n >= 0;
+    }
+  }
+}
+
+/**
+ * Recursive-descent parser for selector lists
+ */
+class SelectorParser {
+  private position = 0;
+
+  constructor(private readonly source: string) {}
+
+  parseList(): ComplexSelector[] {
+    const selectors: ComplexSelector[] = [];
+    do {
+      this.skipWhitespace();
+      selectors.push(this.parseComplex());
+      this.skipWhitespace();
+    } while (this.consume(','));
+
+    if (this.position < this.source.length) {
+      this.fail();
+    }
+    return selectors;
+  }
+
+  private parseComplex(): ComplexSelector {
+    const compounds = [this.parseCompound()];
+    const combinators: Combinator[] = [];
+
+    while (this.position < this.source.length) {
+      const hadWhitespace = this.skipWhitespace();
+      const next = this.peek();
+      if (next === ',' || next === ')' || next === undefined) break;
+
+      let combinator: Combinator = ' ';
+      if (next === '>' || next === '+' || next === '~') {
+        combinator = next;
+        this.position++;
+        this.skipWhitespace();
+      } else if (!hadWhitespace) {
+        this.fail();
+      }
+      combinators.push(combinator);
+      compounds.push(this.parseCompound());
+    }
+
+    return { compounds, combinators };
+  }
+
+  private parseCompound(): CompoundSelector {
+    const compound: CompoundSelector = { tag: null, ids: [], classes: [], attributes: [], pseudos: [] };
+    const start = this.position;
+
+    if (this.consume('*')) {
+      // Universal selector matches any tag
+    } else if (this.isIdentifierStart()) {
+      compound.tag = this.readIdentifier().toLowerCase();
+    }
+
+    while (this.position < this.source.length) {
+      const char = this.peek();
+      if (char === '#') {
+        this.position++;
+        compound.ids.push(this.readIdentifier());
+      } else if (char === '.') {
+        this.position++;
+        compound.classes.push(this.readIdentifier());
+      } else if (char === '[') {
+        this.position++;
+        compound.attributes.push(this.parseAttribute());
+      } else if (char === ':') {
+        this.position++;
+        compound.pseudos.push(this.parsePseudo());
+      } else {
+        break;
+      }
+    }
+
+    if (this.position === start) {
+      this.fail();
+    }
+    return compound;
+  }
+
+  private parseAttribute(): AttributeTest {
+    this.skipWhitespace();
+    const name = this.readIdentifier().toLowerCase();
+    this.skipWhitespace();
+
+    if (this.consume(']')) {
+      return { name, caseInsensitive: false };
+    }
+
+    const operatorMatch = this.source.slice(this.position).match(/^([~|^$*]?=)/);
+    if (!operatorMatch) this.fail();
+    const operator = operatorMatch![1] as AttributeOperator;
+    this.position += operator.length;
+    this.skipWhitespace();
+
+    const quote = this.peek();
+    const value = quote === '"' || quote === '\'' ? this.readString() : this.readIdentifier();
+    this.skipWhitespace();
+
+    let caseInsensitive = false;
+    if (/[iIsS]/.test(this.peek() || '')) {
+      caseInsensitive = this.source[this.position++].toLowerCase() === 'i';
+      this.skipWhitespace();
+    }
+    if (!this.consume(']')) this.fail();
+
+    return { name, operator, value, caseInsensitive };
+  }
+
+  private parsePseudo(): Pseudo {
+    const name = this.readIdentifier().toLowerCase();
+
+    switch (name) {
+      case 'not': {
+        this.expect('(');
+        const selectors = this.parseNested();
+        this.expect(')');
+        return { kind: 'not', selectors };
+      }
+      case 'first-child':
+        return { kind: 'nth', a: 0, b: 1, fromEnd: false, ofType: false };
+      case 'last-child':
+        return { kind: 'nth', a: 0, b: 1, fromEnd: true, ofType: false };
+      case 'first-of-type':
+        return { kind: 'nth', a: 0, b: 1, fromEnd: false, ofType: true };
+      case 'last-of-type':
+        return { kind: 'nth', a: 0, b: 1, fromEnd: true, ofType: true };
+      case 'only-child':
+      case 'empty':
+      case 'root':
+        return { kind: name };
+      case 'nth-child':
+      case 'nth-last-child':
+      case 'nth-of-type':
+      case 'nth-last-of-type': {
+        this.expect('(');
+        const close = this.source.indexOf(')', this.position);
+        if (close === -1) this.fail();
+        const [a, b] = parseNth(this.source.slice(this.position, close), () => this.fail());
+        this.position = close + 1;
+        return { kind: 'nth', a, b, fromEnd: name.includes('last'), ofType: name.endsWith('of-type') };
+      }
+      default:
+        throw new SyntaxError(`'${this.source}' uses the unsupported pseudo-class :${name}`);
+    }
+  }
+
+  private parseNested(): ComplexSelector[] {
+    const selectors: ComplexSelector[] = [];
+    do {
+      this.skipWhitespace();
+      selectors.push(this.parseComplex());
+      this.skipWhitespace();
+    } while (this.consume(','));
+    return selectors;
+  }
+
+  private readIdentifier(): string {
+    let result = '';
+    while (this.position < this.source.length) {
+      const char = this.source[this.position];
+      if (char === '\\') {
+        result += this.readEscape();
+      } else if (/[\w\-\u00A0-\uFFFF]/.test(char)) {
+        result += char;
+        this.position++;
+      } else {
+        break;
+      }
+    }
+    if (!result) this.fail();
+    return result;
+  }
+
+  private readString(): string {
+    const quote = this.source[this.position++];
+    let result = '';
+    while (this.position < this.source.length) {
+      const char = this.source[this.position];
+      if (char === quote) {
+        this.position++;
+        return result;
+      }
+      if (char === '\\') {
+        result += this.readEscape();
+      } else {
+        result += char;
+        this.position++;
+      }
+    }
+    return this.fail();
+  }
+
+  private readEscape(): string {
+    this.position++; // backslash
+    const hex = this.source.slice(this.position).match(/^[0-9a-fA-F]{1,6}\s?/);
+    if (hex) {
+      this.position += hex[0].length;
+      return String.fromCodePoint(parseInt(hex[0], 16) || 0xfffd);
+    }
+    return this.source[this.position++] || '';
+  }
+
+  private isIdentifierStart(): boolean {
+    const char = this.peek();
+    return char !== undefined && /[a-zA-Z_\-\\\u00A0-\uFFFF]/.test(char);
+  }
+
+  private skipWhitespace(): boolean {
+    const start = this.position;
+    while (/\s/.test(this.source[this.position] || '')) {
+      this.position++;
+    }
+    return this.position > start;
+  }
+
+  private peek(): string | undefined {
+    return this.source[this.position];
+  }
+
+  private consume(char: string): boolean {
+    if (this.source[this.position] === char) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(char: string): void {
+    if (!this.consume(char)) this.fail();
+  }
+
+  private fail(): never {
+    throw new SyntaxError(`'${this.source}' is not a valid selector`);
+  }
+}
+
+/**
+ * Parses the an+b argument of :nth-child and friends
+ */
+function parseNth(argument: string, fail: () => never): [number, number] {
+  const value = argument.trim().toLowerCase().replace(/\s+/g, '');
+  if (value === 'odd') return [2, 1];
+  if (value === 'even') return [2, 0];
+
+  const match = value.match(/^([+-]?\d*)n([+-]\d+)?$/);
+  if (match) {
+    const a = match[1] === '' || match[1] === '+' ? 1 : match[1] === '-' ? -1 : parseInt(match[1], 10);
+    return [a, match[2] ? parseInt(match[2], 10) : 0];
+  }
+  if (/^[+-]?\d+$/.test(value)) return [0, parseInt(value, 10)];
+  return fail();
+}
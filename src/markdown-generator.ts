@@ -145,9 +145,68 @@ export class DefaultMarkdownGenerator {
     return [convertedText, references.join('')];
   }
   
+  /**
+   * Appends link reference definitions after the Markdown they belong to.
+   * @param markdown Markdown text with [text][n] links.
+   * @param definitions Link definitions, one per line.
+   * @returns Markdown followed by its definitions.
+   */
+  private appendDefinitions(markdown: string, definitions: string): string {
+    return definitions ? markdown.replace(/\s*$/, '\n\n') + definitions : markdown;
+  }
+
+  /**
+   * Removes blank lines and stray spaces before code fences.
+   * Fences indented as list item content are left alone.
+   * @param markdown Markdown text.
+   * @returns Cleaned Markdown.
+   */
+  private cleanupFences(markdown: string): string {
+    return markdown.replace(/^(?:[ \t]*\n)*[ \t]?```/gm, '```');
+  }
+
+  /**
+   * Merges per-call options over the generator options and conversion defaults.
+   * @param html2textOptions Per-call options.
+   * @returns Final options.
+   */
+  private resolveOptions(html2textOptions: Html2TextOptions): MarkdownGeneratorOptions {
+    const defaultOptions: Html2TextOptions = {
+      bodyWidth: 0, // Disable text wrapping
+      ignoreEmphasis: false,
+      ignoreLinks: false,
+      ignoreImages: false,
+      protectLinks: false,
+      singleLineBreak: true,
+      markCode: true,
+      escapeSnob: false,
+    };
+    return { ...defaultOptions, ...this.options, ...html2textOptions };
+  }
+
+  private createConverter(baseUrl: string, options: Html2TextOptions): CustomHtml2Text {
+    const h = new CustomHtml2Text(baseUrl);
+    h.updateParams(options);
+    return h;
+  }
+
+  /**
+   * Converts an already parsed element to Markdown with inline links, without
+   * citations or filtering. Used where the DOM is shared with the filter.
+   * @param element Root element, e.g. a filtered document body.
+   * @param baseUrl Base URL for resolving relative links.
+   * @param html2textOptions Options for HTML to text conversion.
+   * @returns Markdown text.
+   */
+  async convertElement(element: HTMLElement, baseUrl: string = '', html2textOptions: Html2TextOptions = {}): Promise<string> {
+    const finalOptions = this.resolveOptions(html2textOptions);
+    const markdown = await this.createConverter(baseUrl, finalOptions).handleElement(element);
+    return this.cleanupFences(markdown);
+  }
+
   /**
    * Generates Markdown from HTML.
-   * @param inputHtml Input HTML string.
+   * @param inputHtml Input HTML string, or an already parsed element to convert without re-parsing.
    * @param baseUrl Base URL for resolving relative links.
    * @param html2textOptions Options for HTML to text conversion.
    * @param contentFilterOverride Optional override for the content filter.
@@ -155,44 +214,36 @@ export class DefaultMarkdownGenerator {
    * @returns Markdown generation result object.
    */
   async generateMarkdown(
-    inputHtml: string,
+    inputHtml: string | HTMLElement,
     baseUrl: string = '',
     html2textOptions: Html2TextOptions = {},
     contentFilterOverride: HtmlFilter | null = null,
     citations: boolean = true
   ): Promise<MarkdownGenerationResult> {
     try {
-      const h = new CustomHtml2Text(baseUrl);
-      const defaultOptions: Html2TextOptions = {
-        bodyWidth: 0, // Disable text wrapping
-        ignoreEmphasis: false,
-        ignoreLinks: false,
-        ignoreImages: false,
-        protectLinks: false,
-        singleLineBreak: true,
-        markCode: true,
-        escapeSnob: false,
-      };
-      
-      const finalOptions = { ...defaultOptions, ...this.options, ...html2textOptions };
-      h.updateParams(finalOptions);
-      
-      const effectiveHtml = inputHtml || '';
+      const finalOptions = this.resolveOptions(html2textOptions);
+      const h = this.createConverter(baseUrl, finalOptions);
       
       let rawMarkdown: string;
       try {
-        rawMarkdown = await h.handle(effectiveHtml);
+        rawMarkdown = typeof inputHtml === 'string'
+          ? await h.handle(inputHtml || '')
+          : await h.handleElement(inputHtml);
       } catch (e) {
         rawMarkdown = `Error converting HTML to markdown: ${e instanceof Error ? e.message : String(e)}`;
       }
       
       // Basic cleanup for Markdown (e.g., extra spaces before code blocks)
-      rawMarkdown = rawMarkdown.replace(/^\s*```/gm, '```'); 
+      rawMarkdown = this.cleanupFences(rawMarkdown);
       
       let markdownWithCitations: string = rawMarkdown;
       let referencesMarkdown: string = '';
       
-      if (citations) {
+      if (finalOptions.linkStyle === 'reference') {
+        // The converter wrote [text][n] links; their definitions are part of the document, so the raw output gets them too
+        referencesMarkdown = h.getLinkDefinitions();
+        rawMarkdown = this.appendDefinitions(rawMarkdown, referencesMarkdown);
+      } else if (citations) {
         try {
           [markdownWithCitations, referencesMarkdown] = this.convertLinksToRefs(rawMarkdown, baseUrl);
         } catch (e) {
@@ -207,11 +258,16 @@ export class DefaultMarkdownGenerator {
       const filterToUse = contentFilterOverride || this.contentFilter;
       if (filterToUse) {
         try {
-          const filteredChunks = await filterToUse.filterContent(effectiveHtml);
+          const filteredChunks = await filterToUse.filterContent(
+            typeof inputHtml === 'string' ? inputHtml || '' : inputHtml.innerHTML
+          );
           // Wrap each chunk in a div to maintain structure for Markdown conversion, or join directly if preferred
           fitHtml = filteredChunks.join('\n'); // Simpler join, CustomHtml2Text should handle block elements
           fitMarkdown = await h.handle(fitHtml); 
-          fitMarkdown = fitMarkdown.replace(/^\s*```/gm, '```'); // Cleanup for fitMarkdown as well
+          fitMarkdown = this.cleanupFences(fitMarkdown); // Cleanup for fitMarkdown as well
+          if (finalOptions.linkStyle === 'reference') {
+            fitMarkdown = this.appendDefinitions(fitMarkdown, h.getLinkDefinitions());
+          }
         } catch (e) {
           fitMarkdown = `Error generating fit markdown: ${e instanceof Error ? e.message : String(e)}`;
           fitHtml = `Error during HTML filtering for fit content: ${e instanceof Error ? e.message : String(e)}`;
@@ -0,0 +1,326 @@
+/**
+ * Metadata Extractor - Reads descriptive document metadata from raw HTML
+ * Merges JSON-LD, OpenGraph, Twitter card, Dublin Core, generic <meta> tags and document elements
+ */
+
+import { parseHTML } from './dom-adapter';
+import { parseJsonLdBlocks } from './structured-data';
+import { DocumentMetadata, MetadataSource } from './types';
+
+type MetadataField = Exclude<keyof DocumentMetadata, 'sources'>;
+
+/** Fields read directly from the document; the byline is derived from the authors */
+type ExtractedField = Exclude<MetadataField, 'byline'>;
+
+interface MetadataCandidate {
+  source: MetadataSource;
+  read: (doc: Document, ld: Record<string, any> | null) => string | string[] | undefined;
+}
+
+/**
+ * schema.org types treated as the main article of a page
+ */
+const ARTICLE_TYPES = new Set([
+  'Article', 'NewsArticle', 'BlogPosting', 'TechArticle', 'ScholarlyArticle',
+  'Report', 'AnalysisNewsArticle', 'OpinionNewsArticle', 'ReportageNewsArticle', 'LiveBlogPosting'
+]);
+
+/**
+ * Fields that hold URLs and are resolved against the base URL
+ */
+const URL_FIELDS = new Set<MetadataField>(['canonicalUrl', 'image']);
+
+/**
+ * Fields that hold dates; UTC date-times are normalized, other dates are kept as written
+ */
+const DATE_FIELDS = new Set<MetadataField>(['publishedTime', 'modifiedTime']);
+
+/**
+ * ISO 8601 date-times in UTC, the only dates that mean the same instant on every host
+ */
+const ISO_UTC_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?Z$/i;
+
+export class MetadataExtractor {
+  /**
+   * Candidate readers per field, in order of precedence.
+   * Structured JSON-LD wins over social tags, which win over Dublin Core and generic
+   * <meta> tags; visible document elements are the last resort. Language is the
+   * exception: the <html lang> attribute describes the document itself and wins.
+   */
+  private candidates: Record<ExtractedField, MetadataCandidate[]> = {
+    title: [
+      { source: 'json-ld', read: (doc, ld) => this.ldText(ld?.headline ?? ld?.name) },
+      { source: 'opengraph', read: doc => this.metaContent(doc, 'property', 'og:title') },
+      { source: 'twitter', read: doc => this.metaContent(doc, 'name', 'twitter:title') },
+      { source: 'dublin-core', read: doc => this.dublinCore(doc, 'title') },
+      { source: 'document', read: doc => this.text(doc.querySelector('title')) },
+      { source: 'document', read: doc => this.text(doc.querySelector('h1')) }
+    ],
+    description: [
+      { source: 'json-ld', read: (doc, ld) => this.ldText(ld?.description) },
+      { source: 'opengraph', read: doc => this.metaContent(doc, 'property', 'og:description') },
+      { source: 'twitter', read: doc => this.metaContent(doc, 'name', 'twitter:description') },
+      { source: 'dublin-core', read: doc => this.dublinCore(doc, 'description') },
+      { source: 'meta', read: doc => this.metaContent(doc, 'name', 'description') }
+    ],
+    authors: [
+      { source: 'json-ld', read: (doc, ld) => this.ldNames(ld?.author) },
+      { source: 'opengraph', read: doc => this.nonUrl(this.metaContents(doc, 'property', 'article:author')) },
+      { source: 'dublin-core', read: doc => this.dublinCoreAll(doc, 'creator') },
+      { source: 'meta', read: doc => this.metaContents(doc, 'name', 'author') },
+      { source: 'twitter', read: doc => this.metaContents(doc, 'name', 'twitter:creator') },
+      { source: 'document', read: doc => this.bylineFromDocument(doc) }
+    ],
+    siteName: [
+      { source: 'json-ld', read: (doc, ld) => this.ldNames(ld?.publisher)?.[0] },
+      { source: 'opengraph', read: doc => this.metaContent(doc, 'property', 'og:site_name') },
+      { source: 'twitter', read: doc => this.metaContent(doc, 'name', 'twitter:site') },
+      { source: 'dublin-core', read: doc => this.dublinCore(doc, 'publisher') },
+      { source: 'meta', read: doc => this.metaContent(doc, 'name', 'application-name') }
+    ],
+    publishedTime: [
+      { source: 'json-ld', read: (doc, ld) => this.ldText(ld?.datePublished ?? ld?.dateCreated) },
+      { source: 'opengraph', read: doc => this.metaContent(doc, 'property', 'article:published_time') },
+      { source: 'dublin-core', read: doc => this.dublinCore(doc, 'date') || this.dublinCore(doc, 'created') || this.dublinCore(doc, 'issued') },
+      { source: 'meta', read: doc => this.metaContent(doc, 'name', 'date') || this.metaContent(doc, 'itemprop', 'datePublished') },
+      { source: 'document', read: doc => this.timeElement(doc) }
+    ],
+    modifiedTime: [
+      { source: 'json-ld', read: (doc, ld) => this.ldText(ld?.dateModified) },
+      { source: 'opengraph', read: doc => this.metaContent(doc, 'property', 'article:modified_time') || this.metaContent(doc, 'property', 'og:updated_time') },
+      { source: 'dublin-core', read: doc => this.dublinCore(doc, 'modified') },
+      { source: 'meta', read: doc => this.metaContent(doc, 'name', 'last-modified') || this.metaContent(doc, 'itemprop', 'dateModified') }
+    ],
+    language: [
+      { source: 'document', read: doc => doc.documentElement?.getAttribute('lang') || undefined },
+      { source: 'json-ld', read: (doc, ld) => this.ldText(ld?.inLanguage) },
+      { source: 'opengraph', read: doc => this.metaContent(doc, 'property', 'og:locale')?.replace('_', '-') },
+      { source: 'dublin-core', read: doc => this.dublinCore(doc, 'language') },
+      { source: 'meta', read: doc => this.metaContent(doc, 'http-equiv', 'content-language') }
+    ],
+    canonicalUrl: [
+      { source: 'document', read: doc => doc.querySelector('link[rel="canonical"]')?.getAttribute('href') || undefined },
+      { source: 'json-ld', read: (doc, ld) => this.ldText(ld?.mainEntityOfPage?.['@id'] ?? ld?.mainEntityOfPage ?? ld?.url) },
+      { source: 'opengraph', read: doc => this.metaContent(doc, 'property', 'og:url') },
+      { source: 'twitter', read: doc => this.metaContent(doc, 'name', 'twitter:url') }
+    ],
+    image: [
+      { source: 'json-ld', read: (doc, ld) => this.ldText(ld?.image?.url ?? ld?.image) },
+      { source: 'opengraph', read: doc => this.metaContent(doc, 'property', 'og:image') },
+      { source: 'twitter', read: doc => this.metaContent(doc, 'name', 'twitter:image') },
+      { source: 'document', read: doc => doc.querySelector('link[rel="image_src"]')?.getAttribute('href') || undefined }
+    ],
+    type: [
+      { source: 'json-ld', read: (doc, ld) => this.ldText(ld?.['@type']) },
+      { source: 'opengraph', read: doc => this.metaContent(doc, 'property', 'og:type') },
+      { source: 'dublin-core', read: doc => this.dublinCore(doc, 'type') }
+    ],
+    keywords: [
+      { source: 'json-ld', read: (doc, ld) => this.splitList(ld?.keywords) },
+      { source: 'opengraph', read: doc => this.metaContents(doc, 'property', 'article:tag') },
+      { source: 'dublin-core', read: doc => this.splitList(this.dublinCore(doc, 'subject')) },
+      { source: 'meta', read: doc => this.splitList(this.metaContent(doc, 'name', 'keywords')) }
+    ]
+  };
+
+  /**
+   * Extracts metadata from an HTML string
+   * @param html Raw HTML, before any filtering
+   * @param baseUrl Base URL for resolving relative URLs
+   * @returns Extracted document metadata
+   */
+  public async extract(html: string, baseUrl: string = ''): Promise<DocumentMetadata> {
+    if (!html) {
+      return { sources: {} };
+    }
+
+    const doc = await parseHTML(html);
+    return this.extractFromDocument(doc, baseUrl);
+  }
+
+  /**
+   * Extracts metadata from an already parsed document
+   * @param doc Parsed document
+   * @param baseUrl Base URL for resolving relative URLs
+   * @returns Extracted document metadata
+   */
+  public extractFromDocument(doc: Document, baseUrl: string = ''): DocumentMetadata {
+    const ld = this.findJsonLdArticle(doc);
+    const metadata: DocumentMetadata = { sources: {} };
+    const target = metadata as Record<MetadataField, any>;
+
+    (Object.keys(this.candidates) as ExtractedField[]).forEach(field => {
+      for (const candidate of this.candidates[field]) {
+        let value: string | string[] | undefined;
+        try {
+          value = candidate.read(doc, ld);
+        } catch {
+          continue;
+        }
+
+        const normalized = this.normalizeValue(field, value, baseUrl);
+        if (normalized !== undefined) {
+          target[field] = normalized;
+          metadata.sources[field] = candidate.source;
+          break;
+        }
+      }
+    });
+
+    if (metadata.authors && metadata.authors.length > 0) {
+      metadata.byline = metadata.authors.join(', ');
+      metadata.sources.byline = metadata.sources.authors;
+    }
+
+    return metadata;
+  }
+
+  /**
+   * Cleans up a raw candidate value, returning undefined for empty values
+   */
+  private normalizeValue(
+    field: MetadataField,
+    value: string | string[] | undefined,
+    baseUrl: string
+  ): string | string[] | undefined {
+    if (Array.isArray(value)) {
+      const items = Array.from(new Set(value.map(item => this.collapse(item)).filter(Boolean)));
+      return items.length > 0 ? items : undefined;
+    }
+
+    const text = this.collapse(value);
+    if (!text) {
+      return undefined;
+    }
+    if (URL_FIELDS.has(field)) {
+      return this.resolveUrl(text, baseUrl);
+    }
+    if (DATE_FIELDS.has(field)) {
+      return this.normalizeDate(text);
+    }
+    return text;
+  }
+
+  /**
+   * Finds the first JSON-LD node describing an article
+   */
+  private findJsonLdArticle(doc: Document): Record<string, any> | null {
+    const article = parseJsonLdBlocks(doc).find(node => {
+      const types = Array.isArray(node['@type']) ? node['@type'] : [node['@type']];
+      return types.some((type: unknown) => typeof type === 'string' && ARTICLE_TYPES.has(type));
+    });
+    return article || null;
+  }
+
+  private metaContent(doc: Document, attribute: string, name: string): string | undefined {
+    return this.metaContents(doc, attribute, name)[0];
+  }
+
+  private metaContents(doc: Document, attribute: string, name: string): string[] {
+    const wanted = name.toLowerCase();
+    return Array.from(doc.querySelectorAll(`meta[${attribute}]`))
+      .filter(meta => (meta.getAttribute(attribute) || '').toLowerCase() === wanted)
+      .map(meta => meta.getAttribute('content') || '')
+      .filter(content => content.trim().length > 0);
+  }
+
+  private dublinCore(doc: Document, term: string): string | undefined {
+    return this.dublinCoreAll(doc, term)[0];
+  }
+
+  private dublinCoreAll(doc: Document, term: string): string[] {
+    return [
+      ...this.metaContents(doc, 'name', `DC.${term}`),
+      ...this.metaContents(doc, 'name', `dcterms.${term}`)
+    ];
+  }
+
+  private bylineFromDocument(doc: Document): string[] | undefined {
+    const authorLink = doc.querySelector('[rel="author"], [itemprop="author"]');
+    if (authorLink) {
+      return [this.text(authorLink) || ''];
+    }
+
+    const byline = this.text(doc.querySelector('.byline, .author'));
+    return byline ? [byline.replace(/^by\s+/i, '')] : undefined;
+  }
+
+  private timeElement(doc: Document): string | undefined {
+    const time = doc.querySelector('article time[datetime], time[pubdate], time[datetime]');
+    return time ? (time.getAttribute('datetime') || this.text(time)) : undefined;
+  }
+
+  private ldText(value: any): string | undefined {
+    if (Array.isArray(value)) {
+      return this.ldText(value[0]);
+    }
+    if (typeof value === 'string' || typeof value === 'number') {
+      return String(value);
+    }
+    return undefined;
+  }
+
+  private ldNames(value: any): string[] | undefined {
+    const items = Array.isArray(value) ? value : [value];
+    const names = items
+      .map(item => typeof item === 'string' ? item : item?.name)
+      .filter((name): name is string => typeof name === 'string');
+    return names.length > 0 ? names : undefined;
+  }
+
+  private splitList(value: any): string[] | undefined {
+    if (Array.isArray(value)) {
+      return value.map(String);
+    }
+    return typeof value === 'string' ? value.split(',') : undefined;
+  }
+
+  private nonUrl(values: string[]): string[] {
+    return values.filter(value => !/^https?:\/\//i.test(value));
+  }
+
+  private text(element: Element | null): string | undefined {
+    return element?.textContent?.trim() || undefined;
+  }
+
+  private collapse(value: string | undefined): string {
+    return (value || '').replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Writes UTC date-times in the toISOString() form. Date-only values, values with an
+   * offset and free-form dates are kept as written: parsing them would read them in the
+   * host's time zone or drop the offset.
+   */
+  private normalizeDate(value: string): string {
+    if (!ISO_UTC_DATE_TIME.test(value)) {
+      return value;
+    }
+    const time = Date.parse(value);
+    return isNaN(time) ? value : new Date(time).toISOString();
+  }
+
+  private resolveUrl(url: string, baseUrl: string): string {
+    if (!baseUrl) {
+      return url;
+    }
+    try {
+      return new URL(url, baseUrl).href;
+    } catch {
+      return url;
+    }
+  }
+}
+
+// Export singleton instance
+export const metadataExtractor = new MetadataExtractor();
+
+/**
+ * Extract document metadata from raw HTML
+ * @param html HTML content
+ * @param baseUrl Base URL for resolving relative URLs
+ * @returns Extracted document metadata
+ */
+export async function extractMetadata(html: string, baseUrl?: string): Promise<DocumentMetadata> {
+  return metadataExtractor.extract(html, baseUrl);
+}
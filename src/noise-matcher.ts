@@ -0,0 +1,125 @@
+/**
+ * Noise Matcher - Detects noise containers (ads, banners, popups, cookie notices)
+ * from tokenized class names and id segments instead of substring matches
+ */
+
+/**
+ * Class/id tokens that mark an ad container (also used by the ad-remover plugin)
+ */
+export const AD_NOISE_TOKENS: string[] = [
+  'ad', 'ads', 'advert', 'adverts', 'advertisement', 'advertisements', 'advertising',
+  'adsense', 'adslot', 'adunit', 'sponsor', 'sponsored', 'banner', 'banners'
+];
+
+/**
+ * Class/id tokens that mark a noise container
+ */
+export const DEFAULT_NOISE_TOKENS: string[] = [
+  ...AD_NOISE_TOKENS,
+  // Search engine specific noise
+  'suggest', 'suggestion', 'suggestions', 'autocomplete', 'dropdown',
+  'popup', 'popups', 'modal', 'overlay',
+  // Navigation and UI noise
+  'breadcrumb', 'breadcrumbs', 'pagination', 'toolbar', 'sidebar',
+  // Cookie and notification banners
+  'cookie', 'cookies', 'consent', 'gdpr', 'notification', 'notifications'
+];
+
+/**
+ * Token sequences that are never noise even though they contain a noise token
+ */
+export const DEFAULT_NOISE_ALLOWLIST: string[] = [
+  'ad-hoc', 'hero-banner', 'page-banner', 'banner-image', 'banner-title',
+  'image-overlay', 'card-overlay', 'code-toolbar', 'editor-toolbar'
+];
+
+/**
+ * Tokens of an allowlist entry, precomputed
+ */
+type TokenSequence = string[];
+
+/**
+ * Splits a class list or id into lower-case tokens on whitespace, '-', '_',
+ * camelCase and letter/digit boundaries ('adSlot_300' → ['ad', 'slot', '300'])
+ * @param value Class attribute or id
+ * @returns Tokens
+ */
+export function tokenizeName(value: string): string[] {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .replace(/([a-zA-Z])(\d)/g, '$1 $2')
+    .replace(/(\d)([a-zA-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[\s\-_.:]+/)
+    .filter(token => token.length > 0);
+}
+
+export class NoiseMatcher {
+  private tokens: Set<string>;
+  private allowlist: TokenSequence[];
+
+  /**
+   * @param tokens Noise tokens (default: DEFAULT_NOISE_TOKENS)
+   * @param allowlist Token sequences exempt from matching (default: DEFAULT_NOISE_ALLOWLIST)
+   */
+  constructor(tokens: string[] = DEFAULT_NOISE_TOKENS, allowlist: string[] = DEFAULT_NOISE_ALLOWLIST) {
+    this.tokens = new Set(tokens.map(token => token.toLowerCase()));
+    this.allowlist = allowlist
+      .map(entry => tokenizeName(entry))
+      .filter(sequence => sequence.length > 0);
+  }
+
+  /**
+   * Finds the noise token in a single class name or id
+   * @param name One class name or the id
+   * @returns Matching token, or null
+   */
+  matchName(name: string): string | null {
+    const tokens = tokenizeName(name);
+    if (this.allowlist.some(sequence => containsSequence(tokens, sequence))) {
+      return null;
+    }
+    return tokens.find(token => this.tokens.has(token)) || null;
+  }
+
+  /**
+   * Finds the first class name or id of an element that contains a noise token
+   * @param className Class attribute value
+   * @param id Id attribute value
+   * @returns The matching name and token, or null
+   */
+  match(className: string, id: string = ''): { name: string; token: string } | null {
+    const names = [...className.split(/\s+/), id].filter(name => name.length > 0);
+    for (const name of names) {
+      const token = this.matchName(name);
+      if (token) {
+        return { name, token };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Matches an element by its class and id
+   * @param element DOM element
+   * @returns The matching name and token, or null
+   */
+  matchElement(element: Element): { name: string; token: string } | null {
+    return this.match(element.getAttribute('class') || '', element.getAttribute('id') || '');
+  }
+}
+
+function containsSequence(tokens: string[], sequence: TokenSequence): boolean {
+  for (let i = 0; i + sequence.length <= tokens.length; i++) {
+    if (sequence.every((token, offset) => tokens[i + offset] === token)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Default matcher with the curated token list and allowlist
+ */
+export const noiseMatcher = new NoiseMatcher();
@@ -4,22 +4,36 @@
  */
 
 import { parseHTML } from './dom-adapter';
-import { FilterOptions } from './types';
+import { ConverterOptions, FilterOptions, PageTypeModelData, ProcessorError } from './types';
+import { structuredDataExtractor } from './structured-data';
+import { PageTypeModel } from './page-type-model';
 
 export interface PageTypeResult {
-  /** Detected page type */
+  /** Detected page type; 'unknown' when no type is likely or detection abstained */
   type: PageType;
-  /** Confidence score (0-1) */
+  /** Probability of the detected type (0-1) */
   confidence: number;
-  /** Recommended filter options */
+  /** Probability of every page type, including 'unknown', most likely first; the values sum to 1 */
+  distribution: Record<string, number>;
+  /** The detected type followed by other likely types (e.g. ['blog', 'documentation']); when abstaining, the types that were too close to call */
+  labels: PageType[];
+  /** Rule evidence of every page type: the sum of the weights of its matching rules */
+  scores: Record<string, number>;
+  /** True when the top types were too close to call, so 'unknown' was reported */
+  abstained: boolean;
+  /** Probabilities predicted by the learned model, before blending (detectors with a model only) */
+  modelDistribution?: Record<string, number>;
+  /** Recommended filter options; when abstaining, options keeping what any tied type keeps */
   filterOptions: FilterOptions;
+  /** Recommended converter options (custom page types that define them) */
+  converterOptions?: ConverterOptions;
   /** Detection reasons */
   reasons: string[];
   /** Page characteristics */
   characteristics: PageCharacteristics;
 }
 
-export type PageType = 
+export type BuiltinPageType =
   | 'search-engine'
   | 'blog'
   | 'news'
@@ -31,6 +45,11 @@ export type PageType =
   | 'article'
   | 'unknown';
 
+/**
+ * A built-in page type or one registered with registerPageType()
+ */
+export type PageType = BuiltinPageType | (string & {});
+
 export interface PageCharacteristics {
   /** Has search functionality */
   hasSearch: boolean;
@@ -54,132 +73,644 @@ export interface PageCharacteristics {
   formCount: number;
   /** Number of images */
   imageCount: number;
+  /** schema.org types declared via JSON-LD, Microdata or RDFa */
+  structuredDataTypes: string[];
+}
+
+/**
+ * A detection rule for registerPageType() or addRule(). The rule matches when
+ * all of its conditions hold, adding its weight to the page type's score.
+ */
+export interface PageTypeRule {
+  /** Id used to disable or reweight the rule (default: "<type>/rule-<n>") */
+  id?: string;
+  /** Evidence added to the page type's score when the rule matches */
+  weight: number;
+  /** Reason reported when the rule matches (default: the rule id) */
+  reason?: string;
+  /** DOM predicate */
+  check?: (html: string, doc: Document, chars: PageCharacteristics, url?: string) => boolean;
+  /** CSS selector that must match at least minCount elements */
+  selector?: string;
+  /** Minimum number of selector matches (default: 1) */
+  minCount?: number;
+  /** Pattern the page's visible text must match; strings are compiled case-insensitively */
+  pattern?: string | RegExp;
+  /** Pattern the URL must match; strings are compiled case-insensitively */
+  urlPattern?: string | RegExp;
+}
+
+/**
+ * A custom page type with its detection rules and recommended options
+ */
+export interface PageTypeDefinition {
+  /** Page type name; must not be a built-in type */
+  type: string;
+  /** Detection rules */
+  rules: PageTypeRule[];
+  /** Filter options applied when the type is detected, over the default ones */
+  filterOptions?: FilterOptions;
+  /** Converter options applied when the type is detected */
+  converterOptions?: ConverterOptions;
+}
+
+/**
+ * Declarative detector configuration, as loaded from a JSON rule file by
+ * loadRules() or given to the PageTypeDetector constructor
+ */
+export interface PageTypeRuleSet {
+  /** Custom page types to register */
+  pageTypes?: PageTypeDefinition[];
+  /** Rules added to existing (built-in or custom) page types */
+  rules?: Array<PageTypeRule & { type: string }>;
+  /** Ids of rules to disable */
+  disable?: string[];
+  /** New weights, by rule id */
+  weights?: Record<string, number>;
+  /** Scoring calibration */
+  scoring?: PageTypeScoringOptions;
+}
+
+/**
+ * How rule evidence is turned into probabilities. Each type's probability is
+ * a softmax over the evidence of all types and of 'unknown'.
+ */
+export interface PageTypeScoringOptions {
+  /** Softmax temperature; lower values sharpen the distribution (default: 0.4) */
+  temperature?: number;
+  /** Evidence of the 'unknown' class, which types need to beat (default: 0.5) */
+  unknownScore?: number;
+  /** Probability lead the top type needs over the runner-up, or detection abstains (default: 0.1) */
+  minMargin?: number;
+  /** Probability a type needs to be listed as a secondary label (default: 0.2) */
+  labelThreshold?: number;
+}
+
+/**
+ * PageTypeDetector constructor options
+ */
+export interface PageTypeDetectorOptions extends PageTypeRuleSet {
+  /** Learned model, e.g. parsed from the JSON written by the training script */
+  model?: PageTypeModel | PageTypeModelData;
+  /** Share of the model in the blended distribution, 0 (rules only) to 1 (model only) (default: 0.5) */
+  modelWeight?: number;
+}
+
+/**
+ * A detection rule as reported by getRules()
+ */
+export interface PageTypeRuleInfo {
+  id: string;
+  type: PageType;
+  /** Weight in effect, after reweighting */
+  weight: number;
+  reason: string;
+  enabled: boolean;
+  builtin: boolean;
+}
+
+/**
+ * What detection rules are evaluated against
+ */
+interface DetectionInput {
+  /** HTML the document was parsed from */
+  html: string;
+  /** Visible text of the body (scripts, styles and hidden elements left out) */
+  text: string;
+  doc: Document;
+  chars: PageCharacteristics;
+  url?: string;
 }
 
 interface DetectionRule {
+  id: string;
   type: PageType;
   weight: number;
-  check: (html: string, doc: Document, chars: PageCharacteristics) => boolean;
+  check: (input: DetectionInput) => boolean;
   reason: string;
+  /** Set on rules added through registerPageType(), addRule() or loadRules() */
+  custom?: boolean;
+}
+
+const DEFAULT_SCORING: Required<PageTypeScoringOptions> = {
+  temperature: 0.4,
+  unknownScore: 0.5,
+  minMargin: 0.1,
+  labelThreshold: 0.2
+};
+
+/**
+ * Elements whose text is not visible
+ */
+const INVISIBLE_ELEMENTS = new Set(['script', 'style', 'noscript', 'template', 'svg', 'head']);
+
+/**
+ * Element counts used as model features, by feature name
+ */
+const DOM_FEATURES: Record<string, string> = {
+  headings: 'h1, h2, h3, h4, h5, h6',
+  paragraphs: 'p',
+  listItems: 'li',
+  tables: 'table',
+  preformatted: 'pre',
+  links: 'a',
+  buttons: 'button, [role="button"]',
+  inputs: 'input, textarea, select',
+  times: 'time',
+  articles: 'article',
+  navs: 'nav',
+  asides: 'aside',
+  blockquotes: 'blockquote',
+  figures: 'figure'
+};
+
+/**
+ * Result items of search engine pages
+ */
+const SEARCH_RESULT_SELECTORS = '.search-result, .result, .serp-item, [data-result]';
+
+/**
+ * Sections typical of marketing landing pages
+ */
+const LANDING_SECTION_SELECTORS = '.hero, .features, .pricing, .testimonials, .cta, [class~="call-to-action"]';
+
+const BUILTIN_PAGE_TYPES: BuiltinPageType[] = [
+  'search-engine', 'blog', 'news', 'documentation',
+  'e-commerce', 'social-media', 'forum', 'landing-page', 'article'
+];
+
+/**
+ * URL words hinting at a page type, matched as whole hostname labels and path words
+ * (a trailing plural "s" is allowed); the search engine hint also matches query parameters
+ */
+const URL_HINTS: Array<{ words: string[]; queryParams?: string[]; type: BuiltinPageType; weight: number }> = [
+  { words: ['google', 'bing', 'yahoo', 'baidu', 'duckduckgo'], queryParams: ['q', 'query', 'wd'], type: 'search-engine', weight: 0.5 },
+  { words: ['blog', 'wordpress', 'medium', 'substack'], type: 'blog', weight: 0.4 },
+  { words: ['news', 'cnn', 'bbc', 'reuters', 'apnews'], type: 'news', weight: 0.4 },
+  { words: ['docs', 'documentation', 'api', 'guide'], type: 'documentation', weight: 0.4 },
+  { words: ['shop', 'store', 'amazon', 'ebay', 'buy'], type: 'e-commerce', weight: 0.4 },
+  { words: ['facebook', 'twitter', 'instagram', 'linkedin'], type: 'social-media', weight: 0.4 },
+  { words: ['forum', 'reddit', 'stackoverflow'], type: 'forum', weight: 0.4 }
+];
+
+/**
+ * Splits a URL into the words of its hostname labels and path segments, and its query parameter names
+ * @param url Page URL
+ * @returns Lowercase words and parameter names
+ */
+function splitUrl(url: string): { words: Set<string>; params: Set<string> } {
+  const withoutFragment = url.toLowerCase().split('#')[0];
+  const queryStart = withoutFragment.indexOf('?');
+  const location = (queryStart === -1 ? withoutFragment : withoutFragment.slice(0, queryStart))
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, '');
+  const query = queryStart === -1 ? '' : withoutFragment.slice(queryStart + 1);
+
+  return {
+    words: new Set(location.split(/[^a-z0-9]+/).filter(Boolean)),
+    params: new Set(query.split('&').map(pair => pair.split('=')[0]).filter(Boolean))
+  };
 }
 
+/**
+ * schema.org types that indicate a page type when declared in structured data
+ */
+const STRUCTURED_DATA_TYPES: Partial<Record<BuiltinPageType, string[]>> = {
+  'e-commerce': ['Product', 'ProductGroup', 'Offer', 'AggregateOffer', 'ItemPage'],
+  'news': ['NewsArticle', 'ReportageNewsArticle', 'AnalysisNewsArticle', 'OpinionNewsArticle', 'LiveBlogPosting'],
+  'blog': ['BlogPosting', 'Blog'],
+  'documentation': ['TechArticle', 'APIReference', 'HowTo'],
+  'forum': ['DiscussionForumPosting', 'QAPage', 'Question'],
+  'social-media': ['ProfilePage', 'SocialMediaPosting'],
+  'search-engine': ['SearchResultsPage'],
+  'article': ['Article', 'ScholarlyArticle', 'Report']
+};
+
 export class PageTypeDetector {
   private detectionRules: DetectionRule[] = [
+    // URL Hints
+    ...URL_HINTS.map(hint => ({
+      id: `${hint.type}/url`,
+      type: hint.type,
+      weight: hint.weight,
+      check: ({ url }: DetectionInput) => {
+        if (!url) return false;
+        const { words, params } = splitUrl(url);
+        return hint.words.some(word => words.has(word) || words.has(`${word}s`)) ||
+          (hint.queryParams || []).some(param => params.has(param));
+      },
+      reason: `URL indicates ${hint.type} site`
+    })),
+
+    // Structured Data Detection
+    ...(Object.keys(STRUCTURED_DATA_TYPES) as BuiltinPageType[]).map(type => ({
+      id: `${type}/structured-data`,
+      type,
+      weight: 0.9,
+      check: ({ chars }: DetectionInput) =>
+        chars.structuredDataTypes.some(declared => STRUCTURED_DATA_TYPES[type]!.includes(declared)),
+      reason: `Declares schema.org ${STRUCTURED_DATA_TYPES[type]!.join('/')} structured data`
+    })),
+
     // Search Engine Detection
     {
+      id: 'search-engine/indicators',
       type: 'search-engine',
       weight: 0.9,
-      check: (html, doc) => this.hasSearchEngineIndicators(html, doc),
+      check: ({ text, doc }) => this.hasSearchEngineIndicators(text, doc),
       reason: 'Contains search engine indicators (search box, results, suggestions)'
     },
     {
+      id: 'search-engine/domain-keywords',
       type: 'search-engine',
       weight: 0.8,
-      check: (html) => /baidu|google|bing|yahoo|duckduckgo|yandex/i.test(html),
+      check: ({ text }) => /\b(baidu|google|bing|yahoo|duckduckgo|yandex)\b/i.test(text),
       reason: 'Contains search engine domain indicators'
     },
     {
+      id: 'search-engine/results',
+      type: 'search-engine',
+      weight: 0.8,
+      check: ({ doc, chars }) => chars.hasSearch && this.countElements(doc, SEARCH_RESULT_SELECTORS) >= 3,
+      reason: 'Lists several results under a search box'
+    },
+    {
+      id: 'search-engine/link-density',
       type: 'search-engine',
       weight: 0.7,
-      check: (html, doc, chars) => chars.hasSearch && chars.linkDensity > 0.6,
+      check: ({ chars }) => chars.hasSearch && chars.linkDensity > 0.6,
       reason: 'High link density with search functionality'
     },
 
     // Blog Detection
     {
+      id: 'blog/indicators',
       type: 'blog',
       weight: 0.8,
-      check: (html, doc) => this.hasBlogIndicators(html, doc),
+      check: ({ text, doc }) => this.hasBlogIndicators(text, doc),
       reason: 'Contains blog-specific elements (posts, archives, categories)'
     },
     {
+      id: 'blog/comments',
       type: 'blog',
       weight: 0.7,
-      check: (html, doc, chars) => chars.hasArticleContent && chars.hasComments,
+      check: ({ chars }) => chars.hasArticleContent && chars.hasComments,
       reason: 'Has article content with comments section'
     },
 
     // News Detection
     {
+      id: 'news/indicators',
       type: 'news',
       weight: 0.8,
-      check: (html, doc) => this.hasNewsIndicators(html, doc),
+      check: ({ text, doc }) => this.hasNewsIndicators(text, doc),
       reason: 'Contains news-specific elements (headlines, bylines, timestamps)'
     },
     {
+      id: 'news/keywords',
       type: 'news',
       weight: 0.7,
-      check: (html) => /news|breaking|headline|reporter|journalist/i.test(html),
-      reason: 'Contains news-related keywords'
+      check: ({ text }) => /\bbreaking news\b|\b(reporter|journalist|correspondent|newsroom)s?\b/i.test(text),
+      reason: 'Mentions breaking news, reporters or correspondents'
     },
 
     // Documentation Detection
     {
+      id: 'documentation/code-structure',
       type: 'documentation',
       weight: 0.9,
-      check: (html, doc, chars) => chars.hasCodeBlocks && this.hasDocIndicators(html, doc),
+      check: ({ text, doc, chars }) => chars.hasCodeBlocks && this.hasDocIndicators(text, doc),
       reason: 'Contains code blocks and documentation structure'
     },
     {
+      id: 'documentation/keywords',
       type: 'documentation',
       weight: 0.8,
-      check: (html) => /api|docs|documentation|guide|tutorial|reference/i.test(html),
-      reason: 'Contains documentation keywords'
+      check: ({ text }) =>
+        /\b(api reference|getting started|quick ?start|installation|configuration options|command[- ]line options|return values?|parameters)\b/i.test(text),
+      reason: 'Contains documentation phrases (API reference, installation, parameters)'
     },
 
     // E-commerce Detection
     {
+      id: 'e-commerce/products',
       type: 'e-commerce',
       weight: 0.8,
-      check: (html, doc, chars) => chars.hasProductListings,
+      check: ({ chars }) => chars.hasProductListings,
       reason: 'Contains product listings and pricing'
     },
     {
+      id: 'e-commerce/keywords',
       type: 'e-commerce',
       weight: 0.7,
-      check: (html) => /price|cart|buy|shop|product|order|checkout/i.test(html),
-      reason: 'Contains e-commerce keywords'
+      check: ({ text }) => /\b(add to (cart|basket|bag)|buy now|in stock|out of stock|checkout|free shipping)\b/i.test(text),
+      reason: 'Contains shopping phrases (add to cart, in stock, checkout)'
     },
 
     // Social Media Detection
     {
+      id: 'social-media/features',
       type: 'social-media',
       weight: 0.8,
-      check: (html, doc, chars) => chars.hasSocialFeatures,
+      check: ({ chars }) => chars.hasSocialFeatures,
       reason: 'Contains social media features (likes, shares, follows)'
     },
     {
+      id: 'social-media/keywords',
       type: 'social-media',
       weight: 0.7,
-      check: (html) => /facebook|twitter|instagram|linkedin|social|follow|like|share/i.test(html),
-      reason: 'Contains social media indicators'
+      check: ({ text }) => /\b\d[\d.,]*\s?[km]?\s(followers|following|retweets|reposts)\b/i.test(text),
+      reason: 'Shows follower or repost counts'
     },
 
     // Forum Detection
     {
+      id: 'forum/indicators',
       type: 'forum',
       weight: 0.8,
-      check: (html, doc) => this.hasForumIndicators(html, doc),
+      check: ({ text, doc }) => this.hasForumIndicators(text, doc),
       reason: 'Contains forum structure (threads, posts, users)'
     },
+    {
+      id: 'forum/posts',
+      type: 'forum',
+      weight: 0.6,
+      check: ({ doc }) => this.hasMultiplePosters(doc),
+      reason: 'Contains several posts, each with its author'
+    },
 
     // Article Detection
     {
+      id: 'article/text-density',
       type: 'article',
       weight: 0.7,
-      check: (html, doc, chars) => chars.hasArticleContent && chars.textDensity > 0.4,
+      check: ({ chars }) => chars.hasArticleContent && chars.textDensity > 0.4,
       reason: 'High text density with article structure'
     },
 
     // Landing Page Detection
     {
+      id: 'landing-page/sections',
+      type: 'landing-page',
+      weight: 0.8,
+      check: ({ doc, chars }) => !chars.hasArticleContent && this.countElements(doc, LANDING_SECTION_SELECTORS) >= 2,
+      reason: 'Has hero, feature, pricing or testimonial sections'
+    },
+    {
+      id: 'landing-page/forms',
       type: 'landing-page',
       weight: 0.6,
-      check: (html, doc, chars) => chars.formCount > 0 && chars.linkDensity < 0.3,
+      check: ({ chars }) => chars.formCount > 0 && chars.linkDensity < 0.3,
       reason: 'Contains forms with low link density (typical of landing pages)'
     }
   ];
 
+  private customTypes: Map<string, PageTypeDefinition> = new Map();
+  private disabledRules: Set<string> = new Set();
+  private ruleWeights: Map<string, number> = new Map();
+  private ruleCounter = 0;
+  private scoring: Required<PageTypeScoringOptions> = { ...DEFAULT_SCORING };
+  private model: PageTypeModel | null = null;
+  private modelWeight = 0.5;
+
+  /**
+   * @param options Custom page types, added rules and rule overrides to start
+   * with, and a learned model to blend with the rules
+   */
+  constructor(options?: PageTypeDetectorOptions) {
+    if (options) {
+      const { model, modelWeight, ...rules } = options;
+      this.loadRules(rules);
+      if (model) {
+        this.setModel(model, modelWeight);
+      }
+    }
+  }
+
+  /**
+   * Blend a learned model with the rules, or remove it
+   * @param model Model or its serialized data; null to use the rules only
+   * @param weight Share of the model in the blended distribution, 0 to 1 (default: 0.5)
+   * @returns This detector for chaining
+   * @throws ProcessorError if the model is malformed or the weight is out of range
+   */
+  public setModel(model: PageTypeModel | PageTypeModelData | null, weight: number = 0.5): this {
+    if (!(weight >= 0 && weight <= 1)) {
+      throw new ProcessorError('Page type model weight must be between 0 and 1', 'INVALID_PAGE_TYPE_MODEL');
+    }
+    this.model = model === null || model instanceof PageTypeModel ? model : new PageTypeModel(model);
+    this.modelWeight = weight;
+    return this;
+  }
+
+  /**
+   * Extract the features a learned model classifies pages by
+   * @param html HTML content
+   * @param url Optional URL
+   * @returns Feature values by name
+   */
+  public async extractFeatures(html: string, url?: string): Promise<Record<string, number>> {
+    return this.extractFeaturesFromDocument(await parseHTML(html), html, url);
+  }
+
+  /**
+   * Extract model features from an already parsed document. The document is only read.
+   * @param doc Parsed document
+   * @param html HTML the document was parsed from
+   * @param url Optional URL
+   * @returns Feature values by name
+   */
+  public extractFeaturesFromDocument(doc: Document, html: string, url?: string): Record<string, number> {
+    const text = this.getVisibleText(doc);
+    return this.computeFeatures({ html, text, doc, chars: this.analyzePageCharacteristics(html, text, doc), url });
+  }
+
+  /**
+   * Register a custom page type; registering a type again replaces it
+   * @param definition Page type name, detection rules and recommended options
+   * @returns This detector for chaining
+   * @throws ProcessorError if the name is a built-in type or a rule is invalid
+   */
+  public registerPageType(definition: PageTypeDefinition): this {
+    const { type } = definition;
+    if (!type || typeof type !== 'string' || type === 'unknown' || (BUILTIN_PAGE_TYPES as string[]).includes(type)) {
+      throw new ProcessorError(
+        `Cannot register page type "${type}": ${type ? 'it is built in; use addRule() to add rules to it' : 'a type name is required'}`,
+        'INVALID_PAGE_TYPE'
+      );
+    }
+
+    // Validate all rules before replacing an earlier registration
+    const rules = (definition.rules || []).map(rule => this.compileRule(type, rule));
+    this.checkRuleIds(rules, type);
+    this.removePageType(type);
+    this.customTypes.set(type, { ...definition, rules: definition.rules || [] });
+    this.detectionRules.push(...rules);
+    return this;
+  }
+
+  /**
+   * Remove a custom page type and its rules
+   * @param type Page type name
+   * @returns True if the type was registered
+   */
+  public removePageType(type: string): boolean {
+    if (!this.customTypes.delete(type)) {
+      return false;
+    }
+    this.detectionRules = this.detectionRules.filter(rule => rule.type !== type);
+    return true;
+  }
+
+  /**
+   * Add a detection rule to a built-in or custom page type
+   * @param type Page type the rule scores
+   * @param rule Rule conditions and weight
+   * @returns This detector for chaining
+   * @throws ProcessorError if the type is unknown or the rule is invalid
+   */
+  public addRule(type: PageType, rule: PageTypeRule): this {
+    if (!this.getPageTypes().includes(type)) {
+      throw new ProcessorError(`Cannot add a rule to unknown page type "${type}"`, 'UNKNOWN_PAGE_TYPE');
+    }
+    const compiled = this.compileRule(type, rule);
+    this.checkRuleIds([compiled]);
+    this.detectionRules.push(compiled);
+    return this;
+  }
+
+  /**
+   * Stop rules from scoring
+   * @param ids Rule ids, as listed by getRules()
+   * @returns This detector for chaining
+   */
+  public disableRules(ids: string[]): this {
+    ids.forEach(id => this.disabledRules.add(this.getRule(id).id));
+    return this;
+  }
+
+  /**
+   * Let disabled rules score again
+   * @param ids Rule ids
+   * @returns This detector for chaining
+   */
+  public enableRules(ids: string[]): this {
+    ids.forEach(id => this.disabledRules.delete(this.getRule(id).id));
+    return this;
+  }
+
+  /**
+   * Change the weight a rule adds to its page type's score
+   * @param id Rule id
+   * @param weight New weight
+   * @returns This detector for chaining
+   */
+  public setRuleWeight(id: string, weight: number): this {
+    const rule = this.getRule(id);
+    if (typeof weight !== 'number' || !isFinite(weight)) {
+      throw new ProcessorError(`Invalid weight for page type rule "${id}"`, 'INVALID_PAGE_TYPE_RULE');
+    }
+    this.ruleWeights.set(rule.id, weight);
+    return this;
+  }
+
+  /**
+   * Change how rule evidence is turned into probabilities
+   * @param options Scoring options; omitted ones keep their current values
+   * @returns This detector for chaining
+   */
+  public setScoring(options: PageTypeScoringOptions): this {
+    const scoring = { ...this.scoring, ...options };
+    if (!(scoring.temperature > 0)) {
+      throw new ProcessorError('Page type scoring temperature must be greater than 0', 'INVALID_PAGE_TYPE_SCORING');
+    }
+    this.scoring = scoring;
+    return this;
+  }
+
+  /**
+   * Apply a declarative rule set: register its page types, add its rules,
+   * then apply its disable list, weights and scoring. A rule set that fails
+   * to apply leaves the detector unchanged.
+   * @param rules Rule set, or its JSON text (e.g. the contents of a rule file)
+   * @returns This detector for chaining
+   * @throws ProcessorError if the JSON is malformed or a rule is invalid
+   */
+  public loadRules(rules: PageTypeRuleSet | string): this {
+    let ruleSet: PageTypeRuleSet;
+    try {
+      ruleSet = typeof rules === 'string' ? JSON.parse(rules) : rules;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new ProcessorError(`Invalid page type rule file: ${errorMessage}`, 'INVALID_PAGE_TYPE_RULE', error instanceof Error ? error : undefined);
+    }
+
+    const snapshot = {
+      customTypes: new Map(this.customTypes),
+      detectionRules: [...this.detectionRules],
+      disabledRules: new Set(this.disabledRules),
+      ruleWeights: new Map(this.ruleWeights),
+      scoring: this.scoring
+    };
+    try {
+      (ruleSet.pageTypes || []).forEach(definition => this.registerPageType(definition));
+      (ruleSet.rules || []).forEach(({ type, ...rule }) => this.addRule(type, rule));
+      this.disableRules(ruleSet.disable || []);
+      Object.entries(ruleSet.weights || {}).forEach(([id, weight]) => this.setRuleWeight(id, weight));
+      if (ruleSet.scoring) {
+        this.setScoring(ruleSet.scoring);
+      }
+    } catch (error: unknown) {
+      // Roll back the page types and rules applied before the failure
+      this.customTypes = snapshot.customTypes;
+      this.detectionRules = snapshot.detectionRules;
+      this.disabledRules = snapshot.disabledRules;
+      this.ruleWeights = snapshot.ruleWeights;
+      this.scoring = snapshot.scoring;
+      throw error;
+    }
+    return this;
+  }
+
+  /**
+   * Get the page types this detector can report, built-in ones first
+   * @returns Page type names (without 'unknown')
+   */
+  public getPageTypes(): PageType[] {
+    return [...BUILTIN_PAGE_TYPES, ...Array.from(this.customTypes.keys())];
+  }
+
+  /**
+   * Get the detection rules in evaluation order
+   * @returns Rule ids, page types, weights in effect and whether they are enabled
+   */
+  public getRules(): PageTypeRuleInfo[] {
+    return this.detectionRules.map(rule => ({
+      id: rule.id,
+      type: rule.type,
+      weight: this.getWeight(rule),
+      reason: rule.reason,
+      enabled: !this.disabledRules.has(rule.id),
+      builtin: !rule.custom
+    }));
+  }
+
+  /**
+   * Get the options recommended for a page type
+   * @param type Page type
+   * @param characteristics Page characteristics, if known
+   * @returns Filter options, and converter options for custom types that define them
+   */
+  public getRecommendedOptions(
+    type: PageType,
+    characteristics?: PageCharacteristics
+  ): { filterOptions: FilterOptions; converterOptions?: ConverterOptions } {
+    const definition = this.customTypes.get(type);
+    return {
+      filterOptions: this.getFilterOptionsForType(type, characteristics || this.createUnknownResult('').characteristics),
+      ...(definition && definition.converterOptions ? { converterOptions: { ...definition.converterOptions } } : {})
+    };
+  }
+
   /**
    * Detects the page type based on HTML content and optional URL
    */
@@ -190,43 +721,91 @@ export class PageTypeDetector {
 
     try {
       const doc = await parseHTML(html);
-      const characteristics = this.analyzePageCharacteristics(html, doc);
-      const typeScores = this.calculateTypeScores(html, doc, characteristics, url);
-      
-      // Find the best match
-      const bestMatch = Object.entries(typeScores)
-        .sort(([,a], [,b]) => b.score - a.score)[0];
-
-      if (!bestMatch || bestMatch[1].score < 0.3) {
-        return this.createUnknownResult('No clear page type detected');
-      }
+      return this.detectPageTypeFromDocument(doc, html, url);
+    } catch (error) {
+      console.warn('[PageTypeDetector] Detection failed:', error);
+      return this.createUnknownResult('Detection failed due to parsing error');
+    }
+  }
 
-      const [type, result] = bestMatch;
-      const filterOptions = this.getFilterOptionsForType(type as PageType, characteristics);
+  /**
+   * Detects the page type of an already parsed document. The document is only read.
+   * @param doc Parsed document
+   * @param html HTML the document was parsed from, used by text-pattern rules
+   * @param url Optional URL for better detection accuracy
+   * @returns Detection result
+   */
+  public detectPageTypeFromDocument(doc: Document, html: string, url?: string): PageTypeResult {
+    if (!html) {
+      return this.createUnknownResult('Empty or invalid HTML content');
+    }
+
+    try {
+      const text = this.getVisibleText(doc);
+      const characteristics = this.analyzePageCharacteristics(html, text, doc);
+      const input: DetectionInput = { html, text, doc, chars: characteristics, url };
+      const typeScores = this.calculateTypeScores(input);
+      const scores: Record<string, number> = {};
+      Object.entries(typeScores).forEach(([type, { score }]) => { scores[type] = score; });
+      const modelDistribution = this.model ? this.model.predict(this.computeFeatures(input)) : undefined;
+      const distribution = this.blendDistributions(this.calculateDistribution(scores), modelDistribution);
+
+      // Types in order of probability, 'unknown' included
+      const ranked = Object.keys(distribution);
+      const [best, runnerUp] = ranked;
+      const unknown = (reason: string, labels: PageType[]): PageTypeResult => ({
+        ...this.createUnknownResult(reason),
+        // Abstaining between candidates keeps whatever content any of them would keep
+        ...(labels.length > 0 ? { filterOptions: this.combineFilterOptions(labels, characteristics) } : {}),
+        confidence: distribution.unknown,
+        distribution,
+        labels,
+        scores,
+        abstained: labels.length > 0,
+        ...(modelDistribution ? { modelDistribution } : {}),
+        characteristics
+      });
+
+      if (best === 'unknown') {
+        return unknown('No clear page type detected', []);
+      }
+      if (distribution[best] - distribution[runnerUp] < this.scoring.minMargin) {
+        const tied = ranked.filter(type => type !== 'unknown' && distribution[best] - distribution[type] < this.scoring.minMargin);
+        const candidates = tied.map(type => `${type} (${distribution[type].toFixed(2)})`).join(', ');
+        return unknown(`Too close to call: ${candidates}`, tied);
+      }
 
       return {
-        type: type as PageType,
-        confidence: result.score,
-        filterOptions,
-        reasons: result.reasons,
+        type: best,
+        confidence: distribution[best],
+        ...this.getRecommendedOptions(best, characteristics),
+        distribution,
+        labels: ranked.filter(type =>
+          type === best || (type !== 'unknown' && distribution[type] >= this.scoring.labelThreshold)),
+        scores,
+        abstained: false,
+        ...(modelDistribution ? { modelDistribution } : {}),
+        reasons: [
+          ...(typeScores[best] ? typeScores[best].reasons : []),
+          ...(modelDistribution ? [`Learned model gives ${best} ${(modelDistribution[best] || 0).toFixed(2)}`] : [])
+        ],
         characteristics
       };
 
     } catch (error) {
       console.warn('[PageTypeDetector] Detection failed:', error);
-      return this.createUnknownResult('Detection failed due to parsing error');
+      return this.createUnknownResult('Detection failed while analyzing the document');
     }
   }
 
   /**
    * Analyze page characteristics
    */
-  private analyzePageCharacteristics(html: string, doc: Document): PageCharacteristics {
+  private analyzePageCharacteristics(html: string, text: string, doc: Document): PageCharacteristics {
     const body = doc.body || doc;
     
-    // Calculate text and link density
-    const textContent = body.textContent || '';
-    const textLength = textContent.trim().length;
+    // Calculate text and link density from the visible text
+    const textLength = text.length;
     const htmlLength = html.length;
     const textDensity = htmlLength > 0 ? textLength / htmlLength : 0;
 
@@ -246,41 +825,120 @@ export class PageTypeDetector {
       linkDensity,
       textDensity,
       formCount: doc.querySelectorAll('form').length,
-      imageCount: doc.querySelectorAll('img').length
+      imageCount: doc.querySelectorAll('img').length,
+      structuredDataTypes: structuredDataExtractor.extractFromDocument(doc).types
     };
   }
 
   /**
-   * Calculate scores for each page type
+   * Collect the visible text of the body, leaving out scripts, styles and
+   * hidden elements, with text nodes separated by spaces
    */
-  private calculateTypeScores(
-    html: string, 
-    doc: Document, 
-    characteristics: PageCharacteristics,
-    url?: string
-  ): Record<string, { score: number; reasons: string[] }> {
-    const scores: Record<string, { score: number; reasons: string[] }> = {};
+  private getVisibleText(doc: Document): string {
+    const parts: string[] = [];
+    const visit = (node: Node): void => {
+      for (const child of Array.from(node.childNodes)) {
+        if (child.nodeType === 3) {
+          parts.push(child.nodeValue || '');
+        } else if (child.nodeType === 1) {
+          const element = child as Element;
+          if (INVISIBLE_ELEMENTS.has(element.tagName.toLowerCase()) ||
+              element.hasAttribute('hidden') ||
+              element.getAttribute('aria-hidden') === 'true') {
+            continue;
+          }
+          visit(element);
+        }
+      }
+    };
+    const root = doc.body || doc.documentElement;
+    if (root) visit(root);
+    return parts.join(' ').replace(/\s+/g, ' ').trim();
+  }
 
-    // Initialize all types
-    const allTypes: PageType[] = [
-      'search-engine', 'blog', 'news', 'documentation', 
-      'e-commerce', 'social-media', 'forum', 'landing-page', 'article'
-    ];
-    
-    allTypes.forEach(type => {
-      scores[type] = { score: 0, reasons: [] };
+  /**
+   * Model features: page characteristics, element counts, text statistics,
+   * URL shape and which detection rules match (disabled ones included)
+   */
+  private computeFeatures(input: DetectionInput): Record<string, number> {
+    const { doc, text, chars, url } = input;
+    const features: Record<string, number> = {
+      hasSearch: Number(chars.hasSearch),
+      hasNavigation: Number(chars.hasNavigation),
+      hasArticleContent: Number(chars.hasArticleContent),
+      hasProductListings: Number(chars.hasProductListings),
+      hasSocialFeatures: Number(chars.hasSocialFeatures),
+      hasComments: Number(chars.hasComments),
+      hasCodeBlocks: Number(chars.hasCodeBlocks),
+      linkDensity: chars.linkDensity,
+      textDensity: chars.textDensity,
+      forms: Math.log1p(chars.formCount),
+      images: Math.log1p(chars.imageCount)
+    };
+
+    Object.entries(DOM_FEATURES).forEach(([name, selector]) => {
+      features[`dom:${name}`] = Math.log1p(doc.querySelectorAll(selector).length);
     });
 
-    // Apply URL-based hints
+    const words = text ? text.split(' ').length : 0;
+    features['text:words'] = Math.log1p(words);
+    features['text:wordsPerParagraph'] = Math.log1p(words / Math.max(1, doc.querySelectorAll('p').length));
+
     if (url) {
-      this.applyUrlHints(url, scores);
+      const path = url.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]+/i, '').split(/[?#]/)[0];
+      features['url:depth'] = path.split('/').filter(Boolean).length;
+      features['url:query'] = Number(/\?./.test(url));
     }
 
-    // Apply detection rules
     for (const rule of this.detectionRules) {
       try {
-        if (rule.check(html, doc, characteristics)) {
-          scores[rule.type].score += rule.weight;
+        features[`rule:${rule.id}`] = Number(rule.check(input));
+      } catch (error) {
+        features[`rule:${rule.id}`] = 0;
+      }
+    }
+
+    return features;
+  }
+
+  /**
+   * Mix the rule distribution with the model's by the model weight
+   * @returns Blended probabilities, most likely first
+   */
+  private blendDistributions(
+    rules: Record<string, number>,
+    model?: Record<string, number>
+  ): Record<string, number> {
+    if (!model) {
+      return rules;
+    }
+    const weight = this.modelWeight;
+    const types = Array.from(new Set([...Object.keys(rules), ...Object.keys(model)]));
+    const distribution: Record<string, number> = {};
+    types
+      .map(type => [type, (1 - weight) * (rules[type] || 0) + weight * (model[type] || 0)] as [string, number])
+      .sort(([, a], [, b]) => b - a)
+      .forEach(([type, probability]) => { distribution[type] = probability; });
+    return distribution;
+  }
+
+  /**
+   * Sum the weights of the matching rules of each page type
+   */
+  private calculateTypeScores(input: DetectionInput): Record<string, { score: number; reasons: string[] }> {
+    const scores: Record<string, { score: number; reasons: string[] }> = {};
+
+    // Initialize all types
+    this.getPageTypes().forEach(type => {
+      scores[type] = { score: 0, reasons: [] };
+    });
+
+    // Apply detection rules, URL hints first
+    for (const rule of this.detectionRules) {
+      if (this.disabledRules.has(rule.id)) continue;
+      try {
+        if (rule.check(input)) {
+          scores[rule.type].score += this.getWeight(rule);
           scores[rule.type].reasons.push(rule.reason);
         }
       } catch (error) {
@@ -288,36 +946,26 @@ export class PageTypeDetector {
       }
     }
 
-    // Normalize scores
-    Object.keys(scores).forEach(type => {
-      scores[type].score = Math.min(1, scores[type].score);
-    });
-
     return scores;
   }
 
   /**
-   * Apply URL-based hints for page type detection
+   * Turn evidence into a probability distribution over the page types and
+   * 'unknown' with a softmax; ties keep the built-in type order
+   * @returns Probabilities, most likely first
    */
-  private applyUrlHints(url: string, scores: Record<string, { score: number; reasons: string[] }>): void {
-    const urlLower = url.toLowerCase();
-
-    const urlHints = [
-      { pattern: /google|bing|yahoo|baidu|duckduckgo/, type: 'search-engine', weight: 0.5 },
-      { pattern: /blog|wordpress|medium|substack/, type: 'blog', weight: 0.4 },
-      { pattern: /news|cnn|bbc|reuters|ap/, type: 'news', weight: 0.4 },
-      { pattern: /docs|documentation|api|guide/, type: 'documentation', weight: 0.4 },
-      { pattern: /shop|store|amazon|ebay|buy/, type: 'e-commerce', weight: 0.4 },
-      { pattern: /facebook|twitter|instagram|linkedin/, type: 'social-media', weight: 0.4 },
-      { pattern: /forum|reddit|stackoverflow/, type: 'forum', weight: 0.4 }
-    ];
+  private calculateDistribution(scores: Record<string, number>): Record<string, number> {
+    const { temperature, unknownScore } = this.scoring;
+    const evidence = Object.entries({ ...scores, unknown: unknownScore });
+    const max = Math.max(...evidence.map(([, score]) => score));
+    const weights = evidence.map(([type, score]) => [type, Math.exp((score - max) / temperature)] as [string, number]);
+    const total = weights.reduce((sum, [, weight]) => sum + weight, 0);
 
-    for (const hint of urlHints) {
-      if (hint.pattern.test(urlLower)) {
-        scores[hint.type].score += hint.weight;
-        scores[hint.type].reasons.push(`URL indicates ${hint.type} site`);
-      }
-    }
+    const distribution: Record<string, number> = {};
+    weights
+      .sort(([, a], [, b]) => b - a)
+      .forEach(([type, weight]) => { distribution[type] = weight / total; });
+    return distribution;
   }
 
   /**
@@ -332,6 +980,11 @@ export class PageTypeDetector {
       preserveStructure: false
     };
 
+    const definition = this.customTypes.get(type);
+    if (definition) {
+      return { ...baseOptions, ...definition.filterOptions };
+    }
+
     switch (type) {
       case 'search-engine':
         return {
@@ -340,7 +993,10 @@ export class PageTypeDetector {
           strategy: 'dynamic',
           ratio: 0.2,
           minWords: 1,
-          removeElements: ['script', 'style', 'nav', 'header', 'footer', 'aside', 'form']
+          removeElements: ['script', 'style', 'nav', 'header', 'footer', 'aside', 'form'],
+          // Results are mostly links, so link density says little about them
+          metricWeights: { linkDensity: 0.05 },
+          positivePattern: 'result|snippet|serp-item'
         };
 
       case 'blog':
@@ -351,7 +1007,9 @@ export class PageTypeDetector {
           ratio: 0.4,
           minWords: 5,
           preserveStructure: true,
-          keepElements: ['article', 'main', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'blockquote']
+          keepElements: ['article', 'main', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'blockquote'],
+          removeElements: ['.comments', '#comments', '.comment-list', '.social-share', '.share-buttons', '.related-posts'],
+          positivePattern: 'post-body|post-content|entry-content|entry|hentry|h-entry|article|blog'
         };
 
       case 'news':
@@ -362,7 +1020,10 @@ export class PageTypeDetector {
           ratio: 0.35,
           minWords: 10,
           preserveStructure: true,
-          keepElements: ['article', 'main', 'h1', 'h2', 'h3', 'p', 'time', 'figure']
+          keepElements: ['article', 'main', 'h1', 'h2', 'h3', 'p', 'time', 'figure', '.byline'],
+          removeElements: ['.comments', '#comments', '.social-share', '.related-articles', '.newsletter-signup'],
+          positivePattern: 'story|article-body|article|body-text|lede|content',
+          tagImportance: { figure: 1.1, figcaption: 1.0 }
         };
 
       case 'documentation':
@@ -373,7 +1034,11 @@ export class PageTypeDetector {
           ratio: 0.3,
           minWords: 3,
           preserveStructure: true,
-          keepElements: ['article', 'main', 'section', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'pre', 'code', 'ul', 'ol', 'li']
+          keepElements: ['article', 'main', 'section', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'pre', 'code', 'ul', 'ol', 'li'],
+          removeElements: ['.breadcrumb', '.breadcrumbs', '.toc', '.table-of-contents', '.docs-pagination', '.edit-page'],
+          positivePattern: 'docs?-content|markdown-body|documentation|content|article|main',
+          // Code samples, reference tables and option lists are the content
+          tagImportance: { pre: 1.3, code: 1.2, table: 1.1, tr: 0.9, td: 0.9, th: 0.95, ul: 1.0, ol: 1.0, li: 0.95, dl: 1.0 }
         };
 
       case 'e-commerce':
@@ -383,7 +1048,11 @@ export class PageTypeDetector {
           strategy: 'dynamic',
           ratio: 0.25,
           minWords: 2,
-          removeElements: ['nav', 'header', 'footer', 'aside', 'form', 'script', 'style']
+          removeElements: ['nav', 'header', 'footer', 'aside', 'form', 'script', 'style'],
+          // Prices are a single word, so protect them from minWords
+          keepElements: ['[itemprop="offers"]', '[itemprop="price"]', '.product-price'],
+          positivePattern: 'product|price|description|spec|detail',
+          tagImportance: { table: 1.1, dl: 1.0 }
         };
 
       case 'social-media':
@@ -393,7 +1062,9 @@ export class PageTypeDetector {
           strategy: 'dynamic',
           ratio: 0.3,
           minWords: 3,
-          removeElements: ['nav', 'header', 'footer', 'aside', 'script', 'style', 'form']
+          removeElements: ['nav', 'header', 'footer', 'aside', 'script', 'style', 'form'],
+          keepElements: ['.handle', '.username', '[itemprop="alternateName"]'],
+          positivePattern: 'post|tweet|status|feed-item|timeline'
         };
 
       case 'forum':
@@ -403,7 +1074,10 @@ export class PageTypeDetector {
           strategy: 'dynamic',
           ratio: 0.35,
           minWords: 5,
-          preserveStructure: true
+          preserveStructure: true,
+          // Replies live in comment-like containers, so 'comment' is not treated as noise
+          negativePattern: 'footer|footnote|sidebar|nav|navbar|navigation|advertisement|banner|social|share|sharing|related|recommended|trending|popular|ads?|popup|modal|overlay|cookie|consent|notification|breadcrumb|pagination',
+          positivePattern: 'post|message|answer|reply|thread|topic'
         };
 
       case 'article':
@@ -414,7 +1088,9 @@ export class PageTypeDetector {
           ratio: 0.45,
           minWords: 10,
           preserveStructure: true,
-          keepElements: ['article', 'main', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'blockquote', 'figure']
+          keepElements: ['article', 'main', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'blockquote', 'figure', '.byline'],
+          positivePattern: 'article|story|essay|entry-content|post-body|body-text|content',
+          metricWeights: { textLength: 0.15 }
         };
 
       case 'landing-page':
@@ -432,6 +1108,46 @@ export class PageTypeDetector {
     }
   }
 
+  /**
+   * Combine the filter options of several page types into options that keep
+   * what any of them keeps: the lowest word and score thresholds, only the
+   * removals all of them make, every kept element, and the other settings
+   * only where all of them agree
+   */
+  private combineFilterOptions(types: PageType[], characteristics: PageCharacteristics): FilterOptions {
+    const [first, ...rest] = types.map(type => this.getFilterOptionsForType(type, characteristics));
+    const combined: FilterOptions = {};
+    const shared = (key: keyof FilterOptions) =>
+      rest.every(options => JSON.stringify(options[key]) === JSON.stringify(first[key]));
+
+    (Object.keys(first) as Array<keyof FilterOptions>).forEach(key => {
+      if (shared(key)) {
+        (combined as any)[key] = first[key];
+      }
+    });
+    (['threshold', 'ratio', 'minWords'] as const).forEach(key => {
+      const values = [first, ...rest].map(options => options[key]).filter((value): value is number => value !== undefined);
+      if (values.length > 0) {
+        combined[key] = Math.min(...values);
+      }
+    });
+    combined.strategy = shared('strategy') ? first.strategy : 'dynamic';
+    combined.preserveStructure = [first, ...rest].some(options => options.preserveStructure);
+
+    const removals = (first.removeElements || []).filter(selector =>
+      rest.every(options => (options.removeElements || []).includes(selector)));
+    if (removals.length > 0) {
+      combined.removeElements = removals;
+    } else {
+      delete combined.removeElements;
+    }
+    const keeps = Array.from(new Set(([] as string[]).concat(...[first, ...rest].map(options => options.keepElements || []))));
+    if (keeps.length > 0) {
+      combined.keepElements = keeps;
+    }
+    return combined;
+  }
+
   // Helper methods for detecting specific page elements
   private hasSearchElements(doc: Document): boolean {
     const searchSelectors = [
@@ -530,16 +1246,16 @@ export class PageTypeDetector {
              doc.querySelector('.code'));
   }
 
-  private hasSearchEngineIndicators(html: string, doc: Document): boolean {
+  private hasSearchEngineIndicators(text: string, doc: Document): boolean {
     const indicators = [
       // Search result indicators
       () => doc.querySelector('.search-result') !== null,
       () => doc.querySelector('.result') !== null,
       () => doc.querySelector('[class*="suggest"]') !== null,
-      () => /search.*result|result.*search/i.test(html),
-      () => /autocomplete|suggestion/i.test(html),
+      () => /\bsearch results?\b|\bresults? for\b/i.test(text),
+      () => /\b(autocomplete|suggestions?|did you mean)\b/i.test(text),
       // Search engine specific
-      () => /google.*search|baidu.*search|bing.*search/i.test(html)
+      () => /\b(google|baidu|bing) search\b/i.test(text)
     ];
 
     return indicators.some(check => {
@@ -551,13 +1267,13 @@ export class PageTypeDetector {
     });
   }
 
-  private hasBlogIndicators(html: string, doc: Document): boolean {
+  private hasBlogIndicators(text: string, doc: Document): boolean {
     const indicators = [
       () => doc.querySelector('.post') !== null,
       () => doc.querySelector('.entry') !== null,
       () => doc.querySelector('.blog') !== null,
-      () => /posted.*by|published.*on|author/i.test(html),
-      () => /category|tag|archive/i.test(html)
+      () => /\b(posted by|published on|written by|author)\b/i.test(text),
+      () => /\b(categor(y|ies)|tags?|archives?)\b/i.test(text)
     ];
 
     return indicators.some(check => {
@@ -569,13 +1285,11 @@ export class PageTypeDetector {
     });
   }
 
-  private hasNewsIndicators(html: string, doc: Document): boolean {
+  private hasNewsIndicators(text: string, doc: Document): boolean {
     const indicators = [
-      () => doc.querySelector('time') !== null,
-      () => doc.querySelector('.byline') !== null,
-      () => doc.querySelector('.headline') !== null,
-      () => /breaking|news|reporter|journalist/i.test(html),
-      () => /published|updated|ago/i.test(html)
+      () => doc.querySelector('.byline, .dateline, .headline, [itemprop="dateline"]') !== null,
+      () => doc.querySelector('meta[property="article:published_time"], meta[property="article:section"]') !== null,
+      () => /\b(staff (reporter|writer)|reporting by|additional reporting)\b/i.test(text)
     ];
 
     return indicators.some(check => {
@@ -587,11 +1301,11 @@ export class PageTypeDetector {
     });
   }
 
-  private hasDocIndicators(html: string, doc: Document): boolean {
+  private hasDocIndicators(text: string, doc: Document): boolean {
     const indicators = [
       () => doc.querySelector('.toc') !== null,
       () => doc.querySelector('.table-of-contents') !== null,
-      () => /table.*of.*contents|api.*reference/i.test(html),
+      () => /\b(table of contents|api reference)\b/i.test(text),
       () => doc.querySelectorAll('h1, h2, h3, h4, h5, h6').length > 5
     ];
 
@@ -604,13 +1318,27 @@ export class PageTypeDetector {
     });
   }
 
-  private hasForumIndicators(html: string, doc: Document): boolean {
+  private countElements(doc: Document, selectors: string): number {
+    try {
+      return doc.querySelectorAll(selectors).length;
+    } catch {
+      return 0;
+    }
+  }
+
+  private hasMultiplePosters(doc: Document): boolean {
+    const posts = doc.querySelectorAll('.post, .reply, .answer, [itemprop="comment"], [itemtype*="Comment"]');
+    const authors = doc.querySelectorAll('.user, .username, .author, [itemprop="author"]');
+    return posts.length >= 2 && authors.length >= 2;
+  }
+
+  private hasForumIndicators(text: string, doc: Document): boolean {
     const indicators = [
       () => doc.querySelector('.thread') !== null,
       () => doc.querySelector('.post') !== null,
       () => doc.querySelector('.user') !== null,
-      () => /thread|forum|discussion|reply/i.test(html),
-      () => /joined|posts|reputation/i.test(html)
+      () => /\b\d+ repl(y|ies)\b|\b(started this thread|original poster|accepted answer|marked as solved)\b/i.test(text),
+      () => /\b(joined|member since)\b[^.]{0,20}\d|\b\d[\d,]* (posts|reputation)\b/i.test(text)
     ];
 
     return indicators.some(check => {
@@ -622,6 +1350,73 @@ export class PageTypeDetector {
     });
   }
 
+  /**
+   * Turn a rule's declarative conditions into a check
+   */
+  private compileRule(type: PageType, rule: PageTypeRule): DetectionRule {
+    const id = rule.id || `${type}/rule-${++this.ruleCounter}`;
+    const invalid = (problem: string) =>
+      new ProcessorError(`Invalid page type rule "${id}": ${problem}`, 'INVALID_PAGE_TYPE_RULE');
+
+    if (typeof rule.weight !== 'number' || !isFinite(rule.weight)) {
+      throw invalid('weight must be a number');
+    }
+    const compile = (pattern: string | RegExp | undefined, name: string): RegExp | null => {
+      if (pattern === undefined) return null;
+      try {
+        return pattern instanceof RegExp ? pattern : new RegExp(pattern, 'i');
+      } catch {
+        throw invalid(`${name} is not a valid regular expression`);
+      }
+    };
+    const pattern = compile(rule.pattern, 'pattern');
+    const urlPattern = compile(rule.urlPattern, 'urlPattern');
+    const { selector, check } = rule;
+    const minCount = rule.minCount || 1;
+    if (!pattern && !urlPattern && !selector && !check) {
+      throw invalid('it needs a check, selector, pattern or urlPattern');
+    }
+
+    return {
+      id,
+      type,
+      weight: rule.weight,
+      reason: rule.reason || id,
+      custom: true,
+      check: ({ html, text, doc, chars, url }) =>
+        (!urlPattern || (!!url && urlPattern.test(url))) &&
+        (!pattern || pattern.test(text)) &&
+        (!selector || doc.querySelectorAll(selector).length >= minCount) &&
+        (!check || check(html, doc, chars, url))
+    };
+  }
+
+  /**
+   * Reject rules whose ids are already in use, ignoring the rules of a type being replaced
+   */
+  private checkRuleIds(rules: DetectionRule[], replacing?: PageType): void {
+    const ids = new Set(this.detectionRules.filter(rule => rule.type !== replacing).map(rule => rule.id));
+    for (const rule of rules) {
+      if (ids.has(rule.id)) {
+        throw new ProcessorError(`Page type rule "${rule.id}" already exists`, 'INVALID_PAGE_TYPE_RULE');
+      }
+      ids.add(rule.id);
+    }
+  }
+
+  private getRule(id: string): DetectionRule {
+    const rule = this.detectionRules.find(candidate => candidate.id === id);
+    if (!rule) {
+      throw new ProcessorError(`Unknown page type rule "${id}"`, 'UNKNOWN_PAGE_TYPE_RULE');
+    }
+    return rule;
+  }
+
+  private getWeight(rule: DetectionRule): number {
+    const weight = this.ruleWeights.get(rule.id);
+    return weight !== undefined ? weight : rule.weight;
+  }
+
   private createUnknownResult(reason: string): PageTypeResult {
     return {
       type: 'unknown',
@@ -633,6 +1428,10 @@ export class PageTypeDetector {
         minWords: 2,
         preserveStructure: false
       },
+      distribution: { unknown: 1 },
+      labels: [],
+      scores: {},
+      abstained: false,
       reasons: [reason],
       characteristics: {
         hasSearch: false,
@@ -645,7 +1444,8 @@ export class PageTypeDetector {
         linkDensity: 0,
         textDensity: 0,
         formCount: 0,
-        imageCount: 0
+        imageCount: 0,
+        structuredDataTypes: []
       }
     };
   }
@@ -0,0 +1,230 @@
+/**
+ * Page Type Model - A small learned page type classifier
+ * Softmax regression over the features PageTypeDetector extracts, trained
+ * offline on labeled pages and blended with the rule-based detection
+ */
+
+import {
+  PageTypeModelData,
+  PageTypeSample,
+  PageTypeTrainingOptions,
+  PageTypeEvaluation,
+  PageTypeClassMetrics,
+  ProcessorError
+} from './types';
+
+const DEFAULT_TRAINING: Required<PageTypeTrainingOptions> = {
+  epochs: 300,
+  learningRate: 0.5,
+  l2: 0.01
+};
+
+export class PageTypeModel {
+  private readonly data: PageTypeModelData;
+
+  /**
+   * @param data Serialized model, e.g. parsed from a JSON model file
+   * @throws ProcessorError if the model is malformed
+   */
+  constructor(data: PageTypeModelData) {
+    validateModel(data);
+    this.data = data;
+  }
+
+  /**
+   * Create a model from its JSON text or parsed JSON
+   * @param json Model JSON
+   * @returns Model instance
+   */
+  static fromJSON(json: string | PageTypeModelData): PageTypeModel {
+    let data: PageTypeModelData;
+    try {
+      data = typeof json === 'string' ? JSON.parse(json) : json;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new ProcessorError(`Invalid page type model: ${errorMessage}`, 'INVALID_PAGE_TYPE_MODEL', error instanceof Error ? error : undefined);
+    }
+    return new PageTypeModel(data);
+  }
+
+  /**
+   * Page types the model predicts
+   */
+  getLabels(): string[] {
+    return [...this.data.labels];
+  }
+
+  /**
+   * Predict the probability of each page type
+   * @param features Page features; missing ones count as 0 and unknown ones are ignored
+   * @returns Probabilities, most likely first
+   */
+  predict(features: Record<string, number>): Record<string, number> {
+    const { features: names, mean, scale } = this.data;
+    const x = names.map((name, index) => ((features[name] || 0) - mean[index]) / scale[index]);
+    const probabilities = softmax(this.data.weights.map((row, label) => dot(row, x) + this.data.bias[label]));
+
+    const distribution: Record<string, number> = {};
+    this.data.labels
+      .map((label, index) => [label, probabilities[index]] as [string, number])
+      .sort(([, a], [, b]) => b - a)
+      .forEach(([label, probability]) => { distribution[label] = probability; });
+    return distribution;
+  }
+
+  /**
+   * Predict the most likely page type
+   * @param features Page features
+   * @returns Page type with the highest probability
+   */
+  classify(features: Record<string, number>): string {
+    return Object.keys(this.predict(features))[0];
+  }
+
+  /**
+   * Serialize the model
+   * @returns Plain data, suitable for JSON.stringify
+   */
+  toJSON(): PageTypeModelData {
+    return JSON.parse(JSON.stringify(this.data));
+  }
+}
+
+/**
+ * Train a page type model on labeled samples. Training is deterministic:
+ * the same samples and options give the same model.
+ * @param samples Labeled page features; at least two page types are needed
+ * @param options Iterations, learning rate and regularization
+ * @returns Trained model
+ * @throws ProcessorError if there are fewer than two page types
+ */
+export function trainPageTypeModel(samples: PageTypeSample[], options: PageTypeTrainingOptions = {}): PageTypeModel {
+  const { epochs, learningRate, l2 } = { ...DEFAULT_TRAINING, ...options };
+  const labels = Array.from(new Set(samples.map(sample => sample.label))).sort();
+  if (labels.length < 2) {
+    throw new ProcessorError('Training a page type model needs samples of at least two page types', 'INVALID_TRAINING_DATA');
+  }
+
+  const features = Array.from(new Set(([] as string[]).concat(...samples.map(sample => Object.keys(sample.features))))).sort();
+  const raw = samples.map(sample => features.map(name => sample.features[name] || 0));
+
+  // Standardize features so one learning rate suits all of them
+  const mean = features.map((_, column) => raw.reduce((sum, row) => sum + row[column], 0) / raw.length);
+  const scale = features.map((_, column) => {
+    const variance = raw.reduce((sum, row) => sum + (row[column] - mean[column]) ** 2, 0) / raw.length;
+    return variance > 0 ? Math.sqrt(variance) : 1;
+  });
+  const x = raw.map(row => row.map((value, column) => (value - mean[column]) / scale[column]));
+  const y = samples.map(sample => labels.indexOf(sample.label));
+
+  const weights = labels.map(() => features.map(() => 0));
+  const bias = labels.map(() => 0);
+
+  // Full-batch gradient descent on the regularized cross-entropy
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    const weightGradient = labels.map(() => features.map(() => 0));
+    const biasGradient = labels.map(() => 0);
+
+    x.forEach((row, sample) => {
+      const probabilities = softmax(weights.map((weightRow, label) => dot(weightRow, row) + bias[label]));
+      probabilities.forEach((probability, label) => {
+        const error = probability - (label === y[sample] ? 1 : 0);
+        biasGradient[label] += error;
+        row.forEach((value, column) => { weightGradient[label][column] += error * value; });
+      });
+    });
+
+    weights.forEach((weightRow, label) => {
+      weightRow.forEach((weight, column) => {
+        weightRow[column] -= learningRate * (weightGradient[label][column] / x.length + l2 * weight);
+      });
+      bias[label] -= learningRate * biasGradient[label] / x.length;
+    });
+  }
+
+  return new PageTypeModel({ version: 1, labels, features, mean, scale, weights, bias });
+}
+
+/**
+ * Evaluate a model, or any classifier, on labeled samples
+ * @param classify Model, or a function predicting a page type from features
+ * @param samples Labeled page features
+ * @returns Accuracy, per-type precision and recall, and the confusion matrix
+ */
+export function evaluatePageTypeModel(
+  classify: PageTypeModel | ((features: Record<string, number>) => string),
+  samples: PageTypeSample[]
+): PageTypeEvaluation {
+  const predict = typeof classify === 'function' ? classify : (features: Record<string, number>) => classify.classify(features);
+  return scorePageTypePredictions(samples.map(sample => [sample.label, predict(sample.features)]));
+}
+
+/**
+ * Score predicted page types against expected ones
+ * @param pairs [expected, predicted] page types
+ * @returns Accuracy, per-type precision and recall, and the confusion matrix
+ */
+export function scorePageTypePredictions(pairs: Array<[string, string]>): PageTypeEvaluation {
+  const confusion: Record<string, Record<string, number>> = {};
+  pairs.forEach(([expected, predicted]) => {
+    confusion[expected] = confusion[expected] || {};
+    confusion[expected][predicted] = (confusion[expected][predicted] || 0) + 1;
+  });
+
+  const types = Array.from(new Set(([] as string[]).concat(...pairs))).sort();
+  const classes: Record<string, PageTypeClassMetrics> = {};
+  types.forEach(type => {
+    const truePositives = pairs.filter(([expected, predicted]) => expected === type && predicted === type).length;
+    const predictedCount = pairs.filter(([, predicted]) => predicted === type).length;
+    const support = pairs.filter(([expected]) => expected === type).length;
+    const precision = predictedCount > 0 ? truePositives / predictedCount : 0;
+    const recall = support > 0 ? truePositives / support : 0;
+    classes[type] = {
+      precision,
+      recall,
+      f1: precision + recall > 0 ? 2 * precision * recall / (precision + recall) : 0,
+      support
+    };
+  });
+
+  const correct = pairs.filter(([expected, predicted]) => expected === predicted).length;
+  return {
+    accuracy: pairs.length > 0 ? correct / pairs.length : 0,
+    classes,
+    confusion
+  };
+}
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, value, index) => sum + value * b[index], 0);
+}
+
+function softmax(logits: number[]): number[] {
+  const max = Math.max(...logits);
+  const exps = logits.map(logit => Math.exp(logit - max));
+  const total = exps.reduce((sum, value) => sum + value, 0);
+  return exps.map(value => value / total);
+}
+
+/**
+ * Check that serialized model arrays have matching shapes
+ */
+function validateModel(data: PageTypeModelData): void {
+  const invalid = (problem: string) => new ProcessorError(`Invalid page type model: ${problem}`, 'INVALID_PAGE_TYPE_MODEL');
+  if (!data || data.version !== 1) {
+    throw invalid('unsupported version');
+  }
+  const { labels, features, mean, scale, weights, bias } = data;
+  if (!Array.isArray(labels) || labels.length < 2 || !Array.isArray(features)) {
+    throw invalid('labels and features are required');
+  }
+  if (!Array.isArray(mean) || mean.length !== features.length || !Array.isArray(scale) || scale.length !== features.length) {
+    throw invalid('mean and scale need one value per feature');
+  }
+  if (!Array.isArray(weights) || weights.length !== labels.length || weights.some(row => !Array.isArray(row) || row.length !== features.length)) {
+    throw invalid('weights need one row per label and one column per feature');
+  }
+  if (!Array.isArray(bias) || bias.length !== labels.length) {
+    throw invalid('bias needs one value per label');
+  }
+}
@@ -1,18 +1,83 @@
-import { Plugin, PluginContext, PluginError } from './types';
+import {
+  Plugin,
+  PluginContext,
+  PluginEntry,
+  PluginError,
+  PluginFailurePolicy,
+  PluginRegistration,
+  PluginStage,
+  PluginStats,
+  PluginRegistryOptions,
+  PluginSelection,
+  ConversionRule
+} from './types';
 import { VERSION } from './version';
+import { NoiseMatcher, AD_NOISE_TOKENS, DEFAULT_NOISE_ALLOWLIST } from './noise-matcher';
 
 /**
- * Global plugin registry
+ * Stage hooks a plugin may implement, in pipeline order
  */
-class PluginRegistry {
+const PLUGIN_STAGES: PluginStage[] = [
+  'beforeParse',
+  'afterParse',
+  'beforeFilter',
+  'afterFilter',
+  'beforeConvert',
+  'onElement',
+  'afterConvert'
+];
+
+/**
+ * Plugin functions and hooks, as named in stats and failures
+ */
+type PluginCall = PluginStage | 'filter' | 'convert';
+
+/**
+ * Number of recent failures kept per plugin in stats
+ */
+const MAX_RECORDED_FAILURES = 10;
+
+/**
+ * Millisecond clock, high resolution where available
+ */
+const now = (): number =>
+  typeof performance !== 'undefined' && typeof performance.now === 'function' ? performance.now() : Date.now();
+
+/**
+ * Plugin registry. The global registry backs usePlugin(); processors given
+ * their own plugins get a separate registry, which can inherit the plugins of
+ * a parent registry and enable or disable plugins by name.
+ */
+export class PluginRegistry {
   private plugins: Map<string, Plugin> = new Map();
+  private registrations: Map<string, PluginRegistration> = new Map();
   private initializationOrder: string[] = [];
+  private readonly parent: PluginRegistry | null;
+  private readonly enabled: Set<string>;
+  private readonly disabled: Set<string>;
+  /** Incremented whenever plugins are added or removed */
+  private revision = 0;
+  /** Active plugins in run order, with the revision they were computed at */
+  private runOrder: { revision: number; plugins: Plugin[] } | null = null;
+  /** Stats of plugins run through this registry, by plugin name */
+  private stats: Map<string, PluginStats> = new Map();
+  /** Plugins disabled by a disableAfter failure policy */
+  private failed: Set<string> = new Set();
+  /** Stats of each processing run, keyed by its plugin context */
+  private runStats: WeakMap<PluginContext, Map<string, PluginStats>> = new WeakMap();
+
+  constructor(options: PluginRegistryOptions = {}) {
+    this.parent = options.parent || null;
+    this.enabled = new Set(options.enable || []);
+    this.disabled = new Set(options.disable || []);
+  }
 
   /**
    * Register a new plugin
    * @param plugin Plugin to register
+   * @param registration Config passed to the plugin's init function, and its failure policy
    */
-  register(plugin: Plugin): void {
+  register(plugin: Plugin, registration: PluginRegistration = {}): void {
     if (this.plugins.has(plugin.name)) {
       throw new PluginError(
         `Plugin with name "${plugin.name}" is already registered`,
@@ -20,16 +85,24 @@ class PluginRegistry {
       );
     }
 
+    // Reject constraints that cannot be satisfied before initializing the plugin
+    try {
+      this.sortPlugins([...this.getAll().filter(registered => registered.name !== plugin.name), plugin]);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new PluginError(`Cannot order plugin "${plugin.name}": ${errorMessage}`, plugin.name);
+    }
+
     try {
       // Initialize plugin if it has an init function
       if (plugin.init) {
-        plugin.init();
+        plugin.init(registration.config);
       }
 
       this.plugins.set(plugin.name, plugin);
+      this.registrations.set(plugin.name, registration);
       this.initializationOrder.push(plugin.name);
-
-      console.log(`[PluginManager] Registered plugin: ${plugin.name}${plugin.version ? ` v${plugin.version}` : ''}`);
+      this.revision++;
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       throw new PluginError(
@@ -56,13 +129,7 @@ class PluginRegistry {
         plugin.destroy();
       }
 
-      this.plugins.delete(name);
-      const index = this.initializationOrder.indexOf(name);
-      if (index > -1) {
-        this.initializationOrder.splice(index, 1);
-      }
-
-      console.log(`[PluginManager] Unregistered plugin: ${name}`);
+      this.forget(name);
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       throw new PluginError(
@@ -74,29 +141,68 @@ class PluginRegistry {
   }
 
   /**
-   * Get a registered plugin
+   * Unregister this registry's own plugins in reverse registration order,
+   * calling each plugin's destroy function. Inherited plugins are left alone.
+   * Every plugin is unregistered even if one fails to destroy; the first
+   * failure is thrown afterwards.
+   */
+  destroy(): void {
+    let firstError: unknown = null;
+    for (const name of [...this.initializationOrder].reverse()) {
+      try {
+        this.unregister(name);
+      } catch (error: unknown) {
+        // A plugin whose destroy function throws is still dropped
+        this.forget(name);
+        firstError = firstError || error;
+      }
+    }
+    if (firstError) {
+      throw firstError;
+    }
+  }
+
+  /**
+   * Drop a plugin from this registry without calling its destroy function
+   * @param name Plugin name
+   */
+  private forget(name: string): void {
+    this.plugins.delete(name);
+    this.registrations.delete(name);
+    this.failed.delete(name);
+    const index = this.initializationOrder.indexOf(name);
+    if (index > -1) {
+      this.initializationOrder.splice(index, 1);
+    }
+    this.revision++;
+  }
+
+  /**
+   * Get a registered plugin, including inherited ones
    * @param name Plugin name
    * @returns Plugin instance or undefined
    */
   get(name: string): Plugin | undefined {
-    return this.plugins.get(name);
+    return this.plugins.get(name) || (this.parent ? this.parent.get(name) : undefined);
   }
 
   /**
-   * Check if a plugin is registered
+   * Check if a plugin is registered, including inherited ones
    * @param name Plugin name
    * @returns True if plugin is registered
    */
   has(name: string): boolean {
-    return this.plugins.has(name);
+    return this.get(name) !== undefined;
   }
 
   /**
-   * Get all registered plugins
+   * Get all registered plugins: inherited ones first, then this registry's
+   * own, which replace inherited plugins of the same name
    * @returns Array of all plugins
    */
   getAll(): Plugin[] {
-    return Array.from(this.plugins.values());
+    const inherited = this.parent ? this.parent.getAll().filter(plugin => !this.plugins.has(plugin.name)) : [];
+    return [...inherited, ...this.initializationOrder.map(name => this.plugins.get(name)!)];
   }
 
   /**
@@ -104,7 +210,53 @@ class PluginRegistry {
    * @returns Array of plugin names
    */
   getNames(): string[] {
-    return [...this.initializationOrder];
+    return this.getAll().map(plugin => plugin.name);
+  }
+
+  /**
+   * Check whether a plugin runs: a plugin disabled by its failure policy does
+   * not; otherwise the nearest registry that enables or disables it by name
+   * decides, and failing that its own enabled flag
+   * @param plugin Registered plugin
+   * @returns True if the plugin's functions and hooks run
+   */
+  isEnabled(plugin: Plugin): boolean {
+    if (this.failed.has(plugin.name)) return false;
+    if (this.disabled.has(plugin.name)) return false;
+    if (this.enabled.has(plugin.name)) return true;
+    if (this.parent && !this.plugins.has(plugin.name)) return this.parent.isEnabled(plugin);
+    return plugin.enabled !== false;
+  }
+
+  /**
+   * Get plugins in the order their functions and hooks run: by priority
+   * (highest first), then registration order, moved as needed to satisfy
+   * before/after constraints. Disabled plugins are left out.
+   * @returns Enabled plugins in run order
+   */
+  getOrdered(): Plugin[] {
+    const revision = this.getRevision();
+    if (!this.runOrder || this.runOrder.revision !== revision) {
+      this.runOrder = { revision, plugins: this.sortPlugins(this.getAll().filter(plugin => this.isEnabled(plugin))) };
+    }
+    return [...this.runOrder.plugins];
+  }
+
+  /**
+   * Check whether any enabled plugin filters HTML
+   * @returns True if applyFilterPlugins may change the HTML
+   */
+  hasFilterPlugins(): boolean {
+    return this.getOrdered().some(plugin => typeof plugin.filter === 'function');
+  }
+
+  /**
+   * Check whether any enabled plugin implements a stage hook
+   * @param stage Pipeline stage
+   * @returns True if the stage has hooks
+   */
+  hasHooks(stage: PluginStage): boolean {
+    return this.getOrdered().some(plugin => typeof plugin[stage] === 'function');
   }
 
   /**
@@ -113,22 +265,13 @@ class PluginRegistry {
    * @param context Plugin context
    * @returns Processed HTML content
    */
-  applyFilterPlugins(html: string, context: PluginContext): string {
+  async applyFilterPlugins(html: string, context: PluginContext): Promise<string> {
     let result = html;
 
-    for (const name of this.initializationOrder) {
-      const plugin = this.plugins.get(name);
-      if (plugin && plugin.filter) {
-        try {
-          const processed = plugin.filter(result, context);
-          if (typeof processed === 'string') {
-            result = processed;
-          }
-        } catch (error: unknown) {
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          console.warn(`[PluginManager] Filter plugin "${name}" failed:`, errorMessage);
-          // Continue with other plugins instead of throwing
-        }
+    for (const plugin of this.getOrdered()) {
+      const processed = await this.invoke(plugin, 'filter', result, context);
+      if (typeof processed === 'string') {
+        result = processed;
       }
     }
 
@@ -136,35 +279,254 @@ class PluginRegistry {
   }
 
   /**
-   * Apply conversion plugins to Markdown content
+   * Apply conversion plugins to Markdown content: each plugin's convert
+   * function, then its afterConvert hook
    * @param markdown Markdown content to process
    * @param context Plugin context
    * @returns Processed Markdown content
    */
-  applyConvertPlugins(markdown: string, context: PluginContext): string {
+  async applyConvertPlugins(markdown: string, context: PluginContext): Promise<string> {
     let result = markdown;
 
-    for (const name of this.initializationOrder) {
-      const plugin = this.plugins.get(name);
-      if (plugin && plugin.convert) {
-        try {
-          const processed = plugin.convert(result, context);
-          if (typeof processed === 'string') {
-            result = processed;
+    for (const plugin of this.getOrdered()) {
+      const processed = await this.invoke(plugin, 'convert', result, context);
+      if (typeof processed === 'string') {
+        result = processed;
+      }
+      const converted = await this.invoke(plugin, 'afterConvert', result, context);
+      if (typeof converted === 'string') {
+        result = converted;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Run the beforeParse hooks over HTML about to be parsed
+   * @param html HTML content
+   * @param context Plugin context
+   * @returns HTML to parse
+   */
+  async runBeforeParse(html: string, context: PluginContext): Promise<string> {
+    let result = html;
+    for (const plugin of this.getOrdered()) {
+      const processed = await this.invoke(plugin, 'beforeParse', result, context);
+      if (typeof processed === 'string') {
+        result = processed;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Run a document stage's hooks; hooks modify the document in place
+   * @param stage Document stage
+   * @param doc Document
+   * @param context Plugin context
+   */
+  async runDocumentHooks(
+    stage: 'afterParse' | 'beforeFilter' | 'afterFilter' | 'beforeConvert',
+    doc: Document,
+    context: PluginContext
+  ): Promise<void> {
+    for (const plugin of this.getOrdered()) {
+      await this.invoke(plugin, stage, doc, context);
+    }
+  }
+
+  /**
+   * Run the onElement hooks over the elements under root, in document order.
+   * An element a hook returns false for is removed with its subtree, and
+   * neither later hooks nor its descendants see it.
+   * @param root Root whose descendants are visited
+   * @param context Plugin context
+   */
+  async runElementHooks(root: Element, context: PluginContext): Promise<void> {
+    const plugins = this.getOrdered().filter(plugin => typeof plugin.onElement === 'function');
+    if (plugins.length === 0) return;
+
+    const visit = async (parent: Element): Promise<void> => {
+      for (const element of Array.from(parent.children)) {
+        let keep = true;
+        for (const plugin of plugins) {
+          // A plugin disabled by its failure policy during the walk is skipped
+          if (this.failed.has(plugin.name)) continue;
+          if (await this.invoke(plugin, 'onElement', element, context) === false) {
+            keep = false;
+            break;
           }
-        } catch (error: unknown) {
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          console.warn(`[PluginManager] Convert plugin "${name}" failed:`, errorMessage);
-          // Continue with other plugins instead of throwing
+        }
+        if (keep) {
+          await visit(element);
+        } else {
+          element.parentNode?.removeChild(element);
         }
       }
+    };
+    await visit(root);
+  }
+
+  /**
+   * Call one of a plugin's functions or hooks, timing it and applying the
+   * plugin's failure policy if it throws
+   * @returns What the function returned, or undefined if it has none or failed
+   * @throws PluginError when the failure policy is 'throw'
+   */
+  private async invoke(plugin: Plugin, call: PluginCall, value: unknown, context: PluginContext): Promise<unknown> {
+    const fn = plugin[call] as ((value: unknown, context: PluginContext) => unknown) | undefined;
+    if (typeof fn !== 'function') {
+      return undefined;
     }
 
-    return result;
+    const records = [this.getStatsRecord(this.stats, plugin.name), this.getStatsRecord(this.getRunRecords(context), plugin.name)];
+    const startTime = now();
+    try {
+      return await fn.call(plugin, value, context);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      records.forEach(record => {
+        record.failures++;
+        record.errors.push({ stage: call, message: errorMessage });
+        if (record.errors.length > MAX_RECORDED_FAILURES) record.errors.shift();
+      });
+
+      const policy = this.getFailurePolicy(plugin, context);
+      if (policy === 'throw') {
+        throw new PluginError(
+          `Plugin "${plugin.name}" failed in ${call}: ${errorMessage}`,
+          plugin.name,
+          error instanceof Error ? error : undefined
+        );
+      }
+
+      console.warn(`[PluginManager] ${call} of plugin "${plugin.name}" failed:`, errorMessage);
+      if (policy !== 'skip' && records[0].failures >= policy.disableAfter) {
+        this.failed.add(plugin.name);
+        this.revision++;
+        records.forEach(record => { record.disabled = true; });
+        console.warn(`[PluginManager] Disabled plugin "${plugin.name}" after ${records[0].failures} failures`);
+      }
+      return undefined;
+    } finally {
+      const elapsed = now() - startTime;
+      records.forEach(record => {
+        record.calls++;
+        record.time += elapsed;
+      });
+    }
   }
 
   /**
-   * Clear all plugins
+   * Failure policy of a plugin: its registration's, then its own, then the
+   * processor's, defaulting to 'skip'
+   */
+  private getFailurePolicy(plugin: Plugin, context: PluginContext): PluginFailurePolicy {
+    const registration = this.getRegistration(plugin.name);
+    return (registration && registration.onError)
+      || plugin.onError
+      || (context.options && context.options.pluginFailurePolicy)
+      || 'skip';
+  }
+
+  /**
+   * Registration options of a plugin, including inherited ones
+   */
+  private getRegistration(name: string): PluginRegistration | undefined {
+    if (this.plugins.has(name)) return this.registrations.get(name);
+    return this.parent ? this.parent.getRegistration(name) : undefined;
+  }
+
+  /**
+   * Stats records of the run a plugin context belongs to
+   */
+  private getRunRecords(context: PluginContext): Map<string, PluginStats> {
+    let records = this.runStats.get(context);
+    if (!records) {
+      records = new Map();
+      this.runStats.set(context, records);
+    }
+    return records;
+  }
+
+  /**
+   * Get or create a plugin's stats record
+   */
+  private getStatsRecord(records: Map<string, PluginStats>, name: string): PluginStats {
+    let record = records.get(name);
+    if (!record) {
+      record = { name, calls: 0, failures: 0, time: 0, disabled: false, errors: [] };
+      records.set(name, record);
+    }
+    return record;
+  }
+
+  /**
+   * Revision covering this registry and its ancestors; changes whenever any of them does
+   */
+  private getRevision(): number {
+    return this.revision + (this.parent ? this.parent.getRevision() : 0);
+  }
+
+  /**
+   * Order plugins by priority and registration order, then satisfy
+   * before/after constraints; names of unregistered plugins are ignored
+   * @param plugins Plugins in registration order
+   * @returns Plugins in run order
+   */
+  private sortPlugins(plugins: Plugin[]): Plugin[] {
+    const position = new Map(plugins.map((plugin, index) => [plugin.name, index]));
+    const incoming = new Map<string, Set<string>>(plugins.map(plugin => [plugin.name, new Set<string>()]));
+
+    for (const plugin of plugins) {
+      for (const name of plugin.before || []) {
+        if (position.has(name) && name !== plugin.name) incoming.get(name)!.add(plugin.name);
+      }
+      for (const name of plugin.after || []) {
+        if (position.has(name) && name !== plugin.name) incoming.get(plugin.name)!.add(name);
+      }
+    }
+
+    const rank = (a: Plugin, b: Plugin) =>
+      (b.priority || 0) - (a.priority || 0) || position.get(a.name)! - position.get(b.name)!;
+    const pending = [...plugins].sort(rank);
+    const ordered: Plugin[] = [];
+    const placed = new Set<string>();
+
+    while (pending.length > 0) {
+      // Take the highest-ranked plugin whose predecessors have all run
+      const index = pending.findIndex(plugin => Array.from(incoming.get(plugin.name)!).every(name => placed.has(name)));
+      if (index === -1) {
+        throw new Error(`circular before/after constraints between ${pending.map(plugin => `"${plugin.name}"`).join(', ')}`);
+      }
+      const [plugin] = pending.splice(index, 1);
+      ordered.push(plugin);
+      placed.add(plugin.name);
+    }
+
+    return ordered;
+  }
+
+  /**
+   * Collect element conversion rules contributed by plugins
+   * @returns Rules keyed as "<plugin>/<rule>", in plugin run order
+   */
+  getConversionRules(): Record<string, ConversionRule> {
+    const rules: Record<string, ConversionRule> = {};
+
+    for (const plugin of this.getOrdered()) {
+      if (plugin.rules) {
+        Object.entries(plugin.rules).forEach(([ruleName, rule]) => {
+          rules[`${plugin.name}/${ruleName}`] = rule;
+        });
+      }
+    }
+
+    return rules;
+  }
+
+  /**
+   * Clear all plugins registered in this registry (inherited plugins stay)
    */
   clear(): void {
     // Destroy all plugins first
@@ -179,11 +541,35 @@ class PluginRegistry {
 
     this.plugins.clear();
     this.initializationOrder.length = 0;
+    this.revision++;
+  }
+
+  /**
+   * Get the stats of the plugins called during one processing run
+   * @param context Plugin context of the run
+   * @returns Stats of each plugin called, in first-call order
+   */
+  getRunStats(context: PluginContext): PluginStats[] {
+    const records = this.runStats.get(context);
+    return records ? Array.from(records.values()).map(copyStats) : [];
+  }
+
+  /**
+   * Reset the plugin stats of this registry and re-enable plugins disabled
+   * by their failure policy
+   */
+  resetStats(): void {
+    this.stats.clear();
+    if (this.failed.size > 0) {
+      this.failed.clear();
+      this.revision++;
+    }
   }
 
   /**
    * Get registry statistics
-   * @returns Registry statistics
+   * @returns Registry statistics, with the call counts, timing and failures
+   * of each plugin run through this registry since it was created or reset
    */
   getStats() {
     const plugins = this.getAll();
@@ -191,21 +577,97 @@ class PluginRegistry {
       total: plugins.length,
       withFilter: plugins.filter(p => typeof p.filter === 'function').length,
       withConvert: plugins.filter(p => typeof p.convert === 'function').length,
+      withHooks: plugins.filter(p => PLUGIN_STAGES.some(stage => typeof p[stage] === 'function')).length,
+      withRules: plugins.filter(p => p.rules && Object.keys(p.rules).length > 0).length,
       withInit: plugins.filter(p => typeof p.init === 'function').length,
-      withDestroy: plugins.filter(p => typeof p.destroy === 'function').length
+      withDestroy: plugins.filter(p => typeof p.destroy === 'function').length,
+      plugins: Array.from(this.stats.values()).map(copyStats)
     };
   }
 }
 
+/**
+ * Copy a stats record so callers cannot change the registry's
+ */
+function copyStats(stats: PluginStats): PluginStats {
+  return { ...stats, errors: stats.errors.map(error => ({ ...error })) };
+}
+
+/**
+ * Register a plugin list, whose items may carry registration options
+ */
+function registerAll(registry: PluginRegistry, plugins: Array<Plugin | PluginEntry>): void {
+  plugins.forEach(item => {
+    if (typeof (item as Plugin).name === 'string') {
+      registry.register(item as Plugin);
+    } else {
+      const { plugin, ...registration } = item as PluginEntry;
+      registry.register(plugin, registration);
+    }
+  });
+}
+
 // Global plugin registry instance
 const globalRegistry = new PluginRegistry();
 
+/**
+ * Create a plugin registry separate from the global one
+ * @param plugins Plugins to register, each optionally as { plugin, config, onError }
+ * @param options Parent registry and plugins enabled or disabled by name
+ * @returns New PluginRegistry instance
+ */
+export function createPluginRegistry(
+  plugins: Array<Plugin | PluginEntry> = [],
+  options: PluginRegistryOptions = {}
+): PluginRegistry {
+  const registry = new PluginRegistry(options);
+  registerAll(registry, plugins);
+  return registry;
+}
+
+/**
+ * Resolve the plugins option of a processor or stream to a registry
+ * @param plugins A registry, a plugin list (isolated from the global
+ * registry), or a selection that inherits the global plugins by default
+ * @returns The global registry when no plugins option is given
+ * @internal
+ */
+export function resolvePluginRegistry(plugins?: Array<Plugin | PluginEntry> | PluginSelection | PluginRegistry): PluginRegistry {
+  if (!plugins) {
+    return globalRegistry;
+  }
+  if (plugins instanceof PluginRegistry) {
+    return plugins;
+  }
+  if (Array.isArray(plugins)) {
+    return createPluginRegistry(plugins);
+  }
+  return createPluginRegistry(plugins.use, {
+    parent: plugins.inheritGlobal === false ? null : globalRegistry,
+    enable: plugins.enable,
+    disable: plugins.disable
+  });
+}
+
+/**
+ * Check whether resolvePluginRegistry creates a new registry for a plugins
+ * option, which the caller then owns and should destroy when done
+ * @param plugins Plugins option of a processor, stream or batch
+ * @returns True for a plugin list or selection
+ * @internal
+ */
+export function createsPluginRegistry(plugins?: Array<Plugin | PluginEntry> | PluginSelection | PluginRegistry): boolean {
+  return !!plugins && !(plugins instanceof PluginRegistry);
+}
+
 /**
  * Register a plugin globally
  * @param plugin Plugin to register
+ * @param registration Config passed to the plugin's init function, and its failure policy
  */
-export function usePlugin(plugin: Plugin): void {
-  globalRegistry.register(plugin);
+export function usePlugin(plugin: Plugin, registration?: PluginRegistration): void {
+  globalRegistry.register(plugin, registration);
+  console.log(`[PluginManager] Registered plugin: ${plugin.name}${plugin.version ? ` v${plugin.version}` : ''}`);
 }
 
 /**
@@ -214,6 +676,7 @@ export function usePlugin(plugin: Plugin): void {
  */
 export function removePlugin(name: string): void {
   globalRegistry.unregister(name);
+  console.log(`[PluginManager] Unregistered plugin: ${name}`);
 }
 
 /**
@@ -259,18 +722,55 @@ export function clearPlugins(): void {
 
 /**
  * Get plugin registry statistics
- * @returns Registry statistics
+ * @returns Registry statistics, including per-plugin calls, timing and failures
  */
 export function getPluginStats() {
   return globalRegistry.getStats();
 }
 
+/**
+ * Reset the global plugin stats and re-enable plugins disabled by their failure policy
+ */
+export function resetPluginStats(): void {
+  globalRegistry.resetStats();
+}
+
 /**
  * Export the registry for internal use
  * @internal
  */
 export { globalRegistry as pluginRegistry };
 
+/**
+ * Ad containers removed by the ad-remover plugin, matched on class/id tokens
+ * so names like "header" or "download" are left alone
+ */
+const adMatcher = new NoiseMatcher(AD_NOISE_TOKENS, DEFAULT_NOISE_ALLOWLIST);
+
+/**
+ * Social widgets removed by the social-remover plugin, matched on class/id
+ * tokens so names like "shareholder-report" or "socialist-history" are left alone
+ */
+const socialMatcher = new NoiseMatcher(
+  ['social', 'share', 'shares', 'sharing', 'tweet', 'tweets', 'facebook', 'twitter', 'linkedin'],
+  []
+);
+
+/**
+ * Removes the body elements a predicate matches, with their subtrees
+ * @param doc Document to modify
+ * @param predicate Element test
+ */
+function removeElements(doc: Document, predicate: (element: Element) => boolean): void {
+  if (!doc.body) return;
+  Array.from(doc.body.querySelectorAll('*')).forEach(element => {
+    // Elements inside an already removed subtree are skipped
+    if (element.parentNode && doc.body.contains(element) && predicate(element)) {
+      element.parentNode.removeChild(element);
+    }
+  });
+}
+
 /**
  * Built-in plugins for common use cases
  */
@@ -282,11 +782,8 @@ export const builtinPlugins = {
     name: 'ad-remover',
     version: VERSION,
     description: 'Removes advertisement elements from HTML',
-    filter: (html: string) => {
-      return html.replace(
-        /<[^>]*class[^>]*(?:ad|advertisement|banner|sponsored)[^>]*>.*?<\/[^>]+>/gi,
-        ''
-      );
+    beforeFilter: (doc: Document) => {
+      removeElements(doc, element => adMatcher.matchElement(element) !== null);
     }
   } as Plugin,
 
@@ -297,11 +794,8 @@ export const builtinPlugins = {
     name: 'social-remover',
     version: VERSION,
     description: 'Removes social media widgets and share buttons',
-    filter: (html: string) => {
-      return html.replace(
-        /<[^>]*class[^>]*(?:social|share|tweet|facebook|twitter|linkedin)[^>]*>.*?<\/[^>]+>/gi,
-        ''
-      );
+    beforeFilter: (doc: Document) => {
+      removeElements(doc, element => socialMatcher.matchElement(element) !== null);
     }
   } as Plugin,
 
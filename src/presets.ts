@@ -35,7 +35,9 @@ export const presets: Record<PresetName, ProcessorOptions> = {
       ratio: 0.55,
       minWords: 10,
       preserveStructure: true,
-      removeElements: ['nav', 'aside', 'footer', '.ads', '.advertisement', '.sidebar']
+      removeElements: ['nav', 'aside', 'footer', '.ads', '.advertisement', '.sidebar'],
+      positivePattern: 'article|story|essay|entry-content|post-body|body-text|content',
+      metricWeights: { textLength: 0.15 }
     },
     converter: {
       citations: true,
@@ -57,7 +59,8 @@ export const presets: Record<PresetName, ProcessorOptions> = {
       ratio: 0.50,
       minWords: 5,
       preserveStructure: true,
-      removeElements: ['nav', 'aside', '.comments', '.social-share', '.ads']
+      removeElements: ['nav', 'aside', '.comments', '.social-share', '.ads'],
+      positivePattern: 'post-body|post-content|entry-content|entry|hentry|h-entry|article|blog'
     },
     converter: {
       citations: false,
@@ -82,7 +85,9 @@ export const presets: Record<PresetName, ProcessorOptions> = {
       removeElements: [
         'nav', 'aside', 'footer', '.ads', '.advertisement', 
         '.related-articles', '.social-share', '.comments'
-      ]
+      ],
+      positivePattern: 'story|article-body|article|body-text|lede|content',
+      tagImportance: { figure: 1.1, figcaption: 1.0 }
     },
     converter: {
       citations: true,
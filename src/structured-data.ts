@@ -0,0 +1,330 @@
+/**
+ * Structured Data Extractor - Reads schema.org data embedded as JSON-LD, Microdata and RDFa
+ * Produces one normalized item shape regardless of the embedding syntax
+ */
+
+import { parseHTML } from './dom-adapter';
+import {
+  StructuredDataItem,
+  StructuredDataValue,
+  StructuredDataResult,
+  StructuredDataFormat
+} from './types';
+
+/**
+ * Vocabulary prefixes stripped from types and property names
+ */
+const VOCABULARY_PREFIX = /^(?:https?:\/\/schema\.org\/|schema:)/i;
+
+/**
+ * Elements whose Microdata/RDFa value is read from a URL attribute
+ */
+const URL_VALUE_ATTRIBUTES: Record<string, string> = {
+  a: 'href',
+  area: 'href',
+  link: 'href',
+  img: 'src',
+  audio: 'src',
+  video: 'src',
+  source: 'src',
+  embed: 'src',
+  iframe: 'src',
+  track: 'src',
+  object: 'data'
+};
+
+/**
+ * Parses every JSON-LD block in a document into a flat list of top-level nodes.
+ * Arrays and @graph containers are unwrapped; malformed blocks are reported in errors.
+ * @param doc Parsed document
+ * @param errors Optional list collecting parse error messages
+ * @returns Raw JSON-LD nodes
+ */
+export function parseJsonLdBlocks(doc: Document, errors: string[] = []): Record<string, any>[] {
+  const nodes: Record<string, any>[] = [];
+  const scripts = Array.from(doc.querySelectorAll('script[type="application/ld+json"]'));
+
+  scripts.forEach((script, index) => {
+    let data: any;
+    try {
+      // Some CMSs wrap the block in CDATA or HTML comments
+      const source = (script.textContent || '')
+        .replace(/^\s*(?:<!--|\/\/<!\[CDATA\[)/, '')
+        .replace(/(?:-->|\/\/\]\]>)\s*$/, '');
+      data = JSON.parse(source);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      errors.push(`JSON-LD block ${index + 1}: ${errorMessage}`);
+      return;
+    }
+
+    const queue: any[] = Array.isArray(data) ? [...data] : [data];
+    while (queue.length > 0) {
+      const node = queue.shift();
+      if (!node || typeof node !== 'object') continue;
+      if (Array.isArray(node['@graph'])) {
+        queue.push(...node['@graph']);
+        if (!node['@type']) continue;
+      }
+      nodes.push(node);
+    }
+  });
+
+  return nodes;
+}
+
+export class StructuredDataExtractor {
+  /**
+   * Extracts structured data from an HTML string
+   * @param html Raw HTML, before any filtering
+   * @returns Extracted items and parse errors
+   */
+  public async extract(html: string): Promise<StructuredDataResult> {
+    if (!html) {
+      return { items: [], types: [], errors: [] };
+    }
+
+    const doc = await parseHTML(html);
+    return this.extractFromDocument(doc);
+  }
+
+  /**
+   * Extracts structured data from an already parsed document
+   * @param doc Parsed document
+   * @returns Extracted items and parse errors
+   */
+  public extractFromDocument(doc: Document): StructuredDataResult {
+    const errors: string[] = [];
+    const items: StructuredDataItem[] = [
+      ...parseJsonLdBlocks(doc, errors).map(node => this.fromJsonLd(node)),
+      ...this.extractMicrodata(doc),
+      ...this.extractRdfa(doc)
+    ];
+
+    const types = Array.from(new Set(
+      items.reduce((all: string[], item) => all.concat(this.collectTypes(item)), [])
+    ));
+
+    return { items, types, errors };
+  }
+
+  /**
+   * Finds items of the given type, searching nested items as well
+   * @param result Extraction result
+   * @param type schema.org type name (e.g. 'Product')
+   * @returns Matching items in document order
+   */
+  public findByType(result: StructuredDataResult, type: string): StructuredDataItem[] {
+    const matches: StructuredDataItem[] = [];
+    const visit = (item: StructuredDataItem) => {
+      if (item.types.includes(type)) {
+        matches.push(item);
+      }
+      Object.values(item.properties).forEach(values => values.forEach(value => {
+        if (this.isItem(value)) visit(value);
+      }));
+    };
+
+    result.items.forEach(visit);
+    return matches;
+  }
+
+  /**
+   * Converts a JSON-LD node into a normalized item
+   */
+  private fromJsonLd(node: Record<string, any>): StructuredDataItem {
+    const item = this.createItem('json-ld', node['@type'], node['@id']);
+
+    Object.entries(node).forEach(([key, raw]) => {
+      if (key.startsWith('@')) return;
+
+      const values = (Array.isArray(raw) ? raw : [raw])
+        .map(value => this.jsonLdValue(value))
+        .filter((value): value is StructuredDataValue => value !== undefined);
+      if (values.length > 0) {
+        item.properties[this.normalizeName(key)] = values;
+      }
+    });
+
+    return item;
+  }
+
+  private jsonLdValue(value: any): StructuredDataValue | undefined {
+    if (value === null || value === undefined) {
+      return undefined;
+    }
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      return value;
+    }
+    if (typeof value === 'object') {
+      if ('@value' in value) {
+        return this.jsonLdValue(value['@value']);
+      }
+      return this.fromJsonLd(value);
+    }
+    return undefined;
+  }
+
+  /**
+   * Extracts top-level Microdata items (itemscope elements that are not properties)
+   */
+  private extractMicrodata(doc: Document): StructuredDataItem[] {
+    return Array.from(doc.querySelectorAll('[itemscope]'))
+      .filter(element => !element.hasAttribute('itemprop'))
+      .map(element => this.fromMicrodata(element, doc));
+  }
+
+  /**
+   * @param path Items being read further up, which itemref and nested items cannot re-enter
+   */
+  private fromMicrodata(element: Element, doc: Document, path: Set<Element> = new Set()): StructuredDataItem {
+    const item = this.createItem('microdata', (element.getAttribute('itemtype') || '').split(/\s+/), element.getAttribute('itemid') || undefined);
+    const itemPath = new Set(path).add(element);
+
+    const roots: Element[] = [element];
+    (element.getAttribute('itemref') || '').split(/\s+/).filter(Boolean).forEach(id => {
+      const referenced = doc.getElementById(id);
+      if (referenced && !itemPath.has(referenced) && !roots.includes(referenced)) roots.push(referenced);
+    });
+
+    const properties: Element[] = [];
+    roots.forEach(root => {
+      if (root !== element && root.hasAttribute('itemprop')) properties.push(root);
+      // A referenced item's own properties belong to it, not to this item
+      if (root === element || !root.hasAttribute('itemscope')) {
+        this.collectScopedProperties(root, 'itemscope', 'itemprop', properties);
+      }
+    });
+
+    properties.filter((property, index) => properties.indexOf(property) === index).forEach(property => {
+      if (itemPath.has(property)) {
+        return;
+      }
+      const value = property.hasAttribute('itemscope')
+        ? this.fromMicrodata(property, doc, itemPath)
+        : this.elementValue(property, 'itemprop');
+      (property.getAttribute('itemprop') || '').split(/\s+/).filter(Boolean).forEach(name => {
+        this.addProperty(item, name, value);
+      });
+    });
+
+    return item;
+  }
+
+  /**
+   * Extracts top-level RDFa items (typeof elements that are not properties)
+   */
+  private extractRdfa(doc: Document): StructuredDataItem[] {
+    return Array.from(doc.querySelectorAll('[typeof]'))
+      .filter(element => !element.hasAttribute('property'))
+      .map(element => this.fromRdfa(element));
+  }
+
+  private fromRdfa(element: Element): StructuredDataItem {
+    const id = element.getAttribute('resource') || element.getAttribute('about') || element.getAttribute('href') || undefined;
+    const item = this.createItem('rdfa', (element.getAttribute('typeof') || '').split(/\s+/), id);
+
+    const properties: Element[] = [];
+    this.collectScopedProperties(element, 'typeof', 'property', properties);
+
+    properties.forEach(property => {
+      const value = property.hasAttribute('typeof')
+        ? this.fromRdfa(property)
+        : this.elementValue(property, 'property');
+      (property.getAttribute('property') || '').split(/\s+/).filter(Boolean).forEach(name => {
+        this.addProperty(item, name, value);
+      });
+    });
+
+    return item;
+  }
+
+  /**
+   * Collects property elements belonging to a scope without descending into nested scopes
+   */
+  private collectScopedProperties(root: Element, scopeAttr: string, propAttr: string, out: Element[]): void {
+    Array.from(root.children).forEach(child => {
+      if (child.hasAttribute(propAttr)) {
+        out.push(child);
+      }
+      if (!child.hasAttribute(scopeAttr)) {
+        this.collectScopedProperties(child, scopeAttr, propAttr, out);
+      }
+    });
+  }
+
+  /**
+   * Reads the value of a Microdata or RDFa property element
+   */
+  private elementValue(element: Element, propAttr: string): string {
+    const tag = element.tagName.toLowerCase();
+
+    if (element.hasAttribute('content')) {
+      return element.getAttribute('content') || '';
+    }
+    if (propAttr === 'property') {
+      const resource = element.getAttribute('resource') || element.getAttribute('href') || element.getAttribute('src');
+      if (resource) return resource;
+    }
+    if (URL_VALUE_ATTRIBUTES[tag]) {
+      return element.getAttribute(URL_VALUE_ATTRIBUTES[tag]) || '';
+    }
+    if (tag === 'data' || tag === 'meter') {
+      return element.getAttribute('value') || '';
+    }
+    if (tag === 'time' && element.hasAttribute('datetime')) {
+      return element.getAttribute('datetime') || '';
+    }
+    return (element.textContent || '').replace(/\s+/g, ' ').trim();
+  }
+
+  private createItem(format: StructuredDataFormat, rawTypes: unknown, id?: string): StructuredDataItem {
+    const typeList = Array.isArray(rawTypes) ? rawTypes : [rawTypes];
+    const types = typeList
+      .filter((type): type is string => typeof type === 'string' && type.length > 0)
+      .map(type => this.normalizeName(type));
+
+    return {
+      types,
+      ...(id ? { id } : {}),
+      format,
+      properties: {}
+    };
+  }
+
+  private addProperty(item: StructuredDataItem, name: string, value: StructuredDataValue): void {
+    const key = this.normalizeName(name);
+    if (!item.properties[key]) {
+      item.properties[key] = [];
+    }
+    item.properties[key].push(value);
+  }
+
+  private collectTypes(item: StructuredDataItem): string[] {
+    const types = [...item.types];
+    Object.values(item.properties).forEach(values => values.forEach(value => {
+      if (this.isItem(value)) types.push(...this.collectTypes(value));
+    }));
+    return types;
+  }
+
+  private isItem(value: StructuredDataValue): value is StructuredDataItem {
+    return typeof value === 'object' && value !== null;
+  }
+
+  private normalizeName(name: string): string {
+    return name.replace(VOCABULARY_PREFIX, '');
+  }
+}
+
+// Export singleton instance
+export const structuredDataExtractor = new StructuredDataExtractor();
+
+/**
+ * Extract JSON-LD, Microdata and RDFa items from raw HTML
+ * @param html HTML content
+ * @returns Normalized structured data items
+ */
+export async function extractStructuredData(html: string): Promise<StructuredDataResult> {
+  return structuredDataExtractor.extract(html);
+}
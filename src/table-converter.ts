@@ -0,0 +1,340 @@
+/**
+ * Table Converter - Normalizes HTML tables into a cell grid and renders the
+ * fallback representations used when a table cannot be written as Markdown
+ */
+
+/**
+ * Column alignment read from align attributes or text-align styles
+ */
+export type ColumnAlignment = 'left' | 'center' | 'right' | null;
+
+/**
+ * One position in the normalized table grid
+ */
+export interface TableGridCell {
+  /** Source <td>/<th> element */
+  element: HTMLElement;
+  /** Whether the source cell is a <th> */
+  header: boolean;
+  /** False when the position is covered by a colspan/rowspan of another cell */
+  origin: boolean;
+}
+
+/**
+ * Table normalized into a rectangular grid
+ */
+export interface TableGrid {
+  /** Caption text, or empty string */
+  caption: string;
+  /** Number of leading rows that form the header */
+  headerRows: number;
+  /** Grid rows; null marks positions no cell covers */
+  rows: Array<Array<TableGridCell | null>>;
+  /** Width of the widest row */
+  columnCount: number;
+}
+
+/**
+ * Largest span honoured, following the HTML table processing model
+ */
+const MAX_COLSPAN = 1000;
+const MAX_ROWSPAN = 65534;
+
+/**
+ * Cell content that cannot be written on a single Markdown table line
+ */
+const BLOCK_CONTENT_SELECTOR = 'ul, ol, pre, blockquote, table, dl, hr, h1, h2, h3, h4, h5, h6';
+
+/**
+ * Elements kept by the HTML fallback, with the attributes each may keep
+ */
+const CLEAN_HTML_ATTRIBUTES: Record<string, string[]> = {
+  table: [],
+  caption: [],
+  thead: [],
+  tbody: [],
+  tfoot: [],
+  tr: [],
+  th: ['colspan', 'rowspan', 'scope'],
+  td: ['colspan', 'rowspan'],
+  a: ['href', 'title'],
+  img: ['src', 'alt'],
+  strong: [],
+  b: [],
+  em: [],
+  i: [],
+  code: [],
+  pre: [],
+  br: [],
+  p: [],
+  ul: [],
+  ol: ['start', 'reversed'],
+  li: ['value'],
+  sub: [],
+  sup: [],
+  del: [],
+  s: []
+};
+
+const VOID_ELEMENTS = new Set(['br', 'img']);
+const STRUCTURAL_ELEMENTS = new Set(['table', 'thead', 'tbody', 'tfoot', 'tr', 'ul', 'ol']);
+const DROPPED_ELEMENTS = new Set(['script', 'style', 'template', 'noscript']);
+const INLINE_TEXT_ELEMENTS = new Set([
+  'a', 'abbr', 'b', 'bdi', 'bdo', 'cite', 'code', 'data', 'del', 'dfn', 'em', 'i', 'ins', 'kbd',
+  'mark', 'q', 's', 'samp', 'small', 'span', 'strong', 'sub', 'sup', 'time', 'u', 'var'
+]);
+
+function childElements(element: Element, ...tags: string[]): HTMLElement[] {
+  return Array.from(element.children)
+    .filter(child => tags.includes(child.tagName.toLowerCase())) as HTMLElement[];
+}
+
+function parseSpan(value: string | null, max: number): number {
+  const span = parseInt(value || '', 10);
+  return isNaN(span) || span < 1 ? 1 : Math.min(span, max);
+}
+
+/**
+ * Builds the cell grid for a table, ignoring rows and cells of nested tables
+ * @param table Table element
+ * @returns Normalized grid
+ */
+export function buildTableGrid(table: HTMLElement): TableGrid {
+  const headRows = childElements(table, 'thead').reduce(
+    (rows: HTMLElement[], section) => rows.concat(childElements(section, 'tr')), []
+  );
+  const bodyRows: HTMLElement[] = [];
+  Array.from(table.children).forEach(child => {
+    const tag = child.tagName.toLowerCase();
+    if (tag === 'tr') bodyRows.push(child as HTMLElement);
+    if (tag === 'tbody') bodyRows.push(...childElements(child, 'tr'));
+  });
+  const footRows = childElements(table, 'tfoot').reduce(
+    (rows: HTMLElement[], section) => rows.concat(childElements(section, 'tr')), []
+  );
+  const rows = [...headRows, ...bodyRows, ...footRows];
+
+  const grid: Array<Array<TableGridCell | null>> = rows.map(() => []);
+  rows.forEach((row, rowIndex) => {
+    let column = 0;
+    childElements(row, 'td', 'th').forEach(cell => {
+      while (grid[rowIndex][column]) column++;
+      const colspan = parseSpan(cell.getAttribute('colspan'), MAX_COLSPAN);
+      const rowspan = Math.min(parseSpan(cell.getAttribute('rowspan'), MAX_ROWSPAN), rows.length - rowIndex);
+      const header = cell.tagName.toLowerCase() === 'th';
+
+      for (let r = 0; r < rowspan; r++) {
+        for (let c = 0; c < colspan; c++) {
+          grid[rowIndex + r][column + c] = { element: cell, header, origin: r === 0 && c === 0 };
+        }
+      }
+      column += colspan;
+    });
+  });
+
+  const columnCount = grid.reduce((max, row) => Math.max(max, row.length), 0);
+  grid.forEach(row => {
+    for (let c = 0; c < columnCount; c++) {
+      if (!row[c]) row[c] = null;
+    }
+  });
+
+  // Without <thead>, a first row made only of <th> cells is the header
+  let headerRows = headRows.length;
+  if (headerRows === 0 && grid.length > 0 && grid[0].length > 0 &&
+      grid[0].every(cell => cell !== null && cell.header)) {
+    headerRows = 1;
+  }
+
+  const caption = childElements(table, 'caption')[0];
+  return {
+    caption: caption ? (caption.textContent || '').replace(/\s+/g, ' ').trim() : '',
+    headerRows,
+    rows: grid,
+    columnCount
+  };
+}
+
+/**
+ * Detects tables used for page layout rather than tabular data
+ * @param table Table element
+ * @param grid Normalized grid of the table
+ * @returns True if the table should be unwrapped into its cell contents
+ */
+export function isLayoutTable(table: HTMLElement, grid: TableGrid): boolean {
+  const role = (table.getAttribute('role') || '').toLowerCase();
+  if (role === 'presentation' || role === 'none') {
+    return true;
+  }
+
+  // Captions and header cells mark a data table, even when cells hold nested tables
+  const cells = originCells(grid);
+  if (grid.caption || cells.some(cell => cell.header)) {
+    return false;
+  }
+  if (grid.columnCount <= 1) {
+    return true;
+  }
+  if (grid.rows.length === 1 && grid.headerRows === 0) {
+    return true;
+  }
+
+  // Cells holding tables, headings, forms or navigation are page structure
+  return cells.some(cell =>
+    cell.element.querySelector('table, h1, h2, h3, h4, h5, h6, form, nav') !== null
+  );
+}
+
+/**
+ * Checks whether a data table fits GFM pipe-table syntax
+ * @param grid Normalized grid
+ * @returns True if the table has exactly one header row and single-line cells
+ */
+export function canRenderAsPipeTable(grid: TableGrid): boolean {
+  if (grid.headerRows !== 1 || grid.rows.length === 0) {
+    return false;
+  }
+  // A header cell spanning into the body cannot be expressed
+  if (grid.rows[0].some((cell, column) => cell && grid.rows[1]?.[column]?.element === cell.element)) {
+    return false;
+  }
+  return originCells(grid).every(cell =>
+    cell.element.querySelector(BLOCK_CONTENT_SELECTOR) === null &&
+    cell.element.querySelectorAll('p').length <= 1
+  );
+}
+
+/**
+ * Reads column alignments from the header row, falling back to the first body row
+ * @param grid Normalized grid
+ * @returns Alignment per column
+ */
+export function getColumnAlignments(grid: TableGrid): ColumnAlignment[] {
+  const alignments: ColumnAlignment[] = [];
+  for (let column = 0; column < grid.columnCount; column++) {
+    let alignment: ColumnAlignment = null;
+    for (const row of grid.rows.slice(0, grid.headerRows + 1)) {
+      const cell = row[column];
+      if (cell && cell.origin) {
+        alignment = readAlignment(cell.element);
+        if (alignment) break;
+      }
+    }
+    alignments.push(alignment);
+  }
+  return alignments;
+}
+
+function readAlignment(element: HTMLElement): ColumnAlignment {
+  const style = (element.getAttribute('style') || '').match(/text-align\s*:\s*(left|center|right)/i);
+  const value = (style ? style[1] : element.getAttribute('align') || '').toLowerCase();
+  return value === 'left' || value === 'center' || value === 'right' ? value : null;
+}
+
+function originCells(grid: TableGrid): TableGridCell[] {
+  const cells: TableGridCell[] = [];
+  grid.rows.forEach(row => row.forEach(cell => {
+    if (cell && cell.origin) cells.push(cell);
+  }));
+  return cells;
+}
+
+/**
+ * Renders a table as HTML keeping only structure, spans, alignment and basic inline markup
+ * @param table Table element
+ * @param resolveUrl Resolves link and image URLs
+ * @returns Cleaned table markup without blank lines
+ */
+export function cleanTableHtml(table: HTMLElement, resolveUrl: (url: string) => string = url => url): string {
+  return cleanNode(table, resolveUrl).trim();
+}
+
+/**
+ * Renders a list as HTML with the same cleaning as tables, keeping its numbering attributes
+ * @param list List element
+ * @param resolveUrl Resolves link and image URLs
+ * @returns Cleaned list markup without blank lines
+ */
+export function cleanListHtml(list: HTMLElement, resolveUrl: (url: string) => string = url => url): string {
+  return cleanNode(list, resolveUrl).trim();
+}
+
+function cleanNode(node: Node, resolveUrl: (url: string) => string): string {
+  // Text nodes
+  if (node.nodeType === 3) {
+    return escapeHtml((node.textContent || '').replace(/\s+/g, ' '));
+  }
+  if (node.nodeType !== 1) {
+    return '';
+  }
+
+  const element = node as HTMLElement;
+  const tag = element.tagName.toLowerCase();
+  if (DROPPED_ELEMENTS.has(tag)) {
+    return '';
+  }
+
+  const children = Array.from(element.childNodes)
+    // Whitespace between rows and sections carries no content
+    .filter(child => !(STRUCTURAL_ELEMENTS.has(tag) && child.nodeType === 3 && !(child.textContent || '').trim()))
+    .map(child => cleanNode(child, resolveUrl))
+    .join(STRUCTURAL_ELEMENTS.has(tag) ? '\n' : '');
+
+  const allowed = CLEAN_HTML_ATTRIBUTES[tag];
+  if (!allowed) {
+    return children;
+  }
+
+  const attributes = allowed
+    .filter(name => element.hasAttribute(name))
+    .map(name => {
+      const value = element.getAttribute(name) || '';
+      return ` ${name}="${escapeHtml(name === 'href' || name === 'src' ? resolveUrl(value) : value, true)}"`;
+    });
+  if (tag === 'td' || tag === 'th') {
+    const alignment = readAlignment(element);
+    if (alignment) attributes.push(` align="${alignment}"`);
+  }
+
+  const open = `<${tag}${attributes.join('')}>`;
+  if (VOID_ELEMENTS.has(tag)) {
+    return open;
+  }
+  const close = `</${tag}>`;
+  return STRUCTURAL_ELEMENTS.has(tag)
+    ? `${open}\n${children.trim()}\n${close}`.replace(/\n{2,}/g, '\n')
+    : `${open}${children.trim()}${close}`;
+}
+
+function escapeHtml(text: string, attribute: boolean = false): string {
+  const escaped = text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  return attribute ? escaped.replace(/"/g, '&quot;') : escaped;
+}
+
+/**
+ * Reads the plain text of a cell, separating block-level children with spaces
+ * @param cell Table cell element
+ * @returns Whitespace-normalized text
+ */
+export function getCellText(cell: HTMLElement): string {
+  const collect = (node: Node): string => {
+    if (node.nodeType === 3) return node.textContent || '';
+    if (node.nodeType !== 1) return '';
+    const tag = (node as HTMLElement).tagName.toLowerCase();
+    if (DROPPED_ELEMENTS.has(tag)) return '';
+    const text = Array.from(node.childNodes).map(collect).join('');
+    return INLINE_TEXT_ELEMENTS.has(tag) ? text : ` ${text} `;
+  };
+  return collect(cell).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Formats one CSV record (RFC 4180 quoting)
+ * @param values Field values
+ * @returns CSV line
+ */
+export function formatCsvRow(values: string[]): string {
+  return values
+    .map(value => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)
+    .join(',');
+}
@@ -1,3 +1,9 @@
+import type { PageTypeResult } from './page-type-detector';
+import type { WorkerPool } from './worker-pool';
+import type { DOMParserInterface } from './dom-adapter';
+import type { PluginRegistry } from './plugin-manager';
+import type { PageTypeDetector } from './page-type-detector';
+
 /**
  * Configuration options for HTML processing
  */
@@ -14,8 +20,125 @@ export interface ProcessorOptions {
   autoDetect?: boolean;
   /** Debug mode for additional logging */
   debug?: boolean;
+  /** DOM implementation used to parse HTML: a backend name or an injected implementation (default: 'auto') */
+  domBackend?: DomBackend | DomImplementation;
+  /**
+   * Plugins for this processor instead of the global registry: a plugin list
+   * (isolated), a selection (inherits the global plugins by default) or a
+   * registry. Default: the global registry.
+   */
+  plugins?: Array<Plugin | PluginEntry> | PluginSelection | PluginRegistry;
+  /** What a plugin failure does, unless set for the plugin itself (default: 'skip') */
+  pluginFailurePolicy?: PluginFailurePolicy;
+  /** Detector used by withAutoDetection() and withPageType() (default: the shared pageTypeDetector) */
+  pageTypeDetector?: PageTypeDetector;
+}
+
+/**
+ * What happens when a plugin function or hook throws:
+ * - 'throw': processing fails with a PluginError
+ * - 'skip': the failure is recorded and logged, and processing continues without it
+ * - { disableAfter: n }: as 'skip', and the plugin is disabled in its registry after n failures
+ */
+export type PluginFailurePolicy = 'throw' | 'skip' | { disableAfter: number };
+
+/**
+ * Options given when registering a plugin
+ */
+export interface PluginRegistration {
+  /** Passed to the plugin's init function */
+  config?: any;
+  /** Failure policy for this plugin; takes precedence over the plugin's and the processor's */
+  onError?: PluginFailurePolicy;
+}
+
+/**
+ * A plugin together with its registration options
+ */
+export interface PluginEntry extends PluginRegistration {
+  plugin: Plugin;
+}
+
+/**
+ * One recorded plugin failure
+ */
+export interface PluginFailure {
+  /** Function or hook that threw */
+  stage: PluginStage | 'filter' | 'convert';
+  /** Error message */
+  message: string;
+}
+
+/**
+ * Call counts, timing and failures of one plugin, for a registry (since it
+ * was created or reset) or for a single processing run
+ */
+export interface PluginStats {
+  /** Plugin name */
+  name: string;
+  /** Number of function and hook calls */
+  calls: number;
+  /** Number of calls that threw */
+  failures: number;
+  /** Time spent in the plugin's functions and hooks, in milliseconds */
+  time: number;
+  /** Whether the failure policy has disabled the plugin */
+  disabled: boolean;
+  /** Most recent failures, oldest first (at most 10) */
+  errors: PluginFailure[];
+}
+
+/**
+ * Per-processor plugin selection
+ */
+export interface PluginSelection {
+  /** Plugins registered for this processor only; they replace global plugins of the same name */
+  use?: Array<Plugin | PluginEntry>;
+  /** Whether globally registered plugins run too (default: true) */
+  inheritGlobal?: boolean;
+  /** Plugin names to run, including plugins registered with enabled: false */
+  enable?: string[];
+  /** Plugin names to skip */
+  disable?: string[];
+}
+
+/**
+ * Options for a plugin registry created with createPluginRegistry
+ */
+export interface PluginRegistryOptions {
+  /** Registry whose plugins are inherited; own plugins of the same name replace them */
+  parent?: PluginRegistry | null;
+  /** Plugin names to run, including plugins registered with enabled: false */
+  enable?: string[];
+  /** Plugin names to skip */
+  disable?: string[];
 }
 
+/**
+ * Processor input: HTML markup, or an already parsed Document or Element
+ * (e.g. from jsdom, happy-dom or a browser page), which is never modified
+ */
+export type HtmlInput = string | Document | Element;
+
+/**
+ * DOM implementation choices: the browser's own DOM, jsdom, or the built-in
+ * pure-JS lite DOM. 'auto' uses native in browsers, jsdom in Node.js when it
+ * is installed, and lite otherwise (Web Workers, Node.js without jsdom).
+ */
+export type DomBackend = 'auto' | 'native' | 'jsdom' | 'lite';
+
+/**
+ * DOM backend after resolving 'auto'
+ */
+export type ResolvedDomBackend = Exclude<DomBackend, 'auto'>;
+
+/**
+ * DOM implementation supplied by the caller instead of a built-in backend:
+ * a window-like object with a DOMParser constructor (a jsdom or happy-dom
+ * window), or a DOMParser instance
+ */
+export type DomImplementation = { DOMParser: new () => DOMParserInterface } | DOMParserInterface;
+
 /**
  * Available preset configuration names
  */
@@ -24,21 +147,133 @@ export type PresetName = 'article' | 'blog' | 'news' | 'strict' | 'loose' | 'def
 /**
  * HTML filtering configuration options
  */
-export interface FilterOptions {
+export interface FilterOptions extends FilterScoringOptions {
   /** Content threshold for filtering (default: 2) */
   threshold?: number;
   /** Filtering strategy (default: 'dynamic') */
-  strategy?: 'fixed' | 'dynamic';
+  strategy?: FilterStrategy;
   /** Content ratio threshold (default: 0.48) */
   ratio?: number;
-  /** Minimum word count requirement (default: 0) */
+  /** Paragraph-level blocks with fewer words are dropped (default: 0, off) */
   minWords?: number;
-  /** Whether to preserve HTML structure during filtering */
+  /** Keep the wrappers of retained content even when the wrapper itself scores low */
   preserveStructure?: boolean;
-  /** HTML elements to remove completely */
+  /** CSS selectors of elements removed before scoring (e.g. '.ads', 'aside') */
   removeElements?: string[];
-  /** HTML elements to keep (whitelist) */
+  /** CSS selectors of elements protected from pruning, noise removal and minWords (whitelist) */
   keepElements?: string[];
+  /** Class/id tokens that mark noise containers; replaces DEFAULT_NOISE_TOKENS */
+  noiseTokens?: string[];
+  /** Class/id token sequences never treated as noise (e.g. 'hero-banner'); replaces DEFAULT_NOISE_ALLOWLIST */
+  noiseAllowlist?: string[];
+  /** Record why each element was kept or removed, returned as FilterResult.trace (default: false) */
+  explain?: boolean;
+}
+
+/**
+ * Metrics combined into the composite pruning score
+ */
+export type FilterMetric = 'textDensity' | 'linkDensity' | 'tagWeight' | 'classIdWeight' | 'textLength';
+
+/**
+ * Scoring overrides for HtmlFilter; anything left unset keeps the built-in default
+ */
+export interface FilterScoringOptions {
+  /** Importance per tag name, merged over the defaults (e.g. { pre: 1.3 }) */
+  tagImportance?: Record<string, number>;
+  /** Weight of each metric in the composite score, merged over the defaults */
+  metricWeights?: Partial<Record<FilterMetric, number>>;
+  /** Enables or disables individual metrics, merged over the defaults (all enabled) */
+  metricConfig?: Partial<Record<FilterMetric, boolean>>;
+  /** Class/id pattern that penalizes a node; replaces the default pattern. Alternatives match whole name tokens ('nav' matches '.main-nav', not '.canvas') */
+  negativePattern?: RegExp | string;
+  /** Class/id pattern that boosts a node's score (e.g. 'post-body|entry-content'); replaces the default pattern, which only guides the readability strategy */
+  positivePattern?: RegExp | string;
+  /** Tags removed before scoring; replaces the default list */
+  excludedTags?: string[];
+}
+
+/**
+ * Filtering strategies: per-node pruning with a fixed or dynamic threshold,
+ * or Readability-style selection of the main content container
+ */
+export type FilterStrategy = 'fixed' | 'dynamic' | 'readability';
+
+/**
+ * Report of the container chosen by the 'readability' strategy
+ */
+export interface ContentSelection {
+  /** Path of the chosen container (e.g. 'body > main#content > article.post') */
+  selector: string;
+  /** Final score of the chosen container */
+  score: number;
+  /** Why the container was chosen */
+  reasons: string[];
+  /** Siblings pulled in alongside the chosen container, in document order */
+  siblings: Array<{ selector: string; score: number; reason: string }>;
+  /** Best-scoring candidates, highest first (includes the chosen container) */
+  candidates: Array<{ selector: string; score: number }>;
+}
+
+/**
+ * Filter step that made a trace decision
+ */
+export type FilterTraceStage =
+  | 'removeElements'
+  | 'keepElements'
+  | 'excludedTags'
+  | 'noiseSelector'
+  | 'score'
+  | 'empty'
+  | 'minWords'
+  | 'readability';
+
+/**
+ * Metric values behind a score decision
+ */
+export interface FilterTraceMetrics {
+  /** Text length divided by markup length */
+  textDensity: number;
+  /** Link text length divided by text length */
+  linkDensity: number;
+  /** Tag importance used for the element */
+  tagWeight: number;
+  /** Class/id weight (negative for noise patterns) */
+  classIdWeight: number;
+  /** Normalized text length (0-1) */
+  textLength: number;
+  /** Composite score */
+  score: number;
+  /** Threshold the score was compared with */
+  threshold: number;
+}
+
+/**
+ * One keep/remove decision recorded in explain mode
+ */
+export interface FilterTraceEntry {
+  /** Position of the element among the body's descendants in the filtered input, in document order */
+  index: number;
+  /** CSS path of the element (e.g. 'body > div.layout > aside#promo') */
+  path: string;
+  /** Outcome for the element (a removed element takes its subtree with it) */
+  decision: 'kept' | 'removed';
+  /** Filter step that decided */
+  stage: FilterTraceStage;
+  /** Human-readable rule, e.g. the matching selector or the score comparison */
+  rule: string;
+  /** Metric values, for score decisions */
+  metrics?: FilterTraceMetrics;
+}
+
+/**
+ * Explain-mode trace of a filter run
+ */
+export interface FilterTrace {
+  /** HTML the filter ran on, used to map entries back onto elements */
+  input: string;
+  /** Decisions in the order they were made; a later entry for the same index overrides an earlier one */
+  entries: FilterTraceEntry[];
 }
 
 /**
@@ -52,11 +287,98 @@ export interface ConverterOptions {
   /** Whether to ignore images during conversion */
   ignoreImages?: boolean;
   /** Markdown format style */
-  format?: 'github' | 'commonmark' | 'custom';
+  format?: MarkdownFormat;
   /** Link reference style */
-  linkStyle?: 'inline' | 'reference';
+  linkStyle?: LinkStyle;
+  /** Per-element conversion rules, keyed by tag name (used by the 'custom' format) */
+  rules?: Record<string, ElementRule>;
+  /** Rendering for tables that cannot be written as Markdown tables (default: 'html') */
+  tableFallback?: TableFallback;
   /** Whether to escape special Markdown characters */
   escapeSpecialChars?: boolean;
+  /** Prepend a front-matter block (true uses YAML) */
+  frontMatter?: boolean | FrontMatterFormat | FrontMatterOptions;
+}
+
+/**
+ * Markdown dialects: GitHub Flavored Markdown, plain CommonMark,
+ * or GFM with per-element rule overrides
+ */
+export type MarkdownFormat = 'github' | 'commonmark' | 'custom';
+
+/**
+ * Link output style: inline `[text](url)` or reference `[text][1]` with definitions
+ */
+export type LinkStyle = 'inline' | 'reference';
+
+/**
+ * Rendering used for tables without a Markdown equivalent: cleaned HTML,
+ * a nested list of rows, or a fenced CSV block
+ */
+export type TableFallback = 'html' | 'list' | 'csv';
+
+/**
+ * Custom conversion rule for one HTML element
+ * @param element Element being converted
+ * @param content Markdown converted from the element's children
+ * @param options Active conversion options
+ * @returns Markdown for the element, or undefined to use the built-in conversion
+ */
+export type ElementRule = (element: HTMLElement, content: string, options: Html2TextOptions) => string | undefined;
+
+/**
+ * Registered element converter, checked before the built-in conversion
+ */
+export interface ConversionRule {
+  /** CSS selector, list of tag names, or predicate selecting the elements this rule handles */
+  filter: string | string[] | ((element: HTMLElement, options: Html2TextOptions) => boolean);
+  /** Produces Markdown for a matched element; returning undefined falls through to later rules */
+  replacement: ElementRule;
+}
+
+/**
+ * Supported front-matter syntaxes
+ */
+export type FrontMatterFormat = 'yaml' | 'toml';
+
+/**
+ * Value types that can be written to front matter
+ */
+export type FrontMatterValue =
+  | string
+  | number
+  | boolean
+  | Date
+  | null
+  | FrontMatterValue[]
+  | { [key: string]: FrontMatterValue };
+
+/**
+ * Front-matter configuration
+ */
+export interface FrontMatterOptions {
+  /** Output syntax (default: 'yaml') */
+  format?: FrontMatterFormat;
+  /** Static fields merged over the default fields */
+  fields?: Record<string, FrontMatterValue>;
+  /** Hook returning fields to add or override; null removes a default field */
+  customFields?: (context: FrontMatterContext) => Record<string, FrontMatterValue | undefined>;
+}
+
+/**
+ * Data available to the front-matter custom fields hook
+ */
+export interface FrontMatterContext {
+  /** Default fields that will be written */
+  fields: Record<string, FrontMatterValue>;
+  /** Document metadata from the original HTML */
+  documentMetadata: DocumentMetadata;
+  /** Metadata about the Markdown conversion */
+  markdownMetadata: MarkdownMetadata;
+  /** Page type detection result, if detection ran */
+  pageType: PageTypeResult | null;
+  /** Source URL of the page */
+  url: string;
 }
 
 /**
@@ -65,6 +387,125 @@ export interface ConverterOptions {
 export interface ConvertOptions extends FilterOptions, ConverterOptions {
   /** Base URL for resolving relative links */
   baseUrl?: string;
+  /** DOM implementation used to parse HTML (default: 'auto') */
+  domBackend?: DomBackend | DomImplementation;
+  /** Plugins for this conversion instead of the global registry */
+  plugins?: Array<Plugin | PluginEntry> | PluginSelection | PluginRegistry;
+  /** What a plugin failure does, unless set for the plugin itself (default: 'skip') */
+  pluginFailurePolicy?: PluginFailurePolicy;
+}
+
+/**
+ * DOM options for the preset convenience functions
+ */
+export interface DomOptions {
+  /** DOM implementation used to parse HTML (default: 'auto') */
+  domBackend?: DomBackend | DomImplementation;
+}
+
+/**
+ * Options for htmlToText, cleanHtml and extractContent
+ */
+export interface CleanOptions extends FilterOptions, DomOptions {}
+
+/**
+ * Options for the auto-detecting conversion functions
+ */
+export interface AutoConvertOptions extends Partial<ProcessorOptions> {
+  /** Prepend a front-matter block to the Markdown (shorthand for converter.frontMatter) */
+  frontMatter?: boolean | FrontMatterFormat | FrontMatterOptions;
+}
+
+/**
+ * Options for streaming conversion with htmlToMarkdownStream
+ */
+export interface StreamOptions {
+  /** Base URL for resolving relative links */
+  baseUrl?: string;
+  /** Preset used as the base for filter and converter options */
+  preset?: PresetName;
+  /** Filter options applied to each batch, or false to convert without filtering */
+  filter?: FilterOptions | false;
+  /** Converter options; links are always inline and citations are not generated */
+  converter?: ConverterOptions;
+  /** Approximate HTML characters parsed per batch (default: 65536) */
+  batchSize?: number;
+  /** DOM implementation used to parse each batch (default: 'auto') */
+  domBackend?: DomBackend | DomImplementation;
+  /** Plugins for this stream instead of the global registry */
+  plugins?: Array<Plugin | PluginEntry> | PluginSelection | PluginRegistry;
+  /** What a plugin failure does, unless set for the plugin itself (default: 'skip') */
+  pluginFailurePolicy?: PluginFailurePolicy;
+}
+
+/**
+ * One document for batch processing
+ */
+export interface BatchItem {
+  /** Caller's identifier, returned with the result */
+  id: string;
+  /** HTML content */
+  html: string;
+  /** Page URL, used as base URL and detection hint */
+  url?: string;
+}
+
+/**
+ * Options for processBatch and processBatchIterator. Processor options apply
+ * to every item; page type detection runs unless autoDetect is false.
+ */
+export interface BatchOptions extends ProcessorOptions {
+  /** Maximum number of items processed at once (default: 4, or the pool size) */
+  concurrency?: number;
+  /** Worker pool that converts the items off the main thread; options must be structured-cloneable */
+  pool?: WorkerPool;
+}
+
+/**
+ * Outcome of one batch item; exactly one of result and error is set
+ */
+export interface BatchItemResult {
+  /** Item identifier */
+  id: string;
+  /** Position of the item in the input */
+  index: number;
+  /** Item URL */
+  url?: string;
+  /** Whether the item was converted */
+  success: boolean;
+  /** Conversion result */
+  result?: MarkdownResult;
+  /** Failure, as a ProcessorError or one of its subclasses */
+  error?: ProcessorError;
+  /** Processing time for this item (ms) */
+  processingTime: number;
+}
+
+/**
+ * Outcome of a whole batch
+ */
+export interface BatchResult {
+  /** Item results in input order */
+  results: BatchItemResult[];
+  /** Number of converted items */
+  succeeded: number;
+  /** Number of failed items */
+  failed: number;
+  /** Wall-clock time for the batch (ms) */
+  processingTime: number;
+}
+
+/**
+ * Worker pool configuration
+ */
+export interface WorkerPoolOptions {
+  /** Maximum number of workers, started on demand (default: CPU cores minus one, at least 1) */
+  size?: number;
+  /**
+   * Worker script: dist/worker.bundle.js served to browsers (required there),
+   * or a worker_threads script path in Node.js (default: dist/worker.js)
+   */
+  workerUrl?: string | URL;
 }
 
 /**
@@ -79,6 +520,14 @@ export interface FilterResult {
   original: string;
   /** Filtering metadata */
   metadata: FilterMetadata;
+  /** Document metadata extracted from the original HTML */
+  documentMetadata?: DocumentMetadata;
+  /** Main content selection report (readability strategy only) */
+  contentSelection?: ContentSelection;
+  /** Keep/remove decisions (explain mode only) */
+  trace?: FilterTrace;
+  /** Calls, timing and failures of the plugins the processor ran (when any ran) */
+  pluginStats?: PluginStats[];
 }
 
 /**
@@ -109,6 +558,12 @@ export interface MarkdownResult {
   references?: string;
   /** Metadata about the conversion */
   metadata: MarkdownMetadata;
+  /** Document metadata extracted from the original HTML */
+  documentMetadata?: DocumentMetadata;
+  /** Front-matter block prepended to content (if enabled) */
+  frontMatter?: string;
+  /** Calls, timing and failures of the plugins the processor ran (when any ran) */
+  pluginStats?: PluginStats[];
 }
 
 /**
@@ -129,6 +584,147 @@ export interface MarkdownMetadata {
   sourceLength: number;
 }
 
+/**
+ * Source a document metadata field was taken from
+ */
+export type MetadataSource = 'json-ld' | 'opengraph' | 'twitter' | 'dublin-core' | 'meta' | 'document';
+
+/**
+ * Descriptive metadata about the source document
+ */
+export interface DocumentMetadata {
+  /** Document title */
+  title?: string;
+  /** Short description or summary */
+  description?: string;
+  /** Author names joined for display */
+  byline?: string;
+  /** Individual author names */
+  authors?: string[];
+  /** Name of the publishing site */
+  siteName?: string;
+  /** Publication date as written; UTC ISO 8601 date-times are normalized */
+  publishedTime?: string;
+  /** Last modification date as written; UTC ISO 8601 date-times are normalized */
+  modifiedTime?: string;
+  /** Document language (e.g. 'en', 'en-GB') */
+  language?: string;
+  /** Canonical URL of the document */
+  canonicalUrl?: string;
+  /** Representative image URL */
+  image?: string;
+  /** Content type declared by the page (e.g. 'article', 'NewsArticle') */
+  type?: string;
+  /** Keywords declared by the page */
+  keywords?: string[];
+  /** Where each populated field was taken from */
+  sources: Partial<Record<Exclude<keyof DocumentMetadata, 'sources'>, MetadataSource>>;
+}
+
+/**
+ * Syntax a structured data item was embedded with
+ */
+export type StructuredDataFormat = 'json-ld' | 'microdata' | 'rdfa';
+
+/**
+ * Value of a structured data property
+ */
+export type StructuredDataValue = string | number | boolean | StructuredDataItem;
+
+/**
+ * Normalized schema.org item, independent of the embedding syntax
+ */
+export interface StructuredDataItem {
+  /** Type names without vocabulary prefix (e.g. ['Product']) */
+  types: string[];
+  /** Item identifier (@id, itemid or RDFa resource) */
+  id?: string;
+  /** Syntax the item was embedded with */
+  format: StructuredDataFormat;
+  /** Property values by name; every property holds a list */
+  properties: Record<string, StructuredDataValue[]>;
+}
+
+/**
+ * Result of structured data extraction
+ */
+export interface StructuredDataResult {
+  /** Top-level items in document order (JSON-LD, then Microdata, then RDFa) */
+  items: StructuredDataItem[];
+  /** Distinct type names found, including nested items */
+  types: string[];
+  /** Errors for blocks that could not be parsed */
+  errors: string[];
+}
+
+/**
+ * Serialized page type classifier: a softmax regression over standardized
+ * page features, as written by trainPageTypeModel().toJSON()
+ */
+export interface PageTypeModelData {
+  /** Format version */
+  version: 1;
+  /** Page types the model predicts */
+  labels: string[];
+  /** Feature names, in weight column order */
+  features: string[];
+  /** Per-feature mean used for standardization */
+  mean: number[];
+  /** Per-feature standard deviation used for standardization */
+  scale: number[];
+  /** One weight row per label */
+  weights: number[][];
+  /** One bias per label */
+  bias: number[];
+}
+
+/**
+ * A labeled page for training or evaluating a page type model
+ */
+export interface PageTypeSample {
+  /** Expected page type */
+  label: string;
+  /** Features from PageTypeDetector.extractFeatures() */
+  features: Record<string, number>;
+  /** Where the sample came from, for reports */
+  source?: string;
+}
+
+/**
+ * Options for trainPageTypeModel()
+ */
+export interface PageTypeTrainingOptions {
+  /** Gradient descent iterations (default: 300) */
+  epochs?: number;
+  /** Learning rate (default: 0.5) */
+  learningRate?: number;
+  /** L2 regularization strength (default: 0.01) */
+  l2?: number;
+}
+
+/**
+ * Precision and recall of one page type
+ */
+export interface PageTypeClassMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+  /** Number of samples with this label */
+  support: number;
+}
+
+/**
+ * Evaluation of page type predictions against labels
+ */
+export interface PageTypeEvaluation {
+  /** Share of samples predicted correctly */
+  accuracy: number;
+  /** Metrics per page type, including predicted types that no sample has */
+  classes: Record<string, PageTypeClassMetrics>;
+  /** Counts by expected type, then predicted type */
+  confusion: Record<string, Record<string, number>>;
+}
+
 /**
  * Plugin interface for extending functionality
  */
@@ -139,18 +735,63 @@ export interface Plugin {
   version?: string;
   /** Plugin description */
   description?: string;
+  /** Set to false to register the plugin without running it unless enabled by name (default: true) */
+  enabled?: boolean;
+  /** Failure policy chosen by the plugin; registration options take precedence over it */
+  onError?: PluginFailurePolicy;
+  /** Ordering: plugins with higher priority run first (default: 0) */
+  priority?: number;
+  /** Names of plugins this plugin must run before */
+  before?: string[];
+  /** Names of plugins this plugin must run after */
+  after?: string[];
   /** HTML filter transformation function */
-  filter?: (html: string, context: PluginContext) => string;
+  filter?: (html: string, context: PluginContext) => string | Promise<string>;
   /** Markdown conversion transformation function */
-  convert?: (markdown: string, context: PluginContext) => string;
-  /** Plugin initialization function */
+  convert?: (markdown: string, context: PluginContext) => string | Promise<string>;
+  /** Rewrites HTML before it is parsed; return nothing to keep it */
+  beforeParse?: (html: string, context: PluginContext) => PluginHookResult<string>;
+  /** Receives each document parsed from HTML, before detection and extraction read it */
+  afterParse?: (doc: Document, context: PluginContext) => PluginHookResult<void>;
+  /** Receives the document about to be filtered */
+  beforeFilter?: (doc: Document, context: PluginContext) => PluginHookResult<void>;
+  /** Receives the filtered document, whose body holds the kept blocks */
+  afterFilter?: (doc: Document, context: PluginContext) => PluginHookResult<void>;
+  /** Receives the document about to be converted to Markdown */
+  beforeConvert?: (doc: Document, context: PluginContext) => PluginHookResult<void>;
+  /** Called for each element about to be converted, in document order; return false to drop it */
+  onElement?: (element: Element, context: PluginContext) => PluginHookResult<boolean>;
+  /** Rewrites the generated Markdown; return nothing to keep it */
+  afterConvert?: (markdown: string, context: PluginContext) => PluginHookResult<string>;
+  /** Element conversion rules contributed by the plugin, keyed by rule name */
+  rules?: Record<string, ConversionRule>;
+  /** Plugin initialization function, called on registration with the registration config */
   init?: (options?: any) => void;
   /** Plugin cleanup function */
   destroy?: () => void;
 }
 
 /**
- * Context object passed to plugin functions
+ * Pipeline stages plugins can hook into, in the order they run
+ */
+export type PluginStage =
+  | 'beforeParse'
+  | 'afterParse'
+  | 'beforeFilter'
+  | 'afterFilter'
+  | 'beforeConvert'
+  | 'onElement'
+  | 'afterConvert';
+
+/**
+ * Return value of a stage hook, which may be async
+ */
+export type PluginHookResult<T> = T | void | Promise<T | void>;
+
+/**
+ * Context object passed to plugin functions. One context is shared by every
+ * stage of a processor run (or a stream), so plugins can pass data between
+ * stages through metadata.
  */
 export interface PluginContext {
   /** Current processing options */
@@ -159,7 +800,7 @@ export interface PluginContext {
   baseUrl?: string;
   /** Original HTML content */
   originalHtml: string;
-  /** Processing metadata */
+  /** Processing metadata, shared across the stages of a run */
   metadata: Record<string, any>;
 }
 
@@ -203,6 +844,16 @@ export interface Html2TextOptions {
   skipInternalLinks?: boolean;
   /** Whether to include superscript and subscript tags */
   includeSuperSub?: boolean;
+  /** Markdown dialect to emit (default: 'github') */
+  format?: MarkdownFormat;
+  /** Per-element conversion rules applied when format is 'custom' */
+  rules?: Record<string, ElementRule>;
+  /** Registered conversion rules, checked in insertion order */
+  conversionRules?: Record<string, ConversionRule>;
+  /** Rendering for tables that cannot be written as Markdown tables (default: 'html') */
+  tableFallback?: TableFallback;
+  /** Link output style; 'reference' writes links as [text][n] and collects their definitions */
+  linkStyle?: LinkStyle;
 }
 
 /**
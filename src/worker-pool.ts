@@ -0,0 +1,380 @@
+/**
+ * Worker Pool - Runs processor pipelines off the main thread, on worker_threads
+ * in Node.js and Web Workers in browsers. Task HTML, URLs and options are
+ * copied to the worker with the structured clone algorithm, so options must
+ * not contain functions (custom conversion rules, front matter callbacks), and
+ * plugins registered on the main thread do not run in workers.
+ */
+
+import { HtmlProcessor } from './html-processor';
+import { domAdapter, loadNodeModule } from './dom-adapter';
+import {
+  ConversionError,
+  FilterError,
+  MarkdownResult,
+  PluginError,
+  ProcessorError,
+  ProcessorOptions,
+  WorkerPoolOptions
+} from './types';
+
+/**
+ * Pipeline run by a worker
+ */
+export interface WorkerTask {
+  /** 'markdown' resolves to a MarkdownResult, 'clean' to filtered HTML */
+  type: 'markdown' | 'clean';
+  html: string;
+  /** Page URL, used as a detection hint */
+  url?: string;
+  /** Processor options; page type detection runs unless autoDetect is false */
+  options?: Partial<ProcessorOptions>;
+}
+
+export interface WorkerRequest {
+  id: number;
+  task: WorkerTask;
+}
+
+export interface WorkerResponse {
+  id: number;
+  result?: MarkdownResult | string;
+  error?: SerializedError;
+}
+
+export interface SerializedError {
+  name: string;
+  message: string;
+  code?: string;
+  pluginName?: string;
+}
+
+interface PoolWorker {
+  post(request: WorkerRequest): void;
+  terminate(): Promise<unknown> | void;
+  /** Lets Node.js exit while the worker is idle */
+  setIdle?(idle: boolean): void;
+}
+
+interface PoolSlot {
+  worker: PoolWorker;
+  job: PoolJob | null;
+}
+
+interface PoolJob {
+  request: WorkerRequest;
+  resolve(result: MarkdownResult | string): void;
+  reject(error: ProcessorError): void;
+}
+
+type WorkerFactory = (onMessage: (response: WorkerResponse) => void, onFailure: (error: Error) => void) => PoolWorker;
+
+/**
+ * Runs a task's pipeline in the current thread; workers call this for each request
+ * @param task Task to run
+ * @returns Markdown result or cleaned HTML
+ */
+export async function runTask(task: WorkerTask): Promise<MarkdownResult | string> {
+  const { autoDetect, ...options } = task.options || {};
+  let processor = HtmlProcessor.from(task.html, options);
+  if (autoDetect !== false) {
+    processor = await processor.withAutoDetection(task.url);
+  }
+  await processor.filter();
+
+  return task.type === 'clean' ? processor.toString() : await processor.toMarkdown();
+}
+
+/**
+ * Converts an error into a form that survives postMessage
+ */
+export function serializeError(error: unknown): SerializedError {
+  if (error instanceof Error) {
+    return {
+      name: error.name,
+      message: error.message,
+      code: error instanceof ProcessorError ? error.code : undefined,
+      pluginName: error instanceof PluginError ? error.pluginName : undefined
+    };
+  }
+  return { name: 'Error', message: String(error) };
+}
+
+/**
+ * Rebuilds a worker error as the matching ProcessorError subclass
+ */
+function deserializeError(error: SerializedError): ProcessorError {
+  switch (error.name) {
+    case 'FilterError':
+      return new FilterError(error.message);
+    case 'ConversionError':
+      return new ConversionError(error.message);
+    case 'PluginError':
+      return new PluginError(error.message, error.pluginName || 'unknown');
+    default:
+      return new ProcessorError(error.message, error.code || 'WORKER_TASK_FAILED');
+  }
+}
+
+/**
+ * Pool of workers running HtmlProcessor pipelines. Workers start on demand up
+ * to the pool size, and tasks beyond that wait in a queue. Call terminate()
+ * when done; in Node.js idle workers do not keep the process alive.
+ *
+ * @example
+ * ```typescript
+ * const pool = new WorkerPool({ size: 4 });
+ * const result = await pool.htmlToMarkdown(html, 'https://example.com/post');
+ * await pool.terminate();
+ * ```
+ */
+export class WorkerPool {
+  private readonly slots: PoolSlot[] = [];
+  private readonly queue: PoolJob[] = [];
+  private nextId = 0;
+  private terminated = false;
+  private starting: Promise<{ size: number; createWorker: WorkerFactory }> | null = null;
+  private maxWorkers = 0;
+  private createWorker: WorkerFactory | null = null;
+
+  constructor(private readonly options: WorkerPoolOptions = {}) {}
+
+  /**
+   * Convert HTML to Markdown in a worker, as htmlToMarkdownAuto does
+   * @param html HTML content
+   * @param url Optional URL for better detection accuracy
+   * @param options Processor options; must be structured-cloneable
+   * @returns Markdown result
+   */
+  public async htmlToMarkdown(html: string, url?: string, options: Partial<ProcessorOptions> = {}): Promise<MarkdownResult> {
+    return await this.run({ type: 'markdown', html, url, options }) as MarkdownResult;
+  }
+
+  /**
+   * Clean HTML in a worker, as cleanHtmlAuto does
+   * @param html HTML content
+   * @param url Optional URL for better detection accuracy
+   * @param options Processor options; must be structured-cloneable
+   * @returns Filtered HTML
+   */
+  public async cleanHtml(html: string, url?: string, options: Partial<ProcessorOptions> = {}): Promise<string> {
+    return await this.run({ type: 'clean', html, url, options }) as string;
+  }
+
+  /**
+   * Run a task in the next free worker
+   * @param task Task to run
+   * @returns Markdown result or cleaned HTML, depending on the task type
+   */
+  public async run(task: WorkerTask): Promise<MarkdownResult | string> {
+    if (this.terminated) {
+      throw new ProcessorError('Worker pool has been terminated', 'WORKER_POOL_TERMINATED');
+    }
+
+    await this.start();
+    if (this.terminated) {
+      throw new ProcessorError('Worker pool has been terminated', 'WORKER_POOL_TERMINATED');
+    }
+
+    return new Promise<MarkdownResult | string>((resolve, reject) => {
+      this.queue.push({ request: { id: this.nextId++, task }, resolve, reject });
+      this.schedule();
+    });
+  }
+
+  /**
+   * Maximum number of workers, once the pool has resolved its default size
+   */
+  public async getSize(): Promise<number> {
+    return (await this.start()).size;
+  }
+
+  /**
+   * Number of tasks queued or running
+   */
+  public get pending(): number {
+    return this.queue.length + this.slots.filter(slot => slot.job).length;
+  }
+
+  /**
+   * Stop all workers; queued and running tasks are rejected
+   */
+  public async terminate(): Promise<void> {
+    this.terminated = true;
+    const error = new ProcessorError('Worker pool has been terminated', 'WORKER_POOL_TERMINATED');
+
+    for (const job of this.queue.splice(0)) {
+      job.reject(error);
+    }
+    const slots = this.slots.splice(0);
+    for (const slot of slots) {
+      if (slot.job) slot.job.reject(error);
+    }
+    await Promise.all(slots.map(slot => slot.worker.terminate()));
+  }
+
+  private start() {
+    if (!this.starting) {
+      this.starting = this.resolveEnvironment().then(environment => {
+        this.maxWorkers = environment.size;
+        this.createWorker = environment.createWorker;
+        return environment;
+      });
+      // Allow a later call to retry
+      this.starting.catch(() => {
+        this.starting = null;
+      });
+    }
+    return this.starting;
+  }
+
+  private async resolveEnvironment(): Promise<{ size: number; createWorker: WorkerFactory }> {
+    if (domAdapter.isNode) {
+      const [workerThreads, os, path] = await Promise.all([
+        loadNodeModule('worker_threads'),
+        loadNodeModule('os'),
+        loadNodeModule('path')
+      ]);
+      const script = this.options.workerUrl || path.join(__dirname, 'worker.js');
+      return {
+        size: this.resolveSize(os.cpus().length),
+        createWorker: (onMessage, onFailure) => createNodeWorker(workerThreads.Worker, script, onMessage, onFailure)
+      };
+    }
+
+    if (typeof Worker !== 'undefined') {
+      const workerUrl = this.options.workerUrl;
+      if (!workerUrl) {
+        throw new ProcessorError('A workerUrl pointing at the worker bundle is required to start Web Workers', 'WORKER_URL_REQUIRED');
+      }
+      const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency : 0;
+      return {
+        size: this.resolveSize(cores || 2),
+        createWorker: (onMessage, onFailure) => createWebWorker(workerUrl, onMessage, onFailure)
+      };
+    }
+
+    throw new ProcessorError('Worker pools need worker_threads (Node.js) or Web Workers', 'WORKER_UNSUPPORTED');
+  }
+
+  private resolveSize(cores: number): number {
+    const size = this.options.size !== undefined ? this.options.size : cores - 1;
+    return Math.max(1, Math.floor(size));
+  }
+
+  /**
+   * Hands queued jobs to idle workers, starting workers up to the pool size
+   */
+  private schedule(): void {
+    while (this.queue.length > 0 && !this.terminated) {
+      let slot = this.slots.find(candidate => !candidate.job);
+      if (!slot) {
+        if (this.slots.length >= this.maxWorkers) return;
+        slot = this.spawn();
+      }
+
+      const job = this.queue.shift()!;
+      slot.job = job;
+      if (slot.worker.setIdle) slot.worker.setIdle(false);
+
+      try {
+        slot.worker.post(job.request);
+      } catch (error: unknown) {
+        // Options that cannot be cloned (functions, DOM nodes) fail synchronously
+        slot.job = null;
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        job.reject(new ProcessorError(`Task cannot be sent to a worker: ${errorMessage}`, 'WORKER_DATA_CLONE', error instanceof Error ? error : undefined));
+      }
+    }
+
+    for (const slot of this.slots) {
+      if (!slot.job && slot.worker.setIdle) slot.worker.setIdle(true);
+    }
+  }
+
+  private spawn(): PoolSlot {
+    const slot: PoolSlot = { worker: null as unknown as PoolWorker, job: null };
+
+    slot.worker = this.createWorker!(
+      response => {
+        const job = slot.job;
+        if (!job || job.request.id !== response.id) return;
+        slot.job = null;
+        if (response.error) {
+          job.reject(deserializeError(response.error));
+        } else {
+          job.resolve(response.result!);
+        }
+        this.schedule();
+      },
+      error => {
+        const index = this.slots.indexOf(slot);
+        if (index === -1) return;
+        // Replace the failed worker; the task it was running is not retried
+        this.slots.splice(index, 1);
+        slot.worker.terminate();
+        if (slot.job) {
+          slot.job.reject(new ProcessorError(`Worker failed: ${error.message}`, 'WORKER_CRASHED', error));
+          slot.job = null;
+        }
+        this.schedule();
+      }
+    );
+
+    this.slots.push(slot);
+    return slot;
+  }
+}
+
+/**
+ * Create a worker pool
+ * @param options Pool options
+ * @returns New WorkerPool instance
+ */
+export function createWorkerPool(options: WorkerPoolOptions = {}): WorkerPool {
+  return new WorkerPool(options);
+}
+
+function createNodeWorker(
+  WorkerClass: any,
+  script: string | URL,
+  onMessage: (response: WorkerResponse) => void,
+  onFailure: (error: Error) => void
+): PoolWorker {
+  const worker = new WorkerClass(script);
+  let stopping = false;
+
+  worker.on('message', onMessage);
+  worker.on('error', onFailure);
+  worker.on('exit', (code: number) => {
+    if (!stopping) onFailure(new Error(`Worker exited with code ${code}`));
+  });
+
+  return {
+    post: request => worker.postMessage(request),
+    terminate: () => {
+      stopping = true;
+      return worker.terminate();
+    },
+    setIdle: idle => (idle ? worker.unref() : worker.ref())
+  };
+}
+
+function createWebWorker(
+  workerUrl: string | URL,
+  onMessage: (response: WorkerResponse) => void,
+  onFailure: (error: Error) => void
+): PoolWorker {
+  const worker = new Worker(workerUrl);
+
+  worker.onmessage = (event: MessageEvent<WorkerResponse>) => onMessage(event.data);
+  worker.onerror = (event: ErrorEvent) => {
+    event.preventDefault();
+    onFailure(new Error(event.message || 'Worker script error'));
+  };
+
+  return {
+    post: request => worker.postMessage(request),
+    terminate: () => worker.terminate()
+  };
+}
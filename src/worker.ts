@@ -0,0 +1,38 @@
+/**
+ * Worker entry point - Answers WorkerPool requests. Runs as a worker_threads
+ * script in Node.js (dist/worker.js) and as a Web Worker in browsers
+ * (dist/worker.bundle.js), where documents are parsed by the lite DOM.
+ * Not part of the main entry point.
+ */
+
+import { loadNodeModule } from './dom-adapter';
+import { runTask, serializeError, WorkerRequest, WorkerResponse } from './worker-pool';
+
+async function handleRequest(request: WorkerRequest): Promise<WorkerResponse> {
+  try {
+    return { id: request.id, result: await runTask(request.task) };
+  } catch (error: unknown) {
+    return { id: request.id, error: serializeError(error) };
+  }
+}
+
+async function listen(): Promise<void> {
+  if (typeof process !== 'undefined' && process.versions?.node) {
+    const { parentPort } = await loadNodeModule('worker_threads');
+    if (parentPort) {
+      parentPort.on('message', async (request: WorkerRequest) => {
+        parentPort.postMessage(await handleRequest(request));
+      });
+    }
+    return;
+  }
+
+  const scope = self as unknown as { onmessage: unknown; postMessage(message: WorkerResponse): void };
+  scope.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+    scope.postMessage(await handleRequest(event.data));
+  };
+}
+
+listen().catch(error => {
+  console.error('[HTMLFilter] Worker failed to start:', error);
+});
@@ -0,0 +1,124 @@
+#!/usr/bin/env node
+
+/**
+ * Batch Tests
+ * processBatch and processBatchIterator: per-item results and errors, input
+ * order and bounded concurrency
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const path = require('path');
+const { runSuite, quietly } = require('./test-harness');
+const {
+  processBatch,
+  processBatchIterator,
+  htmlToMarkdownAuto,
+  ProcessorError,
+  PluginError
+} = require('../dist/index.js');
+
+const corpusDir = path.join(__dirname, 'corpus');
+const manifest = JSON.parse(fs.readFileSync(path.join(corpusDir, 'manifest.json'), 'utf8'));
+
+/**
+ * The corpus fixtures as batch items
+ */
+function corpusItems() {
+  return manifest.fixtures.map(fixture => ({
+    id: fixture.id,
+    html: fs.readFileSync(path.join(corpusDir, fixture.file), 'utf8'),
+    url: fixture.url
+  }));
+}
+
+/**
+ * Plugin that fails while converting pages whose HTML contains a marker
+ */
+const failOnMarker = {
+  name: 'fail-on-marker',
+  beforeParse: html => {
+    if (html.includes('FAIL-HERE')) {
+      throw new Error('marker found');
+    }
+  }
+};
+
+const cases = [
+  ['the corpus converts in a batch as it does one page at a time', async () => {
+    const items = corpusItems();
+    const batch = await processBatch(items, { concurrency: 3 });
+
+    assert.strictEqual(batch.succeeded, items.length);
+    assert.strictEqual(batch.failed, 0);
+    for (const [index, item] of items.entries()) {
+      const result = batch.results[index];
+      assert.strictEqual(result.id, item.id, 'results are in input order');
+      assert.strictEqual(result.index, index);
+      assert.strictEqual(result.url, item.url);
+      // Batch items use their URL as the base URL too
+      const single = await htmlToMarkdownAuto(item.html, item.url, { baseUrl: item.url });
+      assert.strictEqual(result.result.content, single.content, item.id);
+    }
+  }],
+
+  ['a failing item gets an error result and the others still convert', async () => {
+    const [first, second] = corpusItems();
+    const items = [
+      first,
+      { id: 'missing-html', url: 'https://example.com/empty' },
+      { id: 'plugin-failure', html: '<p>FAIL-HERE</p>' },
+      null,
+      second
+    ];
+    const batch = await quietly(() => processBatch(items, {
+      plugins: [failOnMarker],
+      pluginFailurePolicy: 'throw'
+    }));
+
+    assert.strictEqual(batch.results.length, items.length);
+    assert.strictEqual(batch.succeeded, 2);
+    assert.strictEqual(batch.failed, 3);
+    assert.deepStrictEqual(batch.results.map(result => result.success), [true, false, false, false, true]);
+
+    const [, missing, plugin, empty] = batch.results;
+    assert.ok(missing.error instanceof ProcessorError);
+    assert.strictEqual(missing.error.code, 'INVALID_BATCH_ITEM');
+    assert.strictEqual(missing.result, undefined);
+    assert.ok(plugin.error instanceof PluginError, 'processor errors keep their class');
+    assert.match(plugin.error.message, /marker found/);
+    assert.strictEqual(empty.id, '3', 'items without an id are named by position');
+    assert.strictEqual(empty.error.code, 'INVALID_BATCH_ITEM');
+  }],
+
+  ['the iterator yields each result with its input index', async () => {
+    const items = corpusItems();
+    const seen = [];
+    for await (const result of processBatchIterator(items, { concurrency: 4, autoDetect: false })) {
+      assert.strictEqual(result.id, items[result.index].id);
+      seen.push(result.index);
+    }
+    assert.deepStrictEqual(seen.slice().sort((a, b) => a - b), items.map((_, index) => index));
+  }],
+
+  ['lazy sources are read no further ahead than the concurrency', async () => {
+    const items = corpusItems();
+    let pulled = 0;
+    async function* source() {
+      for (const item of items) {
+        pulled++;
+        yield item;
+      }
+    }
+
+    let yielded = 0;
+    for await (const result of processBatchIterator(source(), { concurrency: 2, autoDetect: false })) {
+      yielded++;
+      assert.ok(result.success, result.id);
+      assert.ok(pulled - yielded <= 2, `${pulled} items pulled after ${yielded} results`);
+    }
+    assert.strictEqual(yielded, items.length);
+  }]
+];
+
+runSuite('Batch Tests', cases);
@@ -0,0 +1,144 @@
+#!/usr/bin/env node
+
+/**
+ * Converter Tests
+ * Element conversion rules: filters, fall-through, precedence and removal, and
+ * reference-style links
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const path = require('path');
+const { runSuite } = require('./test-harness');
+const { HtmlProcessor } = require('../dist/index.js');
+
+const PRODUCT_HTML = `<html><body>
+  <h1>Walnut Desk Organizer</h1>
+  <figure><img src="/organizer.jpg" alt="Organizer"><figcaption>Three compartments</figcaption></figure>
+  <div class="price-widget">$64.00</div>
+  <p>Carved from a <mark>single block</mark> of walnut.</p>
+  <details><summary>Care</summary><p>Oil once a year.</p></details>
+</body></html>`;
+
+const corpusDir = path.join(__dirname, 'corpus');
+const manifest = JSON.parse(fs.readFileSync(path.join(corpusDir, 'manifest.json'), 'utf8'));
+
+async function convert(processor, options) {
+  return (await processor.toMarkdown(options)).content;
+}
+
+const cases = [
+  ['rules select elements by selector, tag list or predicate', async () => {
+    const markdown = await convert(HtmlProcessor.from(PRODUCT_HTML)
+      .addRule('figure', { filter: ['FIGURE'], replacement: element => `[figure: ${element.querySelector('figcaption').textContent}]` })
+      .addRule('price', { filter: element => element.classList.contains('price-widget'), replacement: element => `**Price:** ${element.textContent}` })
+      .addRule('highlight', { filter: 'p > mark', replacement: (element, content) => `==${content}==` }));
+
+    assert.ok(markdown.includes('[figure: Three compartments]'), markdown);
+    assert.ok(markdown.includes('**Price:** $64.00'), markdown);
+    assert.ok(markdown.includes('==single block=='), markdown);
+  }],
+
+  ['a replacement returning undefined falls through to the next rule, then the built-in conversion', async () => {
+    const calls = [];
+    const markdown = await convert(HtmlProcessor.from(PRODUCT_HTML)
+      .addRule('first', { filter: 'mark', replacement: () => { calls.push('first'); return undefined; } })
+      .addRule('second', { filter: 'mark', replacement: (element, content) => { calls.push('second'); return `_${content}_`; } })
+      .addRule('heading', { filter: 'h1', replacement: () => undefined }));
+
+    assert.deepStrictEqual(calls, ['first', 'second']);
+    assert.ok(markdown.includes('_single block_'), markdown);
+    assert.match(markdown, /^# Walnut Desk Organizer$/m);
+  }],
+
+  ['an invalid selector never matches', async () => {
+    const markdown = await convert(HtmlProcessor.from(PRODUCT_HTML)
+      .addRule('broken', { filter: 'p[', replacement: () => 'BROKEN' }));
+    assert.ok(!markdown.includes('BROKEN'));
+  }],
+
+  ['processor rules are tried before plugin rules', async () => {
+    const plugins = [{
+      name: 'details-block',
+      rules: {
+        details: { filter: 'details', replacement: () => 'PLUGIN DETAILS' },
+        price: { filter: '.price-widget', replacement: () => 'PLUGIN PRICE' }
+      }
+    }];
+
+    const markdown = await convert(HtmlProcessor.from(PRODUCT_HTML, { plugins })
+      .addRule('price', { filter: '.price-widget', replacement: () => 'PROCESSOR PRICE' })
+      .addRule('any-price', { filter: '.price-widget', replacement: () => 'LATER PROCESSOR PRICE' }));
+
+    assert.ok(markdown.includes('PLUGIN DETAILS'), 'plugin rules apply');
+    assert.ok(markdown.includes('PROCESSOR PRICE') && !markdown.includes('PLUGIN PRICE'), 'a processor rule wins over a plugin rule of the same name');
+    assert.ok(!markdown.includes('LATER PROCESSOR PRICE'), 'rules are tried in registration order');
+  }],
+
+  ['custom format rules run before registered rules', async () => {
+    const markdown = await convert(HtmlProcessor.from(PRODUCT_HTML)
+      .addRule('mark', { filter: 'mark', replacement: () => 'REGISTERED' }), {
+      format: 'custom',
+      rules: { mark: (element, content) => `==${content}==` }
+    });
+    assert.ok(markdown.includes('==single block==') && !markdown.includes('REGISTERED'), markdown);
+  }],
+
+  ['removeRule restores the built-in conversion', async () => {
+    const processor = HtmlProcessor.from(PRODUCT_HTML)
+      .addRule('heading', { filter: 'h1', replacement: () => 'REPLACED' });
+    assert.ok((await convert(processor)).includes('REPLACED'));
+    processor.removeRule('heading');
+    assert.match(await convert(processor), /^# Walnut Desk Organizer$/m);
+  }],
+
+  ['rules that fall through convert each element once, however deep the nesting', async () => {
+    const depth = 16;
+    const html = '<div>'.repeat(depth) + '<p>Deeply <em>nested</em> text.</p><ul><li>One</li><li>Two</li></ul>' + '</div>'.repeat(depth);
+    let calls = 0;
+    const markdown = await convert(HtmlProcessor.from(html)
+      .addRule('div-pass-through', { filter: ['div'], replacement: () => { calls++; return undefined; } })
+      .addRule('any-pass-through', { filter: () => true, replacement: () => undefined }));
+
+    assert.strictEqual(calls, depth, 'each div is offered to the rule once');
+    assert.strictEqual(markdown, await convert(HtmlProcessor.from(html)));
+  }],
+
+  ['rules that fall through leave every corpus conversion at its golden output', async () => {
+    for (const conversion of manifest.conversions.filter(entry => !entry.stream)) {
+      const html = fs.readFileSync(path.join(corpusDir, conversion.file), 'utf8');
+      let processor = HtmlProcessor.from(html, { baseUrl: conversion.url })
+        .addRule('pass-through', { filter: () => true, replacement: () => undefined });
+      if (conversion.filter) {
+        processor = await processor.filter(conversion.filter);
+      }
+      const golden = fs.readFileSync(path.join(corpusDir, 'golden', `${conversion.id}.md`), 'utf8');
+      assert.strictEqual(await convert(processor, conversion.options), golden, conversion.id);
+    }
+  }],
+
+  ['reference links leave code alone and keep parentheses and brackets intact', async () => {
+    const html = `<html><body>
+      <p>Call <code>arr[i](x)</code> or read <a href="https://en.wikipedia.org/wiki/Foo_(bar)">Foo</a>.</p>
+      <pre><code>const link = "[docs](https://example.com/docs)";</code></pre>
+      <p>See <a href="https://example.com/b" title="Say &quot;b&quot;">two [b]</a> and <a href="/b" title="Say &quot;b&quot;">again</a>.</p>
+      <p><img src="/chart.png" alt="Chart"> <img src="/spacer.png"></p>
+    </body></html>`;
+    const result = await HtmlProcessor.from(html, { baseUrl: 'https://example.com/' }).toMarkdown({ linkStyle: 'reference' });
+
+    assert.ok(result.content.includes('`arr[i](x)`'), 'inline code is unchanged');
+    assert.ok(result.content.includes('const link = "[docs](https://example.com/docs)";'), 'fenced code is unchanged');
+    assert.ok(result.content.includes('read [Foo][1].'), result.content);
+    assert.ok(result.content.includes('See [two [b]][2] and [again][2].'), result.content);
+    assert.ok(result.content.includes('![Chart][3] ![](https://example.com/spacer.png)'), result.content);
+    assert.strictEqual(result.references, [
+      '[1]: https://en.wikipedia.org/wiki/Foo_(bar)',
+      '[2]: https://example.com/b "Say \\"b\\""',
+      '[3]: https://example.com/chart.png',
+      ''
+    ].join('\n'));
+    assert.ok(result.content.endsWith('\n\n' + result.references), 'definitions end the document');
+  }]
+];
+
+runSuite('Converter Tests', cases);
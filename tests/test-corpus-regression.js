@@ -0,0 +1,434 @@
+#!/usr/bin/env node
+
+/**
+ * Offline Corpus Regression Suite
+ * Scores page type detection and Markdown output against checked-in HTML snapshots
+ * and their golden files, so results do not depend on live websites.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const {
+  HtmlProcessor,
+  pageTypeDetector,
+  htmlToMarkdownAuto,
+  extractMetadata,
+  extractStructuredData,
+  htmlToMarkdownStream
+} = require('../dist/index.js');
+
+const corpusDir = path.join(__dirname, 'corpus');
+const manifestPath = path.join(corpusDir, 'manifest.json');
+const goldenDir = path.join(corpusDir, 'golden');
+
+class CorpusRegressionRunner {
+  constructor() {
+    this.manifest = CorpusRegressionRunner.loadManifest();
+    this.config = this.manifest.config;
+    this.results = {
+      total: 0,
+      correct: 0,
+      regressions: 0,
+      details: [],
+      conversions: []
+    };
+  }
+
+  static loadManifest() {
+    return JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  }
+
+  static saveManifest(manifest) {
+    fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + '\n');
+  }
+
+  /**
+   * Get golden file paths for a fixture
+   */
+  static goldenPaths(fixture) {
+    return {
+      markdown: path.join(goldenDir, `${fixture.id}.md`),
+      detection: path.join(goldenDir, `${fixture.id}.detection.json`),
+      metadata: path.join(goldenDir, `${fixture.id}.metadata.json`),
+      structuredData: path.join(goldenDir, `${fixture.id}.structured-data.json`)
+    };
+  }
+
+  /**
+   * Run detection and conversion for a single fixture
+   */
+  async processFixture(fixture) {
+    const html = fs.readFileSync(path.join(corpusDir, fixture.file), 'utf8');
+    const detection = await pageTypeDetector.detectPageType(html, fixture.url);
+    const markdown = await htmlToMarkdownAuto(html, fixture.url);
+    const metadata = await extractMetadata(html, fixture.url);
+    const structuredData = await extractStructuredData(html);
+
+    return {
+      detection: {
+        type: detection.type,
+        confidence: Number(detection.confidence.toFixed(3))
+      },
+      markdown: markdown.content,
+      metadata: JSON.stringify(metadata, null, 2) + '\n',
+      structuredData: JSON.stringify(structuredData, null, 2) + '\n'
+    };
+  }
+
+  /**
+   * Convert a converter case with its options, filtering first only if the case sets filter options
+   */
+  async processConversion(conversion) {
+    const html = fs.readFileSync(path.join(corpusDir, conversion.file), 'utf8');
+    if (conversion.stream) {
+      return this.processStreamConversion(html, conversion);
+    }
+    let processor = HtmlProcessor.from(html, { baseUrl: conversion.url });
+    if (conversion.filter) {
+      processor = await processor.filter(conversion.filter);
+    }
+    const result = await processor.toMarkdown(conversion.options);
+    return result.content;
+  }
+
+  /**
+   * Feed a converter case through htmlToMarkdownStream in fixed-size chunks
+   */
+  async processStreamConversion(html, conversion) {
+    const { chunkSize = 256, batchSize } = conversion.stream;
+    async function* chunks() {
+      for (let i = 0; i < html.length; i += chunkSize) {
+        yield html.slice(i, i + chunkSize);
+      }
+    }
+
+    let output = '';
+    const stream = htmlToMarkdownStream(chunks(), {
+      baseUrl: conversion.url,
+      filter: conversion.filter || false,
+      converter: conversion.options,
+      batchSize
+    });
+    for await (const chunk of stream) {
+      output += chunk;
+    }
+    return output;
+  }
+
+  /**
+   * Compare a converter case against its golden Markdown
+   */
+  async testConversion(conversion) {
+    const output = await this.processConversion(conversion);
+    const golden = path.join(goldenDir, `${conversion.id}.md`);
+    const result = { id: conversion.id, problems: [], diff: [] };
+
+    if (!fs.existsSync(golden)) {
+      result.problems.push('Missing golden file (run with "update")');
+    } else {
+      const goldenMarkdown = fs.readFileSync(golden, 'utf8');
+      if (goldenMarkdown !== output) {
+        result.problems.push('Markdown output differs from golden file');
+        result.diff = diffLines(goldenMarkdown, output);
+      }
+    }
+
+    result.passed = result.problems.length === 0;
+    return result;
+  }
+
+  /**
+   * Compare a single fixture against its golden files
+   */
+  async testFixture(fixture) {
+    const output = await this.processFixture(fixture);
+    const golden = CorpusRegressionRunner.goldenPaths(fixture);
+
+    const result = {
+      id: fixture.id,
+      expectedType: fixture.expectedType,
+      detectedType: output.detection.type,
+      confidence: output.detection.confidence,
+      typeCorrect: output.detection.type === fixture.expectedType,
+      problems: [],
+      diff: []
+    };
+
+    if (!Object.values(golden).every(file => fs.existsSync(file))) {
+      result.problems.push('Missing golden files (run with "update")');
+    } else {
+      const goldenDetection = JSON.parse(fs.readFileSync(golden.detection, 'utf8'));
+      if (goldenDetection.type !== output.detection.type) {
+        result.problems.push(`Detected type changed: ${goldenDetection.type} → ${output.detection.type}`);
+      }
+      const confidenceDrift = Math.abs(goldenDetection.confidence - output.detection.confidence);
+      if (confidenceDrift > this.config.confidenceTolerance) {
+        result.problems.push(
+          `Confidence drifted: ${goldenDetection.confidence} → ${output.detection.confidence}`
+        );
+      }
+
+      const goldenMarkdown = fs.readFileSync(golden.markdown, 'utf8');
+      if (goldenMarkdown !== output.markdown) {
+        result.problems.push('Markdown output differs from golden file');
+        result.diff = diffLines(goldenMarkdown, output.markdown);
+      }
+
+      const goldenMetadata = fs.readFileSync(golden.metadata, 'utf8');
+      if (goldenMetadata !== output.metadata) {
+        result.problems.push('Document metadata differs from golden file');
+        result.diff.push(...diffLines(goldenMetadata, output.metadata));
+      }
+
+      const goldenStructuredData = fs.readFileSync(golden.structuredData, 'utf8');
+      if (goldenStructuredData !== output.structuredData) {
+        result.problems.push('Structured data differs from golden file');
+        result.diff.push(...diffLines(goldenStructuredData, output.structuredData));
+      }
+    }
+
+    result.passed = result.problems.length === 0;
+    return result;
+  }
+
+  /**
+   * Run all fixtures, optionally restricted to the given ids
+   */
+  async runAll(ids = []) {
+    console.log('🗂️  Offline Corpus Regression Suite');
+    console.log('='.repeat(50));
+
+    const fixtures = this.selectFixtures(ids);
+    for (const fixture of fixtures) {
+      let result;
+      try {
+        result = await this.testFixture(fixture);
+      } catch (error) {
+        result = {
+          id: fixture.id,
+          expectedType: fixture.expectedType,
+          detectedType: 'error',
+          typeCorrect: false,
+          problems: [`Processing failed: ${error.message}`],
+          diff: [],
+          passed: false
+        };
+      }
+
+      this.results.total++;
+      if (result.typeCorrect) this.results.correct++;
+      if (!result.passed) this.results.regressions++;
+      this.results.details.push(result);
+
+      const label = result.typeCorrect ? result.detectedType : `${result.detectedType} (expected ${result.expectedType})`;
+      console.log(`  ${result.passed ? '✅' : '❌'} ${fixture.id} → ${label}`);
+    }
+
+    for (const conversion of this.selectConversions(ids)) {
+      let result;
+      try {
+        result = await this.testConversion(conversion);
+      } catch (error) {
+        result = { id: conversion.id, problems: [`Conversion failed: ${error.message}`], diff: [], passed: false };
+      }
+
+      if (!result.passed) this.results.regressions++;
+      this.results.conversions.push(result);
+      console.log(`  ${result.passed ? '✅' : '❌'} ${conversion.id}`);
+    }
+
+    return this.generateReport();
+  }
+
+  /**
+   * Rewrite golden files from the current output
+   */
+  async updateGoldens(ids = []) {
+    const fixtures = this.selectFixtures(ids);
+    for (const fixture of fixtures) {
+      const output = await this.processFixture(fixture);
+      const golden = CorpusRegressionRunner.goldenPaths(fixture);
+      fs.mkdirSync(path.dirname(golden.markdown), { recursive: true });
+      fs.writeFileSync(golden.markdown, output.markdown);
+      fs.writeFileSync(golden.detection, JSON.stringify(output.detection, null, 2) + '\n');
+      fs.writeFileSync(golden.metadata, output.metadata);
+      fs.writeFileSync(golden.structuredData, output.structuredData);
+      console.log(`✍️  Updated golden files for ${fixture.id}`);
+    }
+
+    for (const conversion of this.selectConversions(ids)) {
+      const golden = path.join(goldenDir, `${conversion.id}.md`);
+      fs.mkdirSync(path.dirname(golden), { recursive: true });
+      fs.writeFileSync(golden, await this.processConversion(conversion));
+      console.log(`✍️  Updated golden file for ${conversion.id}`);
+    }
+  }
+
+  selectFixtures(ids) {
+    if (ids.length === 0) {
+      return this.manifest.fixtures;
+    }
+    const conversions = this.manifest.conversions || [];
+    const selected = this.manifest.fixtures.filter(fixture => ids.includes(fixture.id));
+    const unknown = ids.filter(id =>
+      !selected.some(fixture => fixture.id === id) && !conversions.some(conversion => conversion.id === id)
+    );
+    if (unknown.length > 0) {
+      throw new Error(`Unknown fixture id(s): ${unknown.join(', ')}`);
+    }
+    return selected;
+  }
+
+  selectConversions(ids) {
+    const conversions = this.manifest.conversions || [];
+    return ids.length === 0 ? conversions : conversions.filter(conversion => ids.includes(conversion.id));
+  }
+
+  /**
+   * Print summary, confusion matrix and regression diffs
+   */
+  generateReport() {
+    const accuracy = this.results.total > 0 ? this.results.correct / this.results.total : 0;
+
+    console.log('\n' + '='.repeat(60));
+    console.log('📊 CORPUS RESULTS SUMMARY');
+    console.log('='.repeat(60));
+    console.log(`   Fixtures: ${this.results.total}`);
+    console.log(`   Converter cases: ${this.results.conversions.length}`);
+    console.log(`   Type accuracy: ${this.results.correct}/${this.results.total} (${(accuracy * 100).toFixed(1)}%)`);
+    console.log(`   Golden regressions: ${this.results.regressions}`);
+
+    console.log('\n🔢 Confusion Matrix (rows: expected, columns: detected)');
+    console.log(formatConfusionMatrix(this.results.details));
+
+    const failed = [...this.results.details, ...this.results.conversions].filter(result => !result.passed);
+    if (failed.length > 0) {
+      console.log('\n🔍 Regression Details:');
+      failed.forEach(result => {
+        console.log(`\n   ❌ ${result.id}`);
+        result.problems.forEach(problem => console.log(`      - ${problem}`));
+        result.diff.slice(0, this.config.maxDiffLines).forEach(line => console.log(`      ${line}`));
+        if (result.diff.length > this.config.maxDiffLines) {
+          console.log(`      ... ${result.diff.length - this.config.maxDiffLines} more diff lines`);
+        }
+      });
+    }
+
+    const accuracyOk = this.results.total === 0 || accuracy >= this.config.minAccuracy;
+    if (!accuracyOk) {
+      console.log(`\n⚠️  Type accuracy ${(accuracy * 100).toFixed(1)}% is below the minimum of ${(this.config.minAccuracy * 100).toFixed(1)}%`);
+    }
+
+    const success = accuracyOk && this.results.regressions === 0;
+    console.log(`\n${success ? '✅ CORPUS MATCHES GOLDEN FILES!' : '❌ CORPUS REGRESSIONS FOUND!'}`);
+
+    return success;
+  }
+
+  /**
+   * Add a new fixture to the corpus and write its golden files
+   */
+  static async addFixture({ pageType, name, html, url, description, source }) {
+    const manifest = CorpusRegressionRunner.loadManifest();
+    const id = `${pageType}/${name}`;
+    if (manifest.fixtures.some(fixture => fixture.id === id)) {
+      throw new Error(`Fixture "${id}" already exists`);
+    }
+
+    const file = `html/${pageType}/${name}.html`;
+    fs.mkdirSync(path.join(corpusDir, 'html', pageType), { recursive: true });
+    fs.writeFileSync(path.join(corpusDir, file), html);
+
+    manifest.fixtures.push({
+      id,
+      file,
+      expectedType: pageType,
+      url,
+      description,
+      source,
+      capturedAt: new Date().toISOString()
+    });
+    CorpusRegressionRunner.saveManifest(manifest);
+
+    await new CorpusRegressionRunner().updateGoldens([id]);
+    return id;
+  }
+}
+
+/**
+ * Line-based diff using the longest common subsequence
+ */
+function diffLines(expected, actual) {
+  const a = expected.split('\n');
+  const b = actual.split('\n');
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push(`- ${a[i++]}`);
+    } else {
+      lines.push(`+ ${b[j++]}`);
+    }
+  }
+  while (i < a.length) lines.push(`- ${a[i++]}`);
+  while (j < b.length) lines.push(`+ ${b[j++]}`);
+
+  return lines;
+}
+
+/**
+ * Render expected/detected type counts as a text table
+ */
+function formatConfusionMatrix(details) {
+  const expectedTypes = [...new Set(details.map(result => result.expectedType))].sort();
+  const detectedTypes = [...new Set(details.map(result => result.detectedType))].sort();
+  const labelWidth = Math.max(8, ...expectedTypes.map(type => type.length));
+
+  const header = ' '.repeat(labelWidth) + ' | ' +
+    detectedTypes.map(type => type.padStart(Math.max(3, type.length))).join(' ');
+  const rows = expectedTypes.map(expected => {
+    const cells = detectedTypes.map(detected => {
+      const count = details.filter(r => r.expectedType === expected && r.detectedType === detected).length;
+      return String(count || '.').padStart(Math.max(3, detected.length));
+    });
+    return expected.padEnd(labelWidth) + ' | ' + cells.join(' ');
+  });
+
+  return [header, '-'.repeat(header.length), ...rows].map(line => `   ${line}`).join('\n');
+}
+
+// CLI usage
+async function main() {
+  const args = process.argv.slice(2);
+  const runner = new CorpusRegressionRunner();
+
+  if (args[0] === 'update') {
+    // Regenerate golden files: node test-corpus-regression.js update [fixtureId...]
+    await runner.updateGoldens(args.slice(1));
+    return;
+  }
+
+  const success = await runner.runAll(args);
+  process.exit(success ? 0 : 1);
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('❌ Corpus suite failed:', error);
+    process.exit(1);
+  });
+}
+
+module.exports = { CorpusRegressionRunner, diffLines };
@@ -8,6 +8,7 @@
 const fs = require('fs');
 const https = require('https');
 const http = require('http');
+const zlib = require('zlib');
 const path = require('path');
 const { URL } = require('url');
 const { pageTypeDetector } = require('../dist/index.js');
@@ -53,7 +54,7 @@ class DetectionAccuracyTester {
       };
 
       const req = client.request(options, (res) => {
-        let data = '';
+        const chunks = [];
         
         // Handle redirects
         if (res.statusCode >= 300 && res.statusCode < 400 && res.headers.location) {
@@ -68,12 +69,16 @@ class DetectionAccuracyTester {
         }
 
         res.on('data', (chunk) => {
-          data += chunk;
+          chunks.push(chunk);
         });
 
         res.on('end', () => {
           if (res.statusCode === 200) {
-            resolve(data);
+            try {
+              resolve(this.decodeBody(Buffer.concat(chunks), res.headers['content-encoding']));
+            } catch (error) {
+              reject(error);
+            }
           } else {
             reject(new Error(`HTTP ${res.statusCode}: ${res.statusMessage}`));
           }
@@ -100,6 +105,20 @@ class DetectionAccuracyTester {
     });
   }
 
+  /**
+   * Decode a response body according to its Content-Encoding header
+   */
+  decodeBody(buffer, encoding) {
+    switch (encoding) {
+      case 'gzip':
+        return zlib.gunzipSync(buffer).toString('utf8');
+      case 'deflate':
+        return zlib.inflateSync(buffer).toString('utf8');
+      default:
+        return buffer.toString('utf8');
+    }
+  }
+
   /**
    * Test a single URL
    */
@@ -0,0 +1,51 @@
+/**
+ * Minimal test runner for the API test scripts: runs named async cases in
+ * order, prints one line per case and sets a failing exit code on failure.
+ * Like the corpus suite, the scripts test the built library in dist/.
+ */
+
+/**
+ * Run test cases and exit with their result
+ * @param {string} title Suite title
+ * @param {Array<[string, Function]>} cases Name and async test function of each case
+ */
+async function runSuite(title, cases) {
+  console.log(`🧪 ${title}`);
+  console.log('='.repeat(50));
+
+  const failures = [];
+  for (const [name, test] of cases) {
+    try {
+      await test();
+      console.log(`  ✅ ${name}`);
+    } catch (error) {
+      failures.push([name, error]);
+      console.log(`  ❌ ${name}`);
+    }
+  }
+
+  failures.forEach(([name, error]) => {
+    console.log(`\n   ❌ ${name}`);
+    console.log(`      ${String(error && error.stack || error).split('\n').slice(0, 6).join('\n      ')}`);
+  });
+
+  const passed = cases.length - failures.length;
+  console.log(`\n${failures.length === 0 ? '✅' : '❌'} ${passed}/${cases.length} passed`);
+  process.exitCode = failures.length === 0 ? 0 : 1;
+}
+
+/**
+ * Silence console output while a function runs, e.g. logs of plugins failing on purpose
+ * @param {Function} fn Sync or async function
+ */
+async function quietly(fn) {
+  const { log, warn, error } = console;
+  console.log = console.warn = console.error = () => {};
+  try {
+    return await fn();
+  } finally {
+    Object.assign(console, { log, warn, error });
+  }
+}
+
+module.exports = { runSuite, quietly };
@@ -0,0 +1,310 @@
+#!/usr/bin/env node
+
+/**
+ * Page Type Detector Tests
+ * Custom page types, rule management, rule files and the learned model
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const path = require('path');
+const { runSuite } = require('./test-harness');
+const {
+  PageTypeDetector,
+  pageTypeDetector,
+  PageTypeModel,
+  trainPageTypeModel,
+  evaluatePageTypeModel,
+  scorePageTypePredictions
+} = require('../dist/index.js');
+
+const CHANGELOG_HTML = `<html><head><title>Changelog</title></head><body>
+  <main>
+    <h1>Release notes</h1>
+    <h2 id="v2-1-0">2.1.0</h2>
+    <ul><li>Added export to CSV.</li><li>Fixed a crash when the config file is empty.</li></ul>
+    <h2 id="v2-0-0">2.0.0</h2>
+    <ul><li>Dropped support for the legacy config format.</li></ul>
+  </main>
+</body></html>`;
+
+const CHANGELOG_TYPE = {
+  type: 'changelog',
+  rules: [{ id: 'changelog/headings', selector: "h2[id^='v']", minCount: 2, weight: 2 }],
+  filterOptions: { strategy: 'fixed', threshold: 1 },
+  converterOptions: { format: 'github' }
+};
+
+/**
+ * Labeled samples where "docs" pages have code and "shop" pages have prices,
+ * with some noise in a feature that does not separate them
+ */
+function separableSamples() {
+  const samples = [];
+  for (let i = 0; i < 6; i++) {
+    samples.push({ label: 'docs', features: { 'dom:preformatted': 2 + i % 2, 'dom:prices': 0, noise: i % 3 } });
+    samples.push({ label: 'shop', features: { 'dom:preformatted': 0, 'dom:prices': 3 + i % 2, noise: (i + 1) % 3 } });
+  }
+  return samples;
+}
+
+/**
+ * Assert that a call throws a ProcessorError with the given code
+ */
+function assertCode(fn, code) {
+  assert.throws(fn, error => error.code === code || assert.fail(`expected ${code}, got ${error.code}: ${error.message}`));
+}
+
+const corpusDir = path.join(__dirname, 'corpus');
+
+const cases = [
+  ['corpus pages are detected from their content alone, without URLs', async () => {
+    const { fixtures } = JSON.parse(fs.readFileSync(path.join(corpusDir, 'manifest.json'), 'utf8'));
+    for (const fixture of fixtures) {
+      const result = await pageTypeDetector.detectPageType(fs.readFileSync(path.join(corpusDir, fixture.file), 'utf8'));
+      assert.strictEqual(result.type, fixture.expectedType, `${fixture.id}: ${JSON.stringify(result.distribution)}`);
+    }
+  }],
+
+  ['common words are not page type evidence', async () => {
+    const html = `<html><body><main><h1>Our story</h1>
+      <p>We like to share the latest news and headlines about our team. Follow along as we publish updates.</p>
+      <p>Published and updated every week, with a guide to ordering from the shop.</p></main></body></html>`;
+    const rules = new Set(Object.entries(await pageTypeDetector.extractFeatures(html))
+      .filter(([name, value]) => name.startsWith('rule:') && value === 1)
+      .map(([name]) => name.slice('rule:'.length)));
+    ['social-media/keywords', 'news/keywords', 'news/indicators', 'documentation/keywords', 'e-commerce/keywords', 'forum/indicators']
+      .forEach(id => assert.ok(!rules.has(id), id));
+  }],
+
+  ['URL hints match whole hostname labels and path words', async () => {
+    const html = '<html><body><main><h1>Welcome</h1><p>A plain page.</p></main></body></html>';
+    const urlRules = async url => Object.entries(await pageTypeDetector.extractFeatures(html, url))
+      .filter(([name, value]) => name.endsWith('/url') && value === 1)
+      .map(([name]) => name.slice('rule:'.length));
+
+    for (const url of [
+      'https://app.example.com/maps', 'https://www.apple.com/', 'https://rapid.example.com/capital',
+      'https://example.com/restore', 'https://combing.example.com/', 'https://example.com/workshop/bookings'
+    ]) {
+      assert.deepStrictEqual(await urlRules(url), [], url);
+    }
+
+    assert.deepStrictEqual(await urlRules('https://apnews.com/article/1'), ['news/url']);
+    assert.deepStrictEqual(await urlRules('https://my-blog.example.com/posts/1'), ['blog/url']);
+    assert.deepStrictEqual(await urlRules('https://example.com/guides/api-reference'), ['documentation/url']);
+    assert.deepStrictEqual(await urlRules('https://example.com/shops/42'), ['e-commerce/url']);
+    assert.deepStrictEqual(await urlRules('https://www.bing.com/search?q=tram'), ['search-engine/url']);
+    assert.deepStrictEqual(await urlRules('https://example.com/find?query=tram'), ['search-engine/url']);
+  }],
+
+  ['abstaining combines the tied types options so content either keeps is kept', async () => {
+    const html = fs.readFileSync(path.join(corpusDir, 'html/landing-page/saas-signup.html'), 'utf8');
+    const detector = new PageTypeDetector();
+    const landing = await detector.detectPageType(html);
+    // Give social media the same evidence as landing page, so detection cannot choose
+    detector.addRule('social-media', { id: 'social-media/tie', selector: 'body', weight: landing.scores['landing-page'] });
+    const result = await detector.detectPageType(html);
+    assert.strictEqual(result.type, 'unknown');
+    assert.strictEqual(result.abstained, true);
+    assert.deepStrictEqual([...result.labels].sort(), ['landing-page', 'social-media']);
+
+    const social = detector.getRecommendedOptions('social-media').filterOptions;
+    const landingOptions = detector.getRecommendedOptions('landing-page').filterOptions;
+    assert.strictEqual(result.filterOptions.ratio, Math.min(social.ratio, landingOptions.ratio));
+    assert.strictEqual(result.filterOptions.minWords, Math.min(social.minWords, landingOptions.minWords));
+    assert.ok(!result.filterOptions.removeElements.includes('form'));
+    assert.deepStrictEqual(result.filterOptions.keepElements, social.keepElements);
+    assert.strictEqual(result.filterOptions.positivePattern, undefined);
+  }],
+
+  ['registered page types are detected with their recommended options', async () => {
+    const detector = new PageTypeDetector().registerPageType(CHANGELOG_TYPE);
+    assert.ok(detector.getPageTypes().includes('changelog'));
+
+    const result = await detector.detectPageType(CHANGELOG_HTML);
+    assert.strictEqual(result.type, 'changelog');
+    assert.strictEqual(result.filterOptions.strategy, 'fixed');
+    assert.deepStrictEqual(result.converterOptions, { format: 'github' });
+    assert.deepStrictEqual(detector.getRecommendedOptions('changelog').converterOptions, { format: 'github' });
+  }],
+
+  ['custom page types stay on their own detector', async () => {
+    new PageTypeDetector().registerPageType(CHANGELOG_TYPE);
+    const result = await new PageTypeDetector().detectPageType(CHANGELOG_HTML);
+    assert.notStrictEqual(result.type, 'changelog');
+  }],
+
+  ['registering a type again replaces its rules, and removePageType drops them', async () => {
+    const detector = new PageTypeDetector().registerPageType(CHANGELOG_TYPE);
+    detector.registerPageType({ type: 'changelog', rules: [{ id: 'changelog/title', pattern: '\\brelease notes\\b', weight: 1 }] });
+    const ids = detector.getRules().filter(rule => rule.type === 'changelog').map(rule => rule.id);
+    assert.deepStrictEqual(ids, ['changelog/title']);
+
+    assert.strictEqual(detector.removePageType('changelog'), true);
+    assert.strictEqual(detector.removePageType('changelog'), false);
+    assert.ok(!detector.getRules().some(rule => rule.type === 'changelog'));
+  }],
+
+  ['built-in and missing type names are rejected', async () => {
+    const detector = new PageTypeDetector();
+    assertCode(() => detector.registerPageType({ type: 'blog', rules: [] }), 'INVALID_PAGE_TYPE');
+    assertCode(() => detector.registerPageType({ type: 'unknown', rules: [] }), 'INVALID_PAGE_TYPE');
+    assertCode(() => detector.registerPageType({ type: '', rules: [] }), 'INVALID_PAGE_TYPE');
+  }],
+
+  ['addRule scores built-in types and validates the rule', async () => {
+    const detector = new PageTypeDetector();
+    detector.addRule('documentation', { id: 'docs/release-notes', pattern: '\\brelease notes\\b', weight: 3 });
+    const result = await detector.detectPageType(CHANGELOG_HTML);
+    assert.strictEqual(result.type, 'documentation');
+    assert.ok(result.scores.documentation >= 3);
+
+    assertCode(() => detector.addRule('changelog', { pattern: 'x', weight: 1 }), 'UNKNOWN_PAGE_TYPE');
+    assertCode(() => detector.addRule('blog', { id: 'blog/bad-regex', pattern: '(', weight: 1 }), 'INVALID_PAGE_TYPE_RULE');
+    assertCode(() => detector.addRule('blog', { id: 'blog/no-condition', weight: 1 }), 'INVALID_PAGE_TYPE_RULE');
+    assertCode(() => detector.addRule('blog', { id: 'blog/no-weight', pattern: 'x' }), 'INVALID_PAGE_TYPE_RULE');
+    assertCode(() => detector.addRule('blog', { id: 'blog/indicators', pattern: 'x', weight: 1 }), 'INVALID_PAGE_TYPE_RULE');
+  }],
+
+  ['disableRules and enableRules switch rules by id', async () => {
+    const detector = new PageTypeDetector().registerPageType(CHANGELOG_TYPE);
+    detector.disableRules(['changelog/headings', 'blog/url']);
+    const rules = detector.getRules();
+    assert.strictEqual(rules.find(rule => rule.id === 'changelog/headings').enabled, false);
+    assert.strictEqual(rules.find(rule => rule.id === 'blog/url').builtin, true);
+    assert.notStrictEqual((await detector.detectPageType(CHANGELOG_HTML)).type, 'changelog');
+
+    detector.enableRules(['changelog/headings']);
+    assert.strictEqual((await detector.detectPageType(CHANGELOG_HTML)).type, 'changelog');
+    assertCode(() => detector.disableRules(['changelog/missing']), 'UNKNOWN_PAGE_TYPE_RULE');
+    assertCode(() => detector.enableRules(['changelog/missing']), 'UNKNOWN_PAGE_TYPE_RULE');
+  }],
+
+  ['setRuleWeight changes the weight in effect', async () => {
+    const detector = new PageTypeDetector().registerPageType(CHANGELOG_TYPE);
+    detector.setRuleWeight('changelog/headings', 0.25);
+    assert.strictEqual(detector.getRules().find(rule => rule.id === 'changelog/headings').weight, 0.25);
+    assert.strictEqual((await detector.detectPageType(CHANGELOG_HTML)).scores.changelog, 0.25);
+
+    assertCode(() => detector.setRuleWeight('changelog/headings', NaN), 'INVALID_PAGE_TYPE_RULE');
+    assertCode(() => detector.setRuleWeight('changelog/missing', 1), 'UNKNOWN_PAGE_TYPE_RULE');
+  }],
+
+  ['loadRules applies a JSON rule file', async () => {
+    const detector = new PageTypeDetector().loadRules(JSON.stringify({
+      pageTypes: [CHANGELOG_TYPE],
+      rules: [{ type: 'documentation', id: 'docs/wiki', urlPattern: 'wiki\\.internal', weight: 0.5 }],
+      disable: ['social-media/keywords'],
+      weights: { 'e-commerce/keywords': 0.3 },
+      scoring: { temperature: 0.5 }
+    }));
+    const rules = detector.getRules();
+    assert.strictEqual((await detector.detectPageType(CHANGELOG_HTML)).type, 'changelog');
+    assert.strictEqual(rules.find(rule => rule.id === 'docs/wiki').builtin, false);
+    assert.strictEqual(rules.find(rule => rule.id === 'social-media/keywords').enabled, false);
+    assert.strictEqual(rules.find(rule => rule.id === 'e-commerce/keywords').weight, 0.3);
+  }],
+
+  ['loadRules rejects malformed files with error codes', async () => {
+    const detector = new PageTypeDetector();
+    assertCode(() => detector.loadRules('{ not json'), 'INVALID_PAGE_TYPE_RULE');
+    assertCode(() => detector.loadRules({ disable: ['blog/missing'] }), 'UNKNOWN_PAGE_TYPE_RULE');
+    assertCode(() => detector.loadRules({ weights: { 'blog/missing': 1 } }), 'UNKNOWN_PAGE_TYPE_RULE');
+    assertCode(() => detector.loadRules({ rules: [{ type: 'changelog', pattern: 'x', weight: 1 }] }), 'UNKNOWN_PAGE_TYPE');
+    assertCode(() => detector.loadRules({ scoring: { temperature: 0 } }), 'INVALID_PAGE_TYPE_SCORING');
+  }],
+
+  ['a rule file that fails halfway leaves the detector unchanged', async () => {
+    const detector = new PageTypeDetector();
+    const before = JSON.stringify({ types: detector.getPageTypes(), rules: detector.getRules() });
+    const failures = [
+      { pageTypes: [CHANGELOG_TYPE], rules: [{ type: 'changelog', id: 'changelog/bad', pattern: '(', weight: 1 }] },
+      { pageTypes: [CHANGELOG_TYPE], rules: [{ type: 'changelog', id: 'changelog/headings', pattern: 'x', weight: 1 }] },
+      { pageTypes: [CHANGELOG_TYPE], disable: ['blog/indicators', 'changelog/missing'] },
+      { pageTypes: [CHANGELOG_TYPE], weights: { 'blog/indicators': 5, 'changelog/missing': 1 } },
+      { pageTypes: [CHANGELOG_TYPE], weights: { 'blog/indicators': 5 }, scoring: { temperature: -1 } }
+    ];
+    for (const ruleSet of failures) {
+      assert.throws(() => detector.loadRules(ruleSet));
+      assert.strictEqual(JSON.stringify({ types: detector.getPageTypes(), rules: detector.getRules() }), before);
+    }
+    assert.notStrictEqual((await detector.detectPageType(CHANGELOG_HTML)).type, 'changelog');
+  }],
+
+  ['trainPageTypeModel learns separable page types deterministically', async () => {
+    const model = trainPageTypeModel(separableSamples());
+    assert.deepStrictEqual(model.getLabels(), ['docs', 'shop']);
+    assert.strictEqual(model.classify({ 'dom:preformatted': 3 }), 'docs');
+    assert.strictEqual(model.classify({ 'dom:prices': 4 }), 'shop');
+    const distribution = model.predict({ 'dom:preformatted': 3 });
+    assert.deepStrictEqual(Object.keys(distribution), ['docs', 'shop']);
+    assert.ok(Math.abs(distribution.docs + distribution.shop - 1) < 1e-9);
+    assert.deepStrictEqual(trainPageTypeModel(separableSamples()).toJSON(), model.toJSON());
+
+    assertCode(() => trainPageTypeModel(separableSamples().filter(sample => sample.label === 'docs')), 'INVALID_TRAINING_DATA');
+  }],
+
+  ['models round-trip through JSON', async () => {
+    const model = trainPageTypeModel(separableSamples(), { epochs: 50 });
+    const restored = PageTypeModel.fromJSON(JSON.stringify(model));
+    assert.deepStrictEqual(restored.toJSON(), model.toJSON());
+    assert.deepStrictEqual(restored.predict({ 'dom:prices': 2 }), model.predict({ 'dom:prices': 2 }));
+
+    assertCode(() => PageTypeModel.fromJSON('{ not json'), 'INVALID_PAGE_TYPE_MODEL');
+    assertCode(() => PageTypeModel.fromJSON({ ...model.toJSON(), version: 2 }), 'INVALID_PAGE_TYPE_MODEL');
+    assertCode(() => PageTypeModel.fromJSON({ ...model.toJSON(), bias: [0] }), 'INVALID_PAGE_TYPE_MODEL');
+  }],
+
+  ['evaluation reports accuracy, per-type precision and recall, and confusion', async () => {
+    const evaluation = scorePageTypePredictions([
+      ['docs', 'docs'], ['docs', 'shop'], ['shop', 'shop'], ['shop', 'shop'], ['blog', 'docs']
+    ]);
+    assert.strictEqual(evaluation.accuracy, 0.6);
+    assert.deepStrictEqual(evaluation.classes.docs, { precision: 0.5, recall: 0.5, f1: 0.5, support: 2 });
+    assert.deepStrictEqual(evaluation.classes.shop, { precision: 2 / 3, recall: 1, f1: 0.8, support: 2 });
+    assert.deepStrictEqual(evaluation.classes.blog, { precision: 0, recall: 0, f1: 0, support: 1 });
+    assert.deepStrictEqual(evaluation.confusion.docs, { docs: 1, shop: 1 });
+
+    const samples = separableSamples();
+    assert.strictEqual(evaluatePageTypeModel(trainPageTypeModel(samples), samples).accuracy, 1);
+    assert.strictEqual(evaluatePageTypeModel(() => 'docs', samples).classes.shop.recall, 0);
+  }],
+
+  ['setModel blends the model distribution with the rules', async () => {
+    const detector = new PageTypeDetector().registerPageType(CHANGELOG_TYPE);
+    const rulesOnly = await detector.detectPageType(CHANGELOG_HTML);
+    assert.strictEqual(rulesOnly.modelDistribution, undefined);
+
+    // A model trained to call every page with list items a blog
+    const features = await detector.extractFeatures(CHANGELOG_HTML);
+    assert.strictEqual(features['rule:changelog/headings'], 1);
+    const model = trainPageTypeModel([
+      { label: 'blog', features },
+      { label: 'changelog', features: { ...features, 'dom:listItems': 0 } }
+    ]);
+
+    detector.setModel(model, 0.5);
+    const blended = await detector.detectPageType(CHANGELOG_HTML);
+    const expected = type => 0.5 * (rulesOnly.distribution[type] || 0) + 0.5 * (blended.modelDistribution[type] || 0);
+    assert.ok(blended.modelDistribution.blog > 0.9);
+    Object.keys(blended.distribution).forEach(type => {
+      assert.ok(Math.abs(blended.distribution[type] - expected(type)) < 1e-9, type);
+    });
+
+    detector.setModel(model, 1);
+    const modelOnly = await detector.detectPageType(CHANGELOG_HTML);
+    assert.strictEqual(modelOnly.type, 'blog');
+    assert.ok(modelOnly.reasons.some(reason => reason.startsWith('Learned model gives blog')));
+    detector.setModel(model.toJSON(), 0);
+    assert.strictEqual((await detector.detectPageType(CHANGELOG_HTML)).type, 'changelog');
+    detector.setModel(null);
+    assert.strictEqual((await detector.detectPageType(CHANGELOG_HTML)).modelDistribution, undefined);
+
+    assertCode(() => detector.setModel(model, 1.5), 'INVALID_PAGE_TYPE_MODEL');
+    const fromOptions = new PageTypeDetector({ pageTypes: [CHANGELOG_TYPE], model: model.toJSON(), modelWeight: 1 });
+    assert.strictEqual((await fromOptions.detectPageType(CHANGELOG_HTML)).type, 'blog');
+  }]
+];
+
+runSuite('Page Type Detector Tests', cases);
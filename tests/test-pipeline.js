@@ -0,0 +1,377 @@
+#!/usr/bin/env node
+
+/**
+ * Pipeline Tests
+ * Explain-mode traces, the filter report, parse counts, DOM backends and
+ * injected documents, metadata dates across time zones, and front matter
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const path = require('path');
+const { execFileSync } = require('child_process');
+const { JSDOM } = require('jsdom');
+const { runSuite } = require('./test-harness');
+const {
+  HtmlProcessor,
+  htmlToMarkdown,
+  htmlToMarkdownAuto,
+  htmlToText,
+  cleanHtml,
+  extractContent,
+  htmlToArticleMarkdown,
+  htmlToBlogMarkdown,
+  htmlToNewsMarkdown,
+  strictCleanHtml,
+  gentleCleanHtml,
+  renderFilterReport,
+  parseHTML,
+  domAdapter,
+  LiteDOMParser
+} = require('../dist/index.js');
+
+const ARTICLE_HTML = `<html><body>
+  <header class="masthead"><a href="/">Home</a> <a href="/news">News</a></header>
+  <div id="ad-mpu" class="ad-mpu">Advertisement: buy the newest phone today</div>
+  <main>
+    <article>
+      <h1>Pipeline test page</h1>
+      <p>The first paragraph has enough words to be kept by the filter in every run of the suite.</p>
+      <p>The second paragraph also has plenty of words, so the filter keeps it next to the first one.</p>
+    </article>
+  </main>
+</body></html>`;
+
+// Active content that must not survive into the filter report
+const HOSTILE_HTML = `<html><body>
+  <meta http-equiv="refresh" content="0; url=https://evil.example/">
+  <link rel="stylesheet" href="https://evil.example/track.css">
+  <style>body { background: url(https://evil.example/bg.png); }</style>
+  <script>document.title = 'pwned';</script>
+  <iframe src="https://evil.example/frame"></iframe>
+  <article onmouseover="steal()">
+    <h1 onclick="steal()">Hostile page</h1>
+    <p style="background-image: url('https://evil.example/p.png')">The first paragraph has enough words to be kept by the filter in every run of the suite.</p>
+    <p>The second paragraph links <a href=" java&#10;script:steal()">somewhere</a> and has plenty of words to be kept too.</p>
+    <img src="https://evil.example/pixel.gif" srcset="https://evil.example/pixel-2x.gif 2x" alt="Tracking pixel">
+    <img src="data:image/png;base64,iVBORw0KGgo=" alt="Inline image">
+    <form action="javascript:steal()"><button formaction="javascript:steal()">Send</button></form>
+  </article>
+</body></html>`;
+
+const corpusDir = path.join(__dirname, 'corpus');
+const manifest = JSON.parse(fs.readFileSync(path.join(corpusDir, 'manifest.json'), 'utf8'));
+
+/**
+ * Count the HTML parses made through the DOM adapter while a function runs
+ */
+async function countParses(fn) {
+  const parse = domAdapter.parseHTML;
+  let count = 0;
+  domAdapter.parseHTML = function (...args) {
+    count++;
+    return parse.apply(this, args);
+  };
+  try {
+    await fn();
+  } finally {
+    domAdapter.parseHTML = parse;
+  }
+  return count;
+}
+
+async function explain(html, filterOptions = {}) {
+  const processor = await HtmlProcessor.from(html).filter({ explain: true, ...filterOptions });
+  return (await processor.getFilterResult()).trace;
+}
+
+const cases = [
+  ['explain mode records a decision for each removed element', async () => {
+    const trace = await explain(ARTICLE_HTML);
+    assert.ok(trace, 'trace is recorded');
+    assert.ok(trace.input.includes('ad-mpu'), 'trace keeps the filter input');
+
+    const removed = trace.entries.filter(entry => entry.decision === 'removed');
+    const header = removed.find(entry => entry.path.includes('header.masthead'));
+    assert.ok(header, 'the header removal is traced');
+    assert.strictEqual(header.stage, 'excludedTags');
+    const ad = removed.find(entry => entry.path.includes('ad-mpu'));
+    assert.ok(ad, 'the ad removal is traced');
+    assert.match(ad.rule, /ad/);
+  }],
+
+  ['trace indexes point at the traced elements in the input', async () => {
+    const trace = await explain(ARTICLE_HTML);
+    const doc = await parseHTML(trace.input);
+    const elements = Array.from(doc.body.querySelectorAll('*'));
+    trace.entries.filter(entry => entry.index >= 0).forEach(entry => {
+      const element = elements[entry.index];
+      assert.ok(element, `element ${entry.index} exists`);
+      const last = entry.path.split(' > ').pop();
+      assert.strictEqual(element.tagName.toLowerCase(), last.split(/[.#:[]/)[0], entry.path);
+    });
+  }],
+
+  ['score decisions carry their metrics', async () => {
+    const trace = await explain(ARTICLE_HTML);
+    const scored = trace.entries.filter(entry => entry.stage === 'score');
+    assert.ok(scored.length > 0, 'some elements are scored');
+    scored.forEach(entry => {
+      assert.ok(entry.metrics, `${entry.path} has metrics`);
+      assert.strictEqual(typeof entry.metrics.score, 'number');
+      assert.strictEqual(typeof entry.metrics.threshold, 'number');
+    });
+  }],
+
+  ['class/id patterns weigh whole name tokens, not substrings', async () => {
+    const paragraph = '<p>A paragraph with enough words to be scored as real content here.</p>';
+    const names = [
+      'class="header-intro"', 'class="shadow-box"', 'id="download"', 'class="main-nav"', 'id="navLinks"',
+      'class="post-meta"', 'class="comments"', 'class="post-body"', 'class="entry-contents"', 'class="postscript"'
+    ];
+    const html = `<html><body><main>${names.map(name => `<div ${name}>${paragraph}</div>`).join('')}</main></body></html>`;
+    const trace = await explain(html, { positivePattern: 'post-body|entry-content' });
+    const weights = {};
+    trace.entries.filter(entry => entry.stage === 'score' && / > div[.#][^ ]*$/.test(entry.path)).forEach(entry => {
+      weights[entry.path.split(' > ').pop()] = entry.metrics.classIdWeight;
+    });
+    assert.deepStrictEqual(weights, {
+      'div.header-intro': 0,
+      'div.shadow-box': 0,
+      'div#download': 0,
+      'div.main-nav': -0.5,
+      'div#navLinks': -0.5,
+      'div.post-meta': -0.5,
+      'div.comments': -0.5,
+      'div.post-body': 0.25,
+      'div.entry-contents': 0.25,
+      'div.postscript': 0
+    });
+  }],
+
+  ['filtering without explain records no trace', async () => {
+    const processor = await HtmlProcessor.from(ARTICLE_HTML).filter();
+    assert.strictEqual((await processor.getFilterResult()).trace, undefined);
+    assert.strictEqual(processor.getFilterTrace(), null);
+  }],
+
+  ['the report outlines removed and kept elements and lists removals', async () => {
+    const trace = await explain(ARTICLE_HTML);
+    const report = await renderFilterReport(trace);
+    assert.ok(report.startsWith('<!DOCTYPE html>'));
+    assert.match(report, /<header class="masthead"[^>]*data-filter-decision="removed"/);
+    assert.match(report, /<td>[^<]*ad-mpu[^<]*<\/td>/);
+    assert.ok(report.includes('Pipeline test page'), 'page content is shown');
+  }],
+
+  ['the report runs no page content and loads nothing remote', async () => {
+    const trace = await explain(HOSTILE_HTML);
+    const report = await renderFilterReport(trace);
+    const page = report.slice(report.indexOf('filter-report-page'));
+
+    assert.match(report, /<meta http-equiv="Content-Security-Policy" content="default-src 'none';/);
+    assert.doesNotMatch(page, /<(script|iframe|link|style|meta)\b/i, 'active elements are removed');
+    assert.doesNotMatch(page, /\son\w+=/i, 'event handlers are removed');
+    assert.doesNotMatch(page, /script:/i, 'script URLs are removed');
+    assert.doesNotMatch(page, /evil\.example/, 'remote resources are removed');
+    assert.match(page, /alt="Tracking pixel"/, 'remote images keep their alt text');
+    assert.match(page, /src="data:image\/png;base64,/, 'inline images are kept');
+    assert.ok(page.includes('Hostile page'), 'page text is kept');
+  }],
+
+  ['auto-detected conversion parses each corpus page once', async () => {
+    for (const fixture of manifest.fixtures) {
+      const html = fs.readFileSync(path.join(corpusDir, fixture.file), 'utf8');
+      const parses = await countParses(() => htmlToMarkdownAuto(html, fixture.url));
+      assert.strictEqual(parses, 1, fixture.id);
+    }
+  }],
+
+  ['every output of a filtered processor comes from the one parse', async () => {
+    const fixture = manifest.fixtures.find(entry => entry.id === 'news/city-council-budget');
+    const html = fs.readFileSync(path.join(corpusDir, fixture.file), 'utf8');
+    const parses = await countParses(async () => {
+      const processor = await HtmlProcessor.from(html, { baseUrl: fixture.url }).withAutoDetection(fixture.url);
+      await processor.filter();
+      await processor.toMarkdown();
+      await processor.toMarkdown({ format: 'commonmark' });
+      await processor.toText();
+      await processor.toArray();
+      await processor.getFilterResult();
+    });
+    assert.strictEqual(parses, 1);
+  }],
+
+  ['the lite backend converts the corpus like jsdom', async () => {
+    const entries = [...manifest.fixtures, ...manifest.conversions.filter(conversion => !conversion.stream)];
+    for (const entry of entries) {
+      const html = fs.readFileSync(path.join(corpusDir, entry.file), 'utf8');
+      const [jsdom, lite] = await Promise.all(['jsdom', 'lite'].map(async domBackend => {
+        const processor = await HtmlProcessor.from(html, { baseUrl: entry.url, domBackend }).filter(entry.filter || {});
+        return (await processor.toMarkdown(entry.options || {})).content;
+      }));
+      assert.strictEqual(lite, jsdom, `${entry.id} converts the same with both backends`);
+    }
+  }],
+
+  ['the lite backend never loads jsdom', async () => {
+    // A fresh process, since the other cases have loaded jsdom into this one
+    const script = `
+      const { HtmlProcessor } = require(${JSON.stringify(path.join(__dirname, '..', 'dist', 'index.js'))});
+      const html = require('fs').readFileSync(${JSON.stringify(path.join(corpusDir, manifest.fixtures[0].file))}, 'utf8');
+      (async () => {
+        const processor = await HtmlProcessor.from(html, { domBackend: 'lite' }).filter();
+        await processor.toMarkdown();
+        await processor.toText();
+        await HtmlProcessor.from(html, { domBackend: 'lite' }).toMarkdown();
+        console.log(Object.keys(require.cache).some(file => /node_modules.jsdom/.test(file)));
+      })();`;
+    const output = execFileSync(process.execPath, ['-e', script], { encoding: 'utf8', timeout: 60000 });
+    assert.strictEqual(output.trim().split('\n').pop(), 'false');
+  }],
+
+  ['metadata dates do not depend on the host time zone', async () => {
+    const dates = ['March 5, 2024', '2024-03-05', '2024-03-05T10:00:00+09:00', '2024-03-05T01:00Z'];
+    // Dates are read in a child process because the time zone is fixed when Node starts
+    const script = `
+      const fs = require('fs');
+      const path = require('path');
+      const { extractMetadata } = require(${JSON.stringify(path.join(__dirname, '../dist/index.js'))});
+      const corpusDir = ${JSON.stringify(corpusDir)};
+      const manifest = JSON.parse(fs.readFileSync(path.join(corpusDir, 'manifest.json'), 'utf8'));
+      (async () => {
+        const corpus = {};
+        for (const fixture of manifest.fixtures) {
+          const html = fs.readFileSync(path.join(corpusDir, fixture.file), 'utf8');
+          corpus[fixture.id] = JSON.stringify(await extractMetadata(html, fixture.url), null, 2) + '\\n';
+        }
+        const published = [];
+        for (const date of ${JSON.stringify(dates)}) {
+          published.push((await extractMetadata('<html><head><meta name="date" content="' + date + '"></head><body></body></html>')).publishedTime);
+        }
+        console.log(JSON.stringify({ corpus, published }));
+      })();
+    `;
+
+    for (const timeZone of ['Asia/Tokyo', 'America/Los_Angeles']) {
+      const output = execFileSync(process.execPath, ['-e', script], {
+        encoding: 'utf8',
+        timeout: 60000,
+        env: { ...process.env, TZ: timeZone }
+      });
+      const { corpus, published } = JSON.parse(output.trim().split('\n').pop());
+
+      assert.deepStrictEqual(published, ['March 5, 2024', '2024-03-05', '2024-03-05T10:00:00+09:00', '2024-03-05T01:00:00.000Z'], timeZone);
+      for (const fixture of manifest.fixtures) {
+        const golden = fs.readFileSync(path.join(corpusDir, 'golden', `${fixture.id}.metadata.json`), 'utf8');
+        assert.strictEqual(corpus[fixture.id], golden, `${fixture.id} in ${timeZone}`);
+      }
+    }
+  }],
+
+  ['a parsed document converts like its HTML, without parsing or changing it', async () => {
+    for (const fixture of manifest.fixtures) {
+      const html = fs.readFileSync(path.join(corpusDir, fixture.file), 'utf8');
+      const doc = new JSDOM(html).window.document;
+      const before = doc.documentElement.outerHTML;
+
+      let markdown;
+      const parses = await countParses(async () => {
+        const processor = await HtmlProcessor.fromDocument(doc, { baseUrl: fixture.url }).filter();
+        markdown = (await processor.toMarkdown()).content;
+      });
+      const fromHtml = await HtmlProcessor.from(html, { baseUrl: fixture.url }).filter();
+
+      assert.strictEqual(markdown, (await fromHtml.toMarkdown()).content, fixture.id);
+      assert.strictEqual(parses, 0, `${fixture.id} is not re-parsed`);
+      assert.strictEqual(doc.documentElement.outerHTML, before, `${fixture.id} is left unchanged`);
+    }
+  }],
+
+  ['an element converts as the whole content', async () => {
+    const doc = new JSDOM(`<html><body>
+      <div class="intro"><p>This introduction sits outside the article and has more than enough words to survive filtering.</p></div>
+      <article>
+        <h1>Pipeline test page</h1>
+        <p>The article paragraph has enough words to be kept by the filter in every run of the suite.</p>
+      </article>
+    </body></html>`).window.document;
+    const result = await htmlToMarkdownAuto(doc.querySelector('article'), 'https://example.com/post');
+    assert.match(result.content, /^# Pipeline test page$/m);
+    assert.ok(!result.content.includes('introduction'), 'content outside the element is left out');
+  }],
+
+  ['injected DOM implementations parse the HTML', async () => {
+    const { window } = new JSDOM('');
+    let parses = 0;
+    class CountingDOMParser {
+      parseFromString(html, type) {
+        parses++;
+        return new window.DOMParser().parseFromString(html, type);
+      }
+    }
+
+    const convert = async domBackend => {
+      const processor = await HtmlProcessor.from(ARTICLE_HTML, { domBackend }).filter();
+      return (await processor.toMarkdown()).content;
+    };
+    const expected = await convert('jsdom');
+
+    assert.strictEqual(await convert({ DOMParser: CountingDOMParser }), expected, 'window-like object');
+    assert.strictEqual(parses, 1, 'the injected parser is used, once');
+    assert.strictEqual(await convert(window), expected, 'jsdom window');
+    assert.strictEqual(await convert(new LiteDOMParser()), await convert('lite'), 'DOMParser instance');
+  }],
+
+  ['the convenience functions parse string input with an injected DOM implementation', async () => {
+    const { window } = new JSDOM('');
+    let parses = 0;
+    class CountingDOMParser {
+      parseFromString(html, type) {
+        parses++;
+        return new window.DOMParser().parseFromString(html, type);
+      }
+    }
+
+    const baseUrl = 'https://example.com/post';
+    const calls = {
+      htmlToMarkdown: domBackend => htmlToMarkdown(ARTICLE_HTML, { baseUrl, domBackend }),
+      htmlToText: domBackend => htmlToText(ARTICLE_HTML, { threshold: 2, domBackend }),
+      cleanHtml: domBackend => cleanHtml(ARTICLE_HTML, { domBackend }),
+      extractContent: domBackend => extractContent(ARTICLE_HTML, { domBackend }),
+      htmlToArticleMarkdown: domBackend => htmlToArticleMarkdown(ARTICLE_HTML, baseUrl, { domBackend }),
+      htmlToBlogMarkdown: domBackend => htmlToBlogMarkdown(ARTICLE_HTML, baseUrl, { domBackend }),
+      htmlToNewsMarkdown: domBackend => htmlToNewsMarkdown(ARTICLE_HTML, baseUrl, { domBackend }),
+      strictCleanHtml: domBackend => strictCleanHtml(ARTICLE_HTML, { domBackend }),
+      gentleCleanHtml: domBackend => gentleCleanHtml(ARTICLE_HTML, { domBackend })
+    };
+
+    for (const [name, call] of Object.entries(calls)) {
+      parses = 0;
+      assert.deepStrictEqual(await call({ DOMParser: CountingDOMParser }), await call('jsdom'), name);
+      assert.ok(parses > 0, `${name} parses with the injected parser`);
+    }
+  }],
+
+  ['front matter writes non-finite numbers and null items as valid YAML and TOML', async () => {
+    const fields = { ratio: NaN, high: Infinity, low: -Infinity, tags: ['a', null, 'b'] };
+    const convert = async format => (await htmlToMarkdownAuto(ARTICLE_HTML, 'https://example.com/post', {
+      frontMatter: { format, fields }
+    })).frontMatter;
+
+    const yaml = await convert('yaml');
+    assert.match(yaml, /^ratio: \.nan$/m);
+    assert.match(yaml, /^high: \.inf$/m);
+    assert.match(yaml, /^low: -\.inf$/m);
+    assert.match(yaml, /^tags: \["a", null, "b"\]$/m);
+
+    const toml = await convert('toml');
+    assert.match(toml, /^\+\+\+\ntitle = "Pipeline test page"$/m);
+    assert.match(toml, /^ratio = nan$/m);
+    assert.match(toml, /^high = inf$/m);
+    assert.match(toml, /^low = -inf$/m);
+    assert.match(toml, /^tags = \["a", "b"\]$/m);
+  }]
+];
+
+runSuite('Pipeline Tests', cases);
@@ -0,0 +1,322 @@
+#!/usr/bin/env node
+
+/**
+ * Plugin System Tests
+ * Stage hooks and ordering, per-processor registries and their lifecycle,
+ * registration config, failure policies and plugin stats
+ */
+
+const assert = require('assert');
+const { runSuite, quietly } = require('./test-harness');
+const {
+  HtmlProcessor,
+  usePlugin,
+  removePlugin,
+  createPluginRegistry,
+  htmlToMarkdown,
+  htmlToMarkdownAuto,
+  htmlToMarkdownStream,
+  processBatch,
+  PluginError,
+  builtinPlugins,
+  parseHTML
+} = require('../dist/index.js');
+
+const ARTICLE_HTML = `<html><body>
+  <article>
+    <h1>Plugin test page</h1>
+    <p>The first paragraph has enough words to be kept by the filter in every run.</p>
+    <p class="drop-me">This paragraph is dropped by an element hook before conversion.</p>
+    <p>The last paragraph also has plenty of words so the filter keeps it too.</p>
+  </article>
+</body></html>`;
+
+/**
+ * Plugin that records each call of its hooks in a shared log
+ */
+function recordingPlugin(name, log, extra = {}) {
+  const record = stage => () => { log.push(`${name}:${stage}`); };
+  return {
+    name,
+    beforeFilter: record('beforeFilter'),
+    afterFilter: record('afterFilter'),
+    beforeConvert: record('beforeConvert'),
+    afterConvert: record('afterConvert'),
+    ...extra
+  };
+}
+
+/**
+ * Plugin that appends a marker line to the Markdown
+ */
+function markerPlugin(name, marker = name, extra = {}) {
+  return { name, afterConvert: markdown => `${markdown}\n\n[${marker}]`, ...extra };
+}
+
+/**
+ * Markers appended to the Markdown of a run, in run order
+ */
+function markers(markdown) {
+  return (markdown.match(/^\[[^\]]+\]$/gm) || []).map(marker => marker.slice(1, -1));
+}
+
+/**
+ * Run a test with a plugin registered globally, removing it afterwards
+ */
+async function withGlobalPlugin(plugin, test) {
+  await quietly(() => usePlugin(plugin));
+  try {
+    await test();
+  } finally {
+    await quietly(() => removePlugin(plugin.name));
+  }
+}
+
+async function convert(html, options, filter = true) {
+  const processor = HtmlProcessor.from(html, options);
+  if (filter) {
+    await processor.filter();
+  }
+  return processor.toMarkdown();
+}
+
+const cases = [
+  ['hooks run by priority, then before/after constraints, then registration order', async () => {
+    const log = [];
+    await convert(ARTICLE_HTML, {
+      plugins: [
+        recordingPlugin('low', log),
+        recordingPlugin('high', log, { priority: 10 }),
+        recordingPlugin('first', log, { before: ['high'] }),
+        recordingPlugin('last', log, { priority: 20, after: ['low'] })
+      ]
+    });
+    // "last" ranks highest but waits for "low"; "high" waits for "first"
+    assert.deepStrictEqual(
+      log.filter(entry => entry.endsWith(':beforeFilter')).map(entry => entry.split(':')[0]),
+      ['low', 'last', 'first', 'high']
+    );
+  }],
+
+  ['stages run in pipeline order', async () => {
+    const log = [];
+    await convert(ARTICLE_HTML, { plugins: [recordingPlugin('only', log)] });
+    assert.deepStrictEqual(log, ['only:beforeFilter', 'only:afterFilter', 'only:beforeConvert', 'only:afterConvert']);
+  }],
+
+  ['unsatisfiable ordering constraints are rejected on registration', async () => {
+    assert.throws(
+      () => HtmlProcessor.from(ARTICLE_HTML, {
+        plugins: [{ name: 'a', before: ['b'] }, { name: 'b', before: ['a'] }]
+      }),
+      /Cannot order plugin "b"/
+    );
+  }],
+
+  ['onElement returning false drops the element from the Markdown', async () => {
+    const result = await convert(ARTICLE_HTML, {
+      plugins: [{ name: 'dropper', onElement: element => !element.classList.contains('drop-me') }]
+    }, false);
+    assert.ok(!result.content.includes('dropped by an element hook'), result.content);
+    assert.ok(result.content.includes('The first paragraph'));
+  }],
+
+  ['one context is shared by every stage of a run', async () => {
+    const contexts = [];
+    const result = await convert(ARTICLE_HTML, {
+      baseUrl: 'https://example.com/post',
+      plugins: [{
+        name: 'counter',
+        beforeFilter: (doc, context) => { contexts.push(context); context.metadata.paragraphs = doc.querySelectorAll('p').length; },
+        afterConvert: (markdown, context) => { contexts.push(context); return `${markdown}\n\nParagraphs: ${context.metadata.paragraphs}`; }
+      }]
+    });
+    assert.strictEqual(contexts.length, 2);
+    assert.strictEqual(contexts[0], contexts[1]);
+    assert.strictEqual(contexts[0].baseUrl, 'https://example.com/post');
+    assert.ok(result.content.endsWith('Paragraphs: 3'), result.content);
+  }],
+
+  ['conversion hooks do not change the filtered document for later calls', async () => {
+    const processor = HtmlProcessor.from(ARTICLE_HTML, {
+      plugins: [{
+        name: 'injector',
+        beforeConvert: doc => {
+          const paragraph = doc.createElement('p');
+          paragraph.textContent = 'INJECTED';
+          doc.body.appendChild(paragraph);
+        }
+      }]
+    });
+    await processor.filter();
+    const first = await processor.toMarkdown();
+    const second = await processor.toMarkdown();
+    assert.strictEqual(second.content, first.content);
+    assert.strictEqual(second.content.split('INJECTED').length - 1, 1);
+    assert.strictEqual((await processor.toText()).split('INJECTED').length - 1, 1);
+  }],
+
+  ['a plugin list gives the processor a registry isolated from the global one', async () => {
+    await withGlobalPlugin(markerPlugin('global'), async () => {
+      assert.deepStrictEqual(markers((await convert(ARTICLE_HTML, { plugins: [markerPlugin('local')] })).content), ['local']);
+      assert.deepStrictEqual(markers((await convert(ARTICLE_HTML)).content), ['global']);
+    });
+  }],
+
+  ['a plugin selection inherits global plugins unless inheritGlobal is false', async () => {
+    await withGlobalPlugin(markerPlugin('global'), async () => {
+      const inherited = await convert(ARTICLE_HTML, { plugins: { use: [markerPlugin('local')] } });
+      assert.deepStrictEqual(markers(inherited.content), ['global', 'local']);
+      const isolated = await convert(ARTICLE_HTML, { plugins: { use: [markerPlugin('local')], inheritGlobal: false } });
+      assert.deepStrictEqual(markers(isolated.content), ['local']);
+    });
+  }],
+
+  ['own plugins replace inherited plugins of the same name', async () => {
+    await withGlobalPlugin(markerPlugin('shared', 'from global'), async () => {
+      const result = await convert(ARTICLE_HTML, { plugins: { use: [markerPlugin('shared', 'from processor')] } });
+      assert.deepStrictEqual(markers(result.content), ['from processor']);
+    });
+  }],
+
+  ['plugins are enabled and disabled by name per processor', async () => {
+    await withGlobalPlugin(markerPlugin('global'), async () => {
+      const optIn = markerPlugin('opt-in', 'opt-in', { enabled: false });
+      assert.deepStrictEqual(markers((await convert(ARTICLE_HTML, { plugins: { use: [optIn] } })).content), ['global']);
+      const selected = await convert(ARTICLE_HTML, { plugins: { use: [optIn], enable: ['opt-in'], disable: ['global'] } });
+      assert.deepStrictEqual(markers(selected.content), ['opt-in']);
+    });
+  }],
+
+  ['registries see plugins registered in their parent later on', async () => {
+    const parent = createPluginRegistry([markerPlugin('parent')]);
+    const child = createPluginRegistry([markerPlugin('child')], { parent, disable: ['late'] });
+    parent.register(markerPlugin('late'));
+    assert.deepStrictEqual(child.getNames(), ['parent', 'late', 'child']);
+    assert.deepStrictEqual(markers((await convert(ARTICLE_HTML, { plugins: child })).content), ['parent', 'child']);
+    assert.deepStrictEqual(markers((await convert(ARTICLE_HTML, { plugins: parent })).content), ['parent', 'late']);
+  }],
+
+  ['init receives the registration config', async () => {
+    let marker = 'not initialized';
+    const plugin = {
+      name: 'configured',
+      init: config => { marker = config.marker; },
+      afterConvert: markdown => `${markdown}\n\n[${marker}]`
+    };
+    const result = await convert(ARTICLE_HTML, { plugins: [{ plugin, config: { marker: 'from config' } }] });
+    assert.deepStrictEqual(markers(result.content), ['from config']);
+  }],
+
+  ['registries created for a plugin list are destroyed when the call finishes', async () => {
+    const calls = [];
+    const plugin = { name: 'lifecycle', init: () => calls.push('init'), destroy: () => calls.push('destroy') };
+    const lifecycle = () => ({ init: calls.filter(call => call === 'init').length, destroy: calls.filter(call => call === 'destroy').length });
+
+    for (let i = 0; i < 5; i++) {
+      await htmlToMarkdown(ARTICLE_HTML, { plugins: [plugin] });
+    }
+    await htmlToMarkdownAuto(ARTICLE_HTML, undefined, { plugins: { use: [plugin] } });
+    await processBatch([{ html: ARTICLE_HTML }, { html: ARTICLE_HTML }], { plugins: [plugin] });
+    for await (const markdown of htmlToMarkdownStream([ARTICLE_HTML], { plugins: [plugin] })) {
+      assert.ok(markdown);
+    }
+    assert.deepStrictEqual(lifecycle(), { init: 8, destroy: 8 });
+
+    const processor = HtmlProcessor.from(ARTICLE_HTML, { plugins: [plugin] });
+    await processor.filter();
+    await processor.toMarkdown();
+    processor.dispose();
+    processor.dispose();
+    assert.deepStrictEqual(lifecycle(), { init: 9, destroy: 9 });
+  }],
+
+  ['a registry passed in is reused and left to its owner', async () => {
+    const calls = [];
+    const registry = createPluginRegistry([{ name: 'shared', init: () => calls.push('init'), destroy: () => calls.push('destroy') }]);
+
+    for (let i = 0; i < 3; i++) {
+      await htmlToMarkdown(ARTICLE_HTML, { plugins: registry });
+    }
+    await processBatch([{ html: ARTICLE_HTML }], { plugins: registry });
+    assert.deepStrictEqual(calls, ['init']);
+
+    registry.destroy();
+    assert.deepStrictEqual(calls, ['init', 'destroy']);
+    assert.deepStrictEqual(registry.getNames(), []);
+  }],
+
+  ['the throw policy fails processing with a PluginError', async () => {
+    const failing = { name: 'failing', beforeConvert: () => { throw new Error('boom'); } };
+    await assert.rejects(
+      convert(ARTICLE_HTML, { plugins: [failing], pluginFailurePolicy: 'throw' }),
+      error => error instanceof PluginError && error.pluginName === 'failing' && /failed in beforeConvert: boom/.test(error.message)
+    );
+    // The registration policy takes precedence over the processor's
+    const skipped = await quietly(() => convert(ARTICLE_HTML, { plugins: [{ plugin: failing, onError: 'skip' }], pluginFailurePolicy: 'throw' }));
+    assert.ok(skipped.content.includes('The first paragraph'));
+  }],
+
+  ['the skip policy records the failure and continues', async () => {
+    const plugins = [
+      { name: 'failing', afterConvert: () => { throw new Error('boom'); } },
+      markerPlugin('after')
+    ];
+    const result = await quietly(() => convert(ARTICLE_HTML, { plugins }));
+    assert.deepStrictEqual(markers(result.content), ['after']);
+    const stats = result.pluginStats.find(entry => entry.name === 'failing');
+    assert.strictEqual(stats.calls, 1);
+    assert.strictEqual(stats.failures, 1);
+    assert.deepStrictEqual(stats.errors, [{ stage: 'afterConvert', message: 'boom' }]);
+  }],
+
+  ['the disableAfter policy disables a plugin in its registry after repeated failures', async () => {
+    let calls = 0;
+    const flaky = { name: 'flaky', beforeFilter: () => { calls++; throw new Error('down'); } };
+    const registry = createPluginRegistry([{ plugin: flaky, onError: { disableAfter: 2 } }]);
+    for (let run = 0; run < 3; run++) {
+      await quietly(() => convert(ARTICLE_HTML, { plugins: registry }));
+    }
+    assert.strictEqual(calls, 2);
+    const [stats] = registry.getStats().plugins;
+    assert.strictEqual(stats.failures, 2);
+    assert.strictEqual(stats.disabled, true);
+    assert.ok(!registry.getOrdered().some(plugin => plugin.name === 'flaky'));
+
+    registry.resetStats();
+    assert.ok(registry.getOrdered().some(plugin => plugin.name === 'flaky'));
+  }],
+
+  ['results report the stats of the plugins called in that run', async () => {
+    const registry = createPluginRegistry([recordingPlugin('counted', [])]);
+    const processor = HtmlProcessor.from(ARTICLE_HTML, { plugins: registry });
+    await processor.filter();
+    const filterResult = await processor.getFilterResult();
+    assert.deepStrictEqual(filterResult.pluginStats.map(({ name, calls }) => ({ name, calls })), [{ name: 'counted', calls: 2 }]);
+    const markdown = await processor.toMarkdown();
+    assert.strictEqual(markdown.pluginStats[0].calls, 4);
+    assert.ok(markdown.pluginStats[0].time >= 0);
+
+    // A second processor on the same registry starts its own run stats
+    const other = await convert(ARTICLE_HTML, { plugins: registry }, false);
+    assert.strictEqual(other.pluginStats[0].calls, 2);
+    assert.strictEqual(registry.getStats().plugins[0].calls, 6);
+
+    const plain = await convert(ARTICLE_HTML, { plugins: [] });
+    assert.strictEqual(plain.pluginStats, undefined);
+  }],
+
+  ['the ad and social removers match class/id tokens, not substrings', async () => {
+    const doc = await parseHTML(`<body>
+      <div class="ad-slot">Ad</div><div id="adBanner">Banner</div><div class="header">Header</div>
+      <div class="share-buttons">Share</div><div id="twitter-feed">Tweets</div>
+      <div class="shareholder-report">Report</div><div class="download">Download</div>
+    </body>`);
+    builtinPlugins.adRemover.beforeFilter(doc);
+    builtinPlugins.socialRemover.beforeFilter(doc);
+    const left = Array.from(doc.body.children).map(element => element.textContent);
+    assert.deepStrictEqual(left, ['Header', 'Report', 'Download']);
+  }]
+];
+
+runSuite('Plugin System Tests', cases);
@@ -226,6 +226,54 @@ class TestUrlManager {
     console.log(`✅ URLs exported to ${filename}`);
   }
 
+  /**
+   * Freeze a live page into the offline corpus and write its golden files
+   */
+  async snapshotUrl(pageType, url, name, description) {
+    if (!pageType || !url) {
+      console.error('Usage: node test-url-manager.js snapshot <pageType> <url> [name] [description]');
+      process.exit(1);
+    }
+
+    // Loaded lazily because both modules require the compiled library
+    const { DetectionAccuracyTester } = require('./test-detection-accuracy');
+    const { CorpusRegressionRunner } = require('./test-corpus-regression');
+
+    const fixtureName = name || this.slugifyUrl(url);
+    const existing = Object.values(this.config.testUrls)
+      .reduce((all, urls) => all.concat(urls), [])
+      .find(urlData => urlData.url === url);
+
+    try {
+      console.log(`📸 Fetching ${url}`);
+      const html = await new DetectionAccuracyTester().fetchHtml(url);
+      const id = await CorpusRegressionRunner.addFixture({
+        pageType,
+        name: fixtureName,
+        html,
+        url,
+        description: description || (existing && existing.description) || url,
+        source: 'snapshot'
+      });
+      console.log(`✅ Snapshot saved as corpus fixture "${id}" (${html.length} bytes)`);
+    } catch (error) {
+      console.error('❌ Error creating snapshot:', error.message);
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Derive a file-system friendly fixture name from a URL
+   */
+  slugifyUrl(url) {
+    const { hostname, pathname } = new URL(url);
+    return `${hostname}${pathname}`
+      .toLowerCase()
+      .replace(/^www\./, '')
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+  }
+
   /**
    * Show statistics
    */
@@ -268,10 +316,13 @@ async function main() {
     console.log('  config        - Update configuration (interactive)');
     console.log('  stats         - Show statistics');
     console.log('  export <fmt>  - Export URLs (json|csv|md)');
+    console.log('  snapshot <type> <url> [name] [description]');
+    console.log('                - Freeze a page into the offline corpus');
     console.log('\nExamples:');
     console.log('  node test-url-manager.js list');
     console.log('  node test-url-manager.js add');
     console.log('  node test-url-manager.js export csv');
+    console.log('  node test-url-manager.js snapshot news https://www.bbc.com/news bbc-home');
     return;
   }
 
@@ -302,6 +353,10 @@ async function main() {
       const format = args[1] || 'json';
       manager.exportUrls(format);
       break;
+
+    case 'snapshot':
+      await manager.snapshotUrl(args[1], args[2], args[3], args[4]);
+      break;
     
     default:
       console.error(`❌ Unknown command: ${command}`);
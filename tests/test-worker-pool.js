@@ -0,0 +1,106 @@
+#!/usr/bin/env node
+
+/**
+ * Worker Pool Tests
+ * Conversion on worker threads matches the main thread, batches dispatched to
+ * the pool, and pool errors
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const path = require('path');
+const { runSuite } = require('./test-harness');
+const {
+  WorkerPool,
+  processBatch,
+  htmlToMarkdownAuto,
+  cleanHtmlAuto,
+  ProcessorError
+} = require('../dist/index.js');
+
+const corpusDir = path.join(__dirname, 'corpus');
+const manifest = JSON.parse(fs.readFileSync(path.join(corpusDir, 'manifest.json'), 'utf8'));
+const fixtures = manifest.fixtures.map(fixture => ({
+  ...fixture,
+  html: fs.readFileSync(path.join(corpusDir, fixture.file), 'utf8')
+}));
+
+/**
+ * Run a test with a two-worker pool, terminating it afterwards
+ */
+async function withPool(test) {
+  const pool = new WorkerPool({ size: 2 });
+  try {
+    await test(pool);
+  } finally {
+    await pool.terminate();
+  }
+}
+
+async function assertRejectsWithCode(promise, code) {
+  await assert.rejects(promise, error => {
+    assert.ok(error instanceof ProcessorError, `${error && error.name} is a ProcessorError`);
+    assert.strictEqual(error.code, code);
+    return true;
+  });
+}
+
+const cases = [
+  ['workers convert the corpus like the main thread', () => withPool(async pool => {
+    assert.strictEqual(await pool.getSize(), 2);
+    const results = await Promise.all(fixtures.map(fixture => pool.htmlToMarkdown(fixture.html, fixture.url)));
+    for (const [index, fixture] of fixtures.entries()) {
+      const expected = await htmlToMarkdownAuto(fixture.html, fixture.url);
+      assert.strictEqual(results[index].content, expected.content, fixture.id);
+    }
+    assert.strictEqual(pool.pending, 0);
+  })],
+
+  ['workers clean HTML like the main thread', () => withPool(async pool => {
+    const fixture = fixtures[0];
+    const options = { preset: 'news' };
+    assert.strictEqual(
+      await pool.cleanHtml(fixture.html, fixture.url, options),
+      await cleanHtmlAuto(fixture.html, fixture.url, options)
+    );
+  })],
+
+  ['batches dispatched to the pool match batches on the main thread', () => withPool(async pool => {
+    const items = [
+      ...fixtures.slice(0, 4).map(fixture => ({ id: fixture.id, html: fixture.html, url: fixture.url })),
+      { id: 'missing-html' }
+    ];
+    const [pooled, local] = await Promise.all([processBatch(items, { pool }), processBatch(items)]);
+
+    assert.strictEqual(pooled.succeeded, 4);
+    assert.strictEqual(pooled.failed, 1);
+    pooled.results.forEach((result, index) => {
+      assert.strictEqual(result.id, items[index].id);
+      assert.strictEqual(result.success, local.results[index].success);
+      if (result.success) {
+        assert.strictEqual(result.result.content, local.results[index].result.content, result.id);
+      } else {
+        assert.strictEqual(result.error.code, 'INVALID_BATCH_ITEM');
+      }
+    });
+  })],
+
+  ['options that cannot be copied to a worker are rejected', () => withPool(async pool => {
+    const fixture = fixtures[0];
+    await assertRejectsWithCode(pool.htmlToMarkdown(fixture.html, fixture.url, {
+      converter: { frontMatter: { customFields: () => ({}) } }
+    }), 'WORKER_DATA_CLONE');
+    // The pool keeps working after a rejected task
+    const result = await pool.htmlToMarkdown(fixture.html, fixture.url);
+    assert.ok(result.content.length > 0);
+  })],
+
+  ['a terminated pool rejects new tasks', async () => {
+    const pool = new WorkerPool({ size: 1 });
+    await pool.htmlToMarkdown('<p>Warm up the only worker with a short page.</p>');
+    await pool.terminate();
+    await assertRejectsWithCode(pool.htmlToMarkdown('<p>Too late.</p>'), 'WORKER_POOL_TERMINATED');
+  }]
+];
+
+runSuite('Worker Pool Tests', cases);
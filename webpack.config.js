@@ -1,43 +1,60 @@
 const path = require('path');
 const CopyWebpackPlugin = require('copy-webpack-plugin');
 
-module.exports = {
-  entry: './src/index.ts',
-  module: {
-    rules: [
-      {
-        test: /\.tsx?$/,
-        use: 'ts-loader',
-        exclude: /node_modules/,
+const typescriptModule = {
+  rules: [
+    {
+      test: /\.tsx?$/,
+      use: 'ts-loader',
+      exclude: /node_modules/,
+    },
+  ],
+};
+
+const resolve = {
+  extensions: ['.tsx', '.ts', '.js'],
+};
+
+module.exports = [
+  {
+    entry: './src/index.ts',
+    module: typescriptModule,
+    resolve,
+    output: {
+      filename: 'bundle.js',
+      path: path.resolve(__dirname, 'dist'),
+      library: {
+        name: 'htmlFilter',
+        type: 'umd',
+        export: 'default',
       },
+      globalObject: 'this',
+    },
+    plugins: [
+      new CopyWebpackPlugin({
+        patterns: [
+          { from: './demo/index.html', to: 'demo/index.html' },
+        ],
+      }),
     ],
-  },
-  resolve: {
-    extensions: ['.tsx', '.ts', '.js'],
-  },
-  output: {
-    filename: 'bundle.js',
-    path: path.resolve(__dirname, 'dist'),
-    library: {
-      name: 'htmlFilter',
-      type: 'umd',
-      export: 'default',
+    devServer: {
+      static: {
+        directory: path.join(__dirname, 'dist'),
+      },
+      compress: true,
+      port: 9000,
+      hot: true,
     },
-    globalObject: 'this',
   },
-  plugins: [
-    new CopyWebpackPlugin({
-      patterns: [
-        { from: './demo/index.html', to: 'demo/index.html' },
-      ],
-    }),
-  ],
-  devServer: {
-    static: {
-      directory: path.join(__dirname, 'dist'),
+  // Web Worker script for WorkerPool in browsers
+  {
+    entry: './src/worker.ts',
+    target: 'webworker',
+    module: typescriptModule,
+    resolve,
+    output: {
+      filename: 'worker.bundle.js',
+      path: path.resolve(__dirname, 'dist'),
     },
-    compress: true,
-    port: 9000,
-    hot: true,
   },
-}; 
\ No newline at end of file
+];